@@ -0,0 +1,8 @@
+import type { FastifyInstance } from 'fastify';
+
+import { jobOperations } from '../../operations/jobs.js';
+import { registerOperationRoutes } from './operations.js';
+
+export async function jobRoutes(fastify: FastifyInstance) {
+  registerOperationRoutes(fastify, jobOperations, 'Jobs');
+}
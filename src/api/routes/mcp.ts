@@ -0,0 +1,223 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  ErrorCode,
+  JSONRPCMessageSchema,
+  type JSONRPCMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { MCPServer } from '../../mcp/server.js';
+import { StreamableHTTPServerTransport, hijackReply } from '../../mcp/streamableHttp.js';
+import { env } from '../../utils/env.js';
+import { logger } from '../../utils/logger.js';
+
+interface Session {
+  server: MCPServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastSeen: number;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const rpcError = (code: number, message: string) => ({
+  jsonrpc: '2.0',
+  id: null,
+  error: { code, message },
+});
+
+const accepts = (req: FastifyRequest, type: string) => (req.headers.accept || '').includes(type);
+
+const isInitialize = (message: JSONRPCMessage) =>
+  'method' in message && 'id' in message && message.method === 'initialize';
+
+/**
+ * MCP over HTTP, one MCP server per session:
+ * - Streamable HTTP on the prefix itself (POST messages, GET notification stream, DELETE session)
+ * - the older HTTP+SSE transport on /sse and /messages for clients without Streamable HTTP
+ */
+export async function mcpRoutes(fastify: FastifyInstance) {
+  const sessions = new Map<string, Session>();
+
+  async function closeSession(sessionId: string) {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+
+    sessions.delete(sessionId);
+    await session.server.close();
+    logger.info('MCP session closed', { sessionId });
+  }
+
+  function streamableSession(req: FastifyRequest, reply: FastifyReply) {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId !== 'string') {
+      reply.code(400).send(rpcError(ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header'));
+      return undefined;
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      reply.code(404).send(rpcError(ErrorCode.InvalidRequest, 'Session not found'));
+      return undefined;
+    }
+
+    session.lastSeen = Date.now();
+    return session as Session & { transport: StreamableHTTPServerTransport };
+  }
+
+  // SSE sessions end with their connection; Streamable HTTP clients don't always send DELETE
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - env.MCP_SESSION_IDLE_MINUTES * 60 * 1000;
+    for (const [sessionId, session] of sessions) {
+      if (
+        session.transport instanceof StreamableHTTPServerTransport &&
+        !session.transport.streaming &&
+        session.lastSeen < cutoff
+      ) {
+        closeSession(sessionId).catch((error) =>
+          logger.warn('Failed to close idle MCP session', { sessionId, error })
+        );
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  fastify.addHook('onClose', async () => {
+    clearInterval(sweep);
+    await Promise.all([...sessions.keys()].map(closeSession));
+  });
+
+  // --- Streamable HTTP ---
+  fastify.post('/', {
+    schema: {
+      description: 'MCP Streamable HTTP endpoint: JSON-RPC message or batch',
+      tags: ['MCP'],
+    },
+    handler: async (req, reply) => {
+      const batch = Array.isArray(req.body);
+      const parsed = (batch ? (req.body as unknown[]) : [req.body]).map((message) =>
+        JSONRPCMessageSchema.safeParse(message)
+      );
+
+      const messages: JSONRPCMessage[] = [];
+      for (const result of parsed) {
+        if (!result.success) {
+          return reply
+            .code(400)
+            .send(rpcError(ErrorCode.InvalidRequest, 'Invalid JSON-RPC message'));
+        }
+        messages.push(result.data);
+      }
+
+      let session: (Session & { transport: StreamableHTTPServerTransport }) | undefined;
+      if (!req.headers['mcp-session-id'] && messages.some(isInitialize)) {
+        const transport = new StreamableHTTPServerTransport();
+        const server = new MCPServer();
+        await server.connect(transport);
+
+        session = { server, transport, lastSeen: Date.now() };
+        sessions.set(transport.sessionId, session);
+        logger.info('MCP session opened', {
+          sessionId: transport.sessionId,
+          transport: 'streamable-http',
+        });
+      } else {
+        session = streamableSession(req, reply);
+        if (!session) return reply;
+      }
+
+      const result = await session.transport.handlePost(messages, reply, {
+        batch,
+        stream: accepts(req, 'text/event-stream'),
+      });
+      return result ?? reply;
+    },
+  });
+
+  fastify.get('/', {
+    schema: {
+      description: 'MCP Streamable HTTP endpoint: SSE stream for server notifications',
+      tags: ['MCP'],
+    },
+    handler: async (req, reply) => {
+      if (!accepts(req, 'text/event-stream')) {
+        return reply.code(405).send(rpcError(ErrorCode.InvalidRequest, 'Method not allowed'));
+      }
+
+      const session = streamableSession(req, reply);
+      if (!session) return reply;
+
+      if (!session.transport.openStandaloneStream(reply)) {
+        return reply
+          .code(409)
+          .send(rpcError(ErrorCode.InvalidRequest, 'Session already has an open stream'));
+      }
+      return reply;
+    },
+  });
+
+  fastify.delete('/', {
+    schema: {
+      description: 'MCP Streamable HTTP endpoint: end the session',
+      tags: ['MCP'],
+    },
+    handler: async (req, reply) => {
+      const session = streamableSession(req, reply);
+      if (!session) return reply;
+
+      await closeSession(session.transport.sessionId);
+      return reply.code(204).send();
+    },
+  });
+
+  // --- HTTP+SSE (protocol version 2024-11-05) ---
+  fastify.get('/sse', {
+    schema: {
+      description: 'Legacy MCP SSE transport: opens the event stream',
+      tags: ['MCP'],
+    },
+    handler: async (_req, reply) => {
+      // The transport writes the response head itself
+      const raw = hijackReply(reply);
+      const transport = new SSEServerTransport(`${fastify.prefix}/messages`, raw);
+      const server = new MCPServer();
+      const { sessionId } = transport;
+
+      sessions.set(sessionId, { server, transport, lastSeen: Date.now() });
+      raw.on('close', () => {
+        closeSession(sessionId).catch((error) =>
+          logger.warn('Failed to close MCP session', { sessionId, error })
+        );
+      });
+
+      await server.connect(transport);
+      logger.info('MCP session opened', { sessionId, transport: 'sse' });
+      return reply;
+    },
+  });
+
+  fastify.post<{ Querystring: { sessionId?: string } }>('/messages', {
+    schema: {
+      description: 'Legacy MCP SSE transport: posts a JSON-RPC message to a session',
+      tags: ['MCP'],
+      querystring: {
+        type: 'object',
+        properties: { sessionId: { type: 'string' } },
+        required: ['sessionId'],
+      },
+    },
+    handler: async (req, reply) => {
+      const session = sessions.get(req.query.sessionId || '');
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        return reply.code(404).send(rpcError(ErrorCode.InvalidRequest, 'Session not found'));
+      }
+
+      session.lastSeen = Date.now();
+      try {
+        await session.transport.handleMessage(req.body);
+      } catch {
+        return reply.code(400).send(rpcError(ErrorCode.InvalidRequest, 'Invalid JSON-RPC message'));
+      }
+      return reply.code(202).send();
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+
+import type { AnyOperation } from '../../operations/index.js';
+import { startBackgroundJob } from '../../operations/jobs.js';
+import { zodToJsonSchema } from '../../utils/zodJsonSchema.js';
+
+const bodyMethods = new Set(['POST', 'PUT', 'PATCH']);
+
+function keyMask(keys: string[]) {
+  return Object.fromEntries(keys.map((key) => [key, true as const]));
+}
+
+function isArraySchema(schema: z.ZodTypeAny): boolean {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return isArraySchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) return isArraySchema(schema.removeDefault());
+  return schema instanceof z.ZodArray;
+}
+
+const splitValue = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((part) => part.trim())
+        .filter(Boolean)
+    : [value];
+
+/**
+ * Signal that aborts when the client disconnects before getting the response
+ */
+export function abortOnDisconnect(reply: FastifyReply): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.on('close', () => {
+    if (!reply.raw.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * Array query parameters accept repeated keys as well as comma-separated values
+ */
+function splitLists(query: Record<string, unknown>, keys: string[]) {
+  const result = { ...query };
+  for (const key of keys) {
+    const value = result[key];
+    if (Array.isArray(value)) {
+      result[key] = value.flatMap(splitValue);
+    }
+  }
+  return result;
+}
+
+/**
+ * Register a route for every operation with `http` set. Path parameters, query string or body
+ * and the response are described with JSON Schema generated from the operation's zod schemas,
+ * which Fastify uses for coercion and swagger for the OpenAPI document
+ */
+export function registerOperationRoutes(
+  fastify: FastifyInstance,
+  operations: AnyOperation[],
+  tag: string
+) {
+  for (const operation of operations) {
+    if (!operation.http) continue;
+
+    const { method, path, send } = operation.http;
+    const paramNames = [...path.matchAll(/:(\w+)/g)].map((match) => match[1]);
+    const params = operation.input.pick(keyMask(paramNames));
+    const rest = operation.input.omit(keyMask(paramNames));
+
+    const hasBody = bodyMethods.has(method);
+    const restShape: z.ZodRawShape = rest.shape;
+    const restKeys = Object.keys(restShape);
+    const listKeys = hasBody ? [] : restKeys.filter((key) => isArraySchema(restShape[key]));
+
+    fastify.route({
+      method,
+      url: path,
+      schema: {
+        operationId: operation.name,
+        description: operation.description,
+        tags: [tag],
+        'x-safety': operation.safety,
+        ...(paramNames.length && { params: zodToJsonSchema(params) }),
+        ...(restKeys.length && { [hasBody ? 'body' : 'querystring']: zodToJsonSchema(rest) }),
+        ...(operation.output && {
+          response: { 200: zodToJsonSchema(operation.output, { io: 'output' }) },
+        }),
+      },
+      // An empty POST is an empty input, so it gets the same required-property errors
+      ...(hasBody && {
+        preValidation: async (req: FastifyRequest) => {
+          req.body ??= {};
+        },
+      }),
+      handler: async (req, reply) => {
+        const source = hasBody
+          ? (req.body as Record<string, unknown> | undefined)
+          : splitLists(req.query as Record<string, unknown>, listKeys);
+
+        const rawInput = { ...source, ...(req.params as object) };
+
+        // RFC 7240: long operations can be run as a job instead of holding the connection open
+        if (operation.background && /\brespond-async\b/i.test(String(req.headers.prefer ?? ''))) {
+          const job = await startBackgroundJob(operation, rawInput);
+          return reply
+            .code(202)
+            .header('Location', `/api/jobs/${job.id}`)
+            .header('Preference-Applied', 'respond-async')
+            .send(job);
+        }
+
+        const input = operation.input.parse(rawInput);
+
+        const result = await operation.handler(input, { signal: abortOnDisconnect(reply) });
+
+        return send ? send(reply, result, input) : result;
+      },
+    });
+  }
+}
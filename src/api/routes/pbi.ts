@@ -1,190 +1,95 @@
 import type { FastifyInstance } from 'fastify';
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
 import { z } from 'zod';
-import { powerbiClient } from '../../services/powerbiClient.js';
-
+import { importService } from '../../services/imports.js';
+import { exportService } from '../../services/export.js';
+import { ensureDir, getTempDir } from '../../utils/fsx.js';
+import { zodToJsonSchema } from '../../utils/zodJsonSchema.js';
 import {
-  createWorkspaceSchema,
-  cloneReportSchema,
-  refreshDatasetSchema,
-  updateDatasetParametersSchema,
-} from '../schemas/pbi.js';
+  powerbiOperations,
+  importUploadQuerySchema,
+  exportReportSchema,
+} from '../../operations/powerbi.js';
+import { abortOnDisconnect, registerOperationRoutes } from './operations.js';
 
-export async function pbiRoutes(fastify: FastifyInstance) {
-  
-  fastify.get('/workspaces', {
-    schema: {
-      description: 'List all Power BI workspaces',
-      tags: ['Power BI'],
-      response: {
-        200: {
-          type: 'object',
-          properties: { value: { type: 'array' } },
-        },
-      },
-    },
-    handler: async () => powerbiClient.listWorkspaces(),
-  });
+const exportBodySchema = exportReportSchema.omit({ outPath: true });
 
-  fastify.get<{ Params: { workspaceId: string } }>('/workspaces/:workspaceId', {
-    schema: {
-      description: 'Get workspace details',
-      tags: ['Power BI'],
-      params: {
-        type: 'object',
-        properties: { workspaceId: { type: 'string' } },
-      },
-    },
-    handler: async (req) => powerbiClient.getWorkspace(req.params.workspaceId),
-  });
+/**
+ * Header values must be latin1; send an ASCII fallback plus the RFC 5987 encoded name
+ */
+function contentDisposition(fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
 
-  fastify.post<{ Body: z.infer<typeof createWorkspaceSchema> }>('/workspaces', {
-    schema: {
-      description: 'Create workspace',
-      tags: ['Power BI'],
-      body: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
-    },
-    handler: async (req) => {
-      const { name } = createWorkspaceSchema.parse(req.body);
-      return powerbiClient.createWorkspace(name);
-    },
-  });
+export async function pbiRoutes(fastify: FastifyInstance) {
+  registerOperationRoutes(fastify, powerbiOperations, 'Power BI');
 
-  fastify.get('/reports', {
-    schema: {
-      description: 'List reports',
-      tags: ['Power BI'],
-      querystring: { type: 'object', properties: { workspaceId: { type: 'string' } } },
-    },
-    handler: async (req) => {
-      const { workspaceId } = req.query as { workspaceId?: string };
-      return powerbiClient.listReports(workspaceId);
-    },
-  });
+  // Upload and download routes deal in files rather than JSON, so they are written out here
 
-  fastify.post<{ Body: z.infer<typeof cloneReportSchema> }>('/reports/clone', {
+  fastify.post('/import', {
     schema: {
-      description: 'Clone report',
+      description: 'Import PBIX (files over 1 GB go through a temporary upload location)',
       tags: ['Power BI'],
-      body: {
-        type: 'object',
-        required: ['workspaceId', 'reportId', 'name'],
-        properties: {
-          workspaceId: { type: 'string' },
-          reportId: { type: 'string' },
-          name: { type: 'string' },
-          targetWorkspaceId: { type: 'string' },
-        },
-      },
-    },
-    handler: async (req) => {
-      const parsed = cloneReportSchema.parse(req.body);
-      return powerbiClient.cloneReport(
-        parsed.workspaceId,
-        parsed.reportId,
-        parsed.name,
-        parsed.targetWorkspaceId,
-      );
+      consumes: ['multipart/form-data'],
+      querystring: zodToJsonSchema(importUploadQuerySchema),
     },
-  });
+    handler: async (req, reply) => {
+      const data = await req.file();
+      if (!data) return reply.code(400).send({ error: 'No file uploaded' });
 
-  fastify.get('/datasets', {
-    schema: {
-      description: 'List datasets',
-      tags: ['Power BI'],
-      querystring: { type: 'object', properties: { workspaceId: { type: 'string' } } },
-    },
-    handler: async (req) => {
-      const { workspaceId } = req.query as { workspaceId?: string };
-      return powerbiClient.listDatasets(workspaceId);
-    },
-  });
+      const query = importUploadQuerySchema.parse(req.query);
 
-  fastify.post<{ Body: z.infer<typeof refreshDatasetSchema> }>('/datasets/refresh', {
-    schema: {
-      description: 'Refresh dataset',
-      tags: ['Power BI'],
-      body: {
-        type: 'object',
-        required: ['workspaceId', 'datasetId'],
-        properties: {
-          workspaceId: { type: 'string' },
-          datasetId: { type: 'string' },
-          notifyOption: { type: 'string' },
-        },
-      },
-    },
-    handler: async (req) => {
-      const parsed = refreshDatasetSchema.parse(req.body);
-      return powerbiClient.refreshDataset(parsed.workspaceId, parsed.datasetId, parsed.notifyOption);
-    },
-  });
+      const uploadDir = getTempDir('upload');
+      const filePath = path.join(uploadDir, path.basename(data.filename));
+      await ensureDir(uploadDir);
 
-  fastify.post<{ Body: z.infer<typeof updateDatasetParametersSchema> }>(
-    '/datasets/parameters',
-    {
-      schema: {
-        description: 'Update dataset parameters',
-        tags: ['Power BI'],
-        body: {
-          type: 'object',
-          required: ['workspaceId', 'datasetId', 'parameters'],
-          properties: {
-            workspaceId: { type: 'string' },
-            datasetId: { type: 'string' },
-            parameters: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: { type: 'string' },
-                  newValue: { type: 'string' },
-                },
-              },
-            },
+      try {
+        await pipeline(data.file, createWriteStream(filePath));
+        if (data.file.truncated) {
+          return reply.code(413).send({ error: 'File exceeds the maximum upload size' });
+        }
+
+        return await importService.importFile(
+          {
+            ...query,
+            filePath,
+            fileName: data.filename,
+            waitForCompletion: query.waitForCompletion ?? false,
           },
-        },
-      },
-      handler: async (req) => {
-        const parsed = updateDatasetParametersSchema.parse(req.body);
-        return powerbiClient.updateDatasetParameters(
-          parsed.workspaceId,
-          parsed.datasetId,
-          parsed.parameters
+          { signal: abortOnDisconnect(reply) }
         );
-      },
-    }
-  );
+      } finally {
+        await fs.rm(uploadDir, { recursive: true, force: true });
+      }
+    },
+  });
 
-  fastify.post('/import', {
+  fastify.post<{ Body: z.infer<typeof exportBodySchema> }>('/reports/export', {
     schema: {
-      description: 'Import PBIX',
+      description: 'Export report to PDF/PPTX/PNG and stream the file back',
       tags: ['Power BI'],
-      consumes: ['multipart/form-data'],
-      querystring: {
-        type: 'object',
-        required: ['workspaceId'],
-        properties: {
-          workspaceId: { type: 'string' },
-          nameConflict: { type: 'string' },
-        },
-      },
+      produces: ['application/pdf', 'image/png', 'application/zip', 'application/octet-stream'],
+      body: zodToJsonSchema(exportBodySchema),
     },
     handler: async (req, reply) => {
-      const data = await req.file();
-      if (!data) return reply.code(400).send({ error: 'No file uploaded' });
-
-      const buffer = await data.toBuffer();
-      const { workspaceId, nameConflict } = req.query as {
-        workspaceId: string;
-        nameConflict?: 'Abort' | 'Overwrite' | 'GenerateUniqueName';
-      };
+      const parsed = exportBodySchema.parse(req.body);
+      const exported = await exportService.exportReport(parsed, {
+        signal: abortOnDisconnect(reply),
+      });
 
-      return powerbiClient.importFile(
-        workspaceId,
-        buffer,
-        data.filename,
-        nameConflict || 'GenerateUniqueName'
-      );
+      return reply
+        .header('Content-Type', exported.contentType)
+        .header('Content-Disposition', contentDisposition(exported.fileName))
+        .header('x-export-id', exported.exportId)
+        .send(exported.stream);
     },
   });
 }
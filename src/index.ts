@@ -13,8 +13,8 @@ async function main() {
 
     logger.info('Starting powerbi-mcp-server', { mode });
 
-    if (mode === 'api') {
-      const server = await createHTTPServer();
+    if (mode === 'api' || mode === 'both') {
+      const server = await createHTTPServer({ mcp: mode === 'both' });
       await server.listen({
         port: Number(process.env.PORT) || 3000,
         host: '0.0.0.0',
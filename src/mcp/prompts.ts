@@ -0,0 +1,196 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { powerbiClient } from '../services/powerbiClient.js';
+import { datasetSchemaService } from '../services/datasetSchema.js';
+import { themeService } from '../services/theme.js';
+import { readResource } from './resources.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+type PromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): Promise<PromptContent[]>;
+}
+
+const json = (value: unknown) => ['```json', JSON.stringify(value, null, 2), '```'].join('\n');
+
+const text = (...lines: string[]): PromptContent => ({ type: 'text', text: lines.join('\n') });
+
+async function optional<T>(promise: Promise<T>): Promise<T | { error: string }> {
+  try {
+    return await promise;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const csv = (value?: string) =>
+  (value || '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+const definitions: PromptDefinition[] = [
+  {
+    name: 'explain-measure',
+    description: 'Explain what a measure of a published dataset calculates, in plain language',
+    arguments: [
+      { name: 'workspaceId', description: 'Workspace ID', required: true },
+      { name: 'datasetId', description: 'Dataset ID', required: true },
+      { name: 'measure', description: 'Measure name', required: true },
+    ],
+    render: async ({ workspaceId, datasetId, measure }) => {
+      const schema = await datasetSchemaService.getSchema(workspaceId, datasetId);
+      const measures = schema.tables.flatMap((table) =>
+        table.measures.map((entry) => ({ table: table.name, ...entry }))
+      );
+
+      const target = measures.find((entry) => entry.name.toLowerCase() === measure.toLowerCase());
+      if (!target) {
+        throw new McpError(ErrorCode.InvalidParams, `Measure not found in dataset: ${measure}`);
+      }
+
+      // Measures referenced as [Name] in the expression, so their logic can be explained too
+      const referenced = measures.filter(
+        (entry) => entry !== target && target.expression?.includes(`[${entry.name}]`)
+      );
+
+      return [
+        text(
+          `Explain the Power BI measure "${target.name}" (table "${target.table}") to a business user.`,
+          'Describe what it calculates, how filters on the report affect it, and any edge cases',
+          '(blanks, division by zero, time intelligence). Avoid DAX jargon where possible.',
+          '',
+          'Measure definition:',
+          json(target),
+          ...(referenced.length ? ['', 'Measures it references:', json(referenced)] : [])
+        ),
+      ];
+    },
+  },
+  {
+    name: 'audit-refresh-health',
+    description: 'Review the refresh history and schedule of a dataset and suggest fixes',
+    arguments: [
+      { name: 'workspaceId', description: 'Workspace ID', required: true },
+      { name: 'datasetId', description: 'Dataset ID', required: true },
+    ],
+    render: async ({ workspaceId, datasetId }) => {
+      const [dataset, history, schedule] = await Promise.all([
+        powerbiClient.getDataset(workspaceId, datasetId),
+        powerbiClient.getRefreshHistory(workspaceId, datasetId, 50),
+        // DirectQuery and push datasets have no refresh schedule
+        optional(powerbiClient.getRefreshSchedule(workspaceId, datasetId)),
+      ]);
+
+      return [
+        text(
+          'Audit the refresh health of this Power BI dataset.',
+          'Report the success rate, recurring error messages, duration trends and failures that',
+          'line up with scheduled times. Check whether the schedule fits the refresh duration',
+          'and the failure notification settings, and list concrete fixes in priority order.',
+          '',
+          'Dataset:',
+          json(dataset),
+          '',
+          'Refresh history (most recent first):',
+          json(history),
+          '',
+          'Refresh schedule:',
+          json(schedule)
+        ),
+      ];
+    },
+  },
+  {
+    name: 'review-theme',
+    description: 'Review the theme of an extracted report against brand colors and fonts',
+    arguments: [
+      { name: 'projectDir', description: 'Extracted project or report directory', required: true },
+      {
+        name: 'brandColors',
+        description: 'Brand colors as comma-separated hex values',
+        required: true,
+      },
+      { name: 'brandFonts', description: 'Brand fonts, comma-separated' },
+    ],
+    render: async ({ projectDir, brandColors, brandFonts }) => {
+      const theme = await themeService.extractTheme(projectDir);
+      const validation = themeService.validateTheme(theme, { checkContrast: true });
+      const fonts = csv(brandFonts);
+
+      return [
+        text(
+          'Review this Power BI report theme against our brand guidelines.',
+          'Point out data colors, backgrounds and text classes that deviate from the brand,',
+          'explain the validation and contrast findings, and propose the corrected theme JSON.',
+          '',
+          `Brand colors: ${csv(brandColors).join(', ')}`,
+          ...(fonts.length ? [`Brand fonts: ${fonts.join(', ')}`] : []),
+          '',
+          'Current theme:',
+          json(theme),
+          '',
+          'Validation result:',
+          json(validation)
+        ),
+      ];
+    },
+  },
+  {
+    name: 'summarize-workspace',
+    description: 'Summarize the datasets, reports and dashboards of a workspace',
+    arguments: [{ name: 'workspaceId', description: 'Workspace ID', required: true }],
+    render: async ({ workspaceId }) => {
+      const { contents } = await readResource(`powerbi://workspaces/${workspaceId}`);
+
+      return [
+        text(
+          'Summarize the contents of this Power BI workspace for a non-technical audience.',
+          'Group the reports by the dataset they use where the names make it clear, flag',
+          'datasets without reports, and suggest which items look unused or duplicated.'
+        ),
+        { type: 'resource', resource: contents[0] },
+      ];
+    },
+  },
+];
+
+export const prompts = definitions.map(({ name, description, arguments: args }) => ({
+  name,
+  description,
+  arguments: args,
+}));
+
+/**
+ * Render a prompt, fetching the data it refers to
+ */
+export async function getPrompt(name: string, args: Record<string, string> = {}) {
+  const definition = definitions.find((entry) => entry.name === name);
+  if (!definition) throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+
+  const missing = definition.arguments.filter((arg) => arg.required && !args[arg.name]);
+  if (missing.length) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`
+    );
+  }
+
+  const contents = await definition.render(args);
+
+  return {
+    description: definition.description,
+    messages: contents.map((content) => ({ role: 'user' as const, content })),
+  };
+}
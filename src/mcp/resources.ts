@@ -0,0 +1,187 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { powerbiClient } from '../services/powerbiClient.js';
+import { datasetSchemaService } from '../services/datasetSchema.js';
+import { modelService } from '../services/model.js';
+import { reportService } from '../services/report.js';
+import { logger } from '../utils/logger.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+// Power BI list endpoints are untyped
+type Listing = Promise<{ value?: Array<{ id: string; name: string }> }>;
+
+interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  read(params: Record<string, string>): Promise<unknown>;
+}
+
+const workspaceUri = (workspaceId: string) => `powerbi://workspaces/${workspaceId}`;
+
+async function readWorkspace({ workspaceId }: Record<string, string>) {
+  const [workspace, datasets, reports, dashboards] = await Promise.all([
+    powerbiClient.getWorkspace(workspaceId) as Promise<Record<string, unknown>>,
+    powerbiClient.listDatasets(workspaceId) as Listing,
+    powerbiClient.listReports(workspaceId) as Listing,
+    powerbiClient.listDashboards(workspaceId),
+  ]);
+  const base = workspaceUri(workspaceId);
+
+  return {
+    ...workspace,
+    datasets: (datasets.value || []).map(({ id, name }) => ({
+      id,
+      name,
+      schemaUri: `${base}/datasets/${id}/schema`,
+    })),
+    reports: (reports.value || []).map(({ id, name }) => ({
+      id,
+      name,
+      uri: `${base}/reports/${id}`,
+    })),
+    dashboards: (dashboards.value || []).map(({ id, displayName }) => ({ id, name: displayName })),
+  };
+}
+
+const templates: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: 'powerbi://workspaces',
+    name: 'Workspaces',
+    description: 'All workspaces the caller can access',
+    read: async () => powerbiClient.listWorkspaces(),
+  },
+  {
+    uriTemplate: 'powerbi://workspaces/{workspaceId}',
+    name: 'Workspace contents',
+    description: 'A workspace with its datasets, reports and dashboards',
+    read: readWorkspace,
+  },
+  {
+    uriTemplate: 'powerbi://workspaces/{workspaceId}/datasets/{datasetId}',
+    name: 'Dataset',
+    description: 'Dataset details: owner, storage mode, refresh and RLS settings',
+    read: async ({ workspaceId, datasetId }) => powerbiClient.getDataset(workspaceId, datasetId),
+  },
+  {
+    uriTemplate: 'powerbi://workspaces/{workspaceId}/datasets/{datasetId}/schema',
+    name: 'Dataset schema',
+    description: 'Tables of a dataset with their columns and measures (including DAX)',
+    read: async ({ workspaceId, datasetId }) =>
+      datasetSchemaService.getSchema(workspaceId, datasetId),
+  },
+  {
+    uriTemplate: 'powerbi://workspaces/{workspaceId}/reports/{reportId}',
+    name: 'Report',
+    description: 'Report details including its dataset and embed URL',
+    read: async ({ workspaceId, reportId }) => powerbiClient.getReport(workspaceId, reportId),
+  },
+  {
+    uriTemplate: 'pbix-project://{path}/model/tables',
+    name: 'Project tables',
+    description: 'Tables of the semantic model in an extracted PBIX project',
+    read: async ({ path }) => modelService.listTables(path),
+  },
+  {
+    uriTemplate: 'pbix-project://{path}/model/measures',
+    name: 'Project measures',
+    description: 'Measures with DAX, format strings and folders of an extracted PBIX project',
+    read: async ({ path }) => modelService.listMeasures(path),
+  },
+  {
+    uriTemplate: 'pbix-project://{path}/model/relationships',
+    name: 'Project relationships',
+    description: 'Relationships of the semantic model in an extracted PBIX project',
+    read: async ({ path }) => modelService.listRelationships(path),
+  },
+  {
+    uriTemplate: 'pbix-project://{path}/report/pages',
+    name: 'Project report pages',
+    description: 'Report pages with visual counts of an extracted PBIX project',
+    read: async ({ path }) => reportService.listPages(path),
+  },
+];
+
+/**
+ * `{path}` is a filesystem path and may span several segments (or be percent-encoded);
+ * every other variable is a single segment
+ */
+function templatePattern(uriTemplate: string) {
+  const names: string[] = [];
+  const source = uriTemplate
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const variable = /^\{(\w+)\}$/.exec(part);
+      if (!variable) return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+
+      names.push(variable[1]);
+      return variable[1] === 'path' ? '(.+)' : '([^/]+)';
+    })
+    .join('');
+
+  return { pattern: new RegExp(`^${source}$`), names };
+}
+
+const compiled = templates.map((template) => ({
+  ...template,
+  ...templatePattern(template.uriTemplate),
+}));
+
+export const resourceTemplates = templates
+  .filter((template) => template.uriTemplate.includes('{'))
+  .map(({ uriTemplate, name, description }) => ({
+    uriTemplate,
+    name,
+    description,
+    mimeType: JSON_MIME_TYPE,
+  }));
+
+/**
+ * Concrete resources: the workspace list and every workspace in it
+ */
+export async function listResources() {
+  const resources = [
+    {
+      uri: 'powerbi://workspaces',
+      name: 'Workspaces',
+      description: 'All workspaces the caller can access',
+      mimeType: JSON_MIME_TYPE,
+    },
+  ];
+
+  try {
+    const workspaces = await (powerbiClient.listWorkspaces() as Listing);
+    for (const workspace of workspaces.value || []) {
+      resources.push({
+        uri: workspaceUri(workspace.id),
+        name: workspace.name,
+        description: 'Workspace contents',
+        mimeType: JSON_MIME_TYPE,
+      });
+    }
+  } catch (error) {
+    // Project templates still work without Power BI access
+    logger.warn('Could not list workspaces as resources', { error });
+  }
+
+  return resources;
+}
+
+export async function readResource(uri: string) {
+  for (const template of compiled) {
+    const match = template.pattern.exec(uri);
+    if (!match) continue;
+
+    const params = Object.fromEntries(
+      template.names.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+    );
+    const data = await template.read(params);
+
+    return {
+      contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
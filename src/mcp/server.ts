@@ -1,13 +1,47 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  type ProgressToken,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { ZodError } from 'zod';
+
 import { logger } from '../utils/logger.js';
-import { powerbiTools } from './tools/powerbi.js';
-import { pbixTools } from './tools/pbix.js';
+import { AppError, CancelledError } from '../utils/errors.js';
+import type { ProgressUpdate } from '../utils/task.js';
+import { zodToJsonSchema } from '../utils/zodJsonSchema.js';
+import { operations, findOperation } from '../operations/index.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { getPrompt, prompts } from './prompts.js';
+
+const tools = operations.map((operation) => ({
+  name: operation.name,
+  description: operation.description,
+  inputSchema: zodToJsonSchema(operation.input),
+  annotations: {
+    readOnlyHint: operation.safety === 'read',
+    destructiveHint: operation.safety === 'destructive',
+  },
+}));
+
+function errorMessage(error: unknown) {
+  if (error instanceof ZodError) return 'Invalid arguments';
+  return error instanceof Error ? error.message : String(error);
+}
+
+function errorDetails(error: unknown) {
+  if (error instanceof AppError) return error.details;
+  if (error instanceof ZodError) return error.errors;
+  return undefined;
+}
 
 export class MCPServer {
   private server: Server;
@@ -21,6 +55,8 @@ export class MCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
@@ -30,27 +66,23 @@ export class MCPServer {
 
   private setupHandlers() {
     // list tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const all = [...powerbiTools, ...pbixTools];
-
-      return {
-        tools: all.map((t) => ({
-          name: t.name,
-          description: t.description,
-          inputSchema: t.inputSchema,
-        })),
-      };
-    });
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
 
     // execute tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, { signal }) => {
       const { name, arguments: args } = request.params;
 
-      const tool = [...powerbiTools, ...pbixTools].find((t) => t.name === name);
-      if (!tool) throw new Error(`Unknown tool: ${name}`);
+      const operation = findOperation(name);
+      if (!operation) throw new Error(`Unknown tool: ${name}`);
+
+      const progressToken = request.params._meta?.progressToken;
 
       try {
-        const result = await tool.handler((args || {}) as any);
+        const result = await operation.handler(operation.input.parse(args || {}), {
+          signal,
+          onProgress:
+            progressToken !== undefined ? this.progressReporter(progressToken) : undefined,
+        });
 
         return {
           content: [
@@ -61,7 +93,11 @@ export class MCPServer {
           ],
         };
       } catch (error) {
-        logger.error('Tool execution failed', { name, error });
+        if (error instanceof CancelledError) {
+          logger.info('Tool call cancelled', { name });
+        } else {
+          logger.error('Tool execution failed', { name, error });
+        }
 
         return {
           isError: true,
@@ -71,7 +107,8 @@ export class MCPServer {
               text: JSON.stringify(
                 {
                   success: false,
-                  error: error instanceof Error ? error.message : String(error),
+                  error: errorMessage(error),
+                  details: errorDetails(error),
                 },
                 null,
                 2
@@ -81,11 +118,66 @@ export class MCPServer {
         };
       }
     });
+
+    // resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await listResources(),
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates,
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      readResource(request.params.uri)
+    );
+
+    // prompts
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      getPrompt(request.params.name, request.params.arguments)
+    );
+  }
+
+  /**
+   * Forward progress updates as MCP progress notifications. Progress must increase with every
+   * notification, so updates without a number of their own count up from the last one
+   */
+  private progressReporter(progressToken: ProgressToken) {
+    let last = 0;
+
+    return (update: ProgressUpdate) => {
+      last = update.progress !== undefined && update.progress > last ? update.progress : last + 1;
+
+      this.server
+        .notification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress: last,
+            ...(update.total !== undefined && update.total >= last && { total: update.total }),
+            message: update.message,
+          },
+        })
+        .catch((error) => logger.debug('Failed to send progress notification', { error }));
+    };
   }
 
   async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(new StdioServerTransport());
     logger.info('MCP Server started via stdio');
   }
+
+  /**
+   * Serve over the given transport. An instance serves a single connection, so HTTP mode
+   * creates one per session
+   */
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    await this.server.close();
+  }
 }
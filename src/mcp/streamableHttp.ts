@@ -0,0 +1,214 @@
+import { randomUUID } from 'crypto';
+import type { ServerResponse } from 'http';
+import type { FastifyReply } from 'fastify';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type {
+  JSONRPCMessage,
+  JSONRPCRequest,
+  ProgressToken,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * The responses owed to one POST: answered as a single JSON body once all of them are in, or
+ * written to an SSE stream as they arrive (together with progress notifications)
+ */
+interface PendingPost {
+  requestIds: Set<RequestId>;
+  stream?: ServerResponse;
+  responses: JSONRPCMessage[];
+  done(): void;
+}
+
+const isRequest = (message: JSONRPCMessage): message is JSONRPCRequest =>
+  'method' in message && 'id' in message;
+
+const isResponse = (message: JSONRPCMessage) => 'result' in message || 'error' in message;
+
+function writeEvent(stream: ServerResponse, message: JSONRPCMessage) {
+  stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Take over the raw response, keeping the headers hooks already set on the reply (CORS)
+ */
+export function hijackReply(reply: FastifyReply) {
+  reply.hijack();
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value);
+  }
+  return reply.raw;
+}
+
+function openEventStream(reply: FastifyReply, sessionId: string) {
+  const stream = hijackReply(reply).writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Mcp-Session-Id': sessionId,
+  });
+  // Clients wait for the headers before reading events
+  stream.flushHeaders();
+  return stream;
+}
+
+/**
+ * Server side of the MCP Streamable HTTP transport for a single session. Requests arrive as
+ * POST bodies and are answered on the same HTTP response; server notifications without a
+ * request to attach to go to the optional stream opened with GET.
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private pending = new Map<RequestId, PendingPost>();
+  private progressTokens = new Map<ProgressToken, RequestId>();
+  private standalone?: ServerResponse;
+  private closed = false;
+
+  async start() {}
+
+  /**
+   * Whether a response or the GET stream is still open; such sessions are not idle
+   */
+  get streaming() {
+    return this.pending.size > 0 || this.standalone !== undefined;
+  }
+
+  /**
+   * Handle the messages of one POST; resolves with the JSON body to send, or undefined when
+   * the reply was answered directly (202 or SSE)
+   */
+  async handlePost(
+    messages: JSONRPCMessage[],
+    reply: FastifyReply,
+    options: { batch: boolean; stream: boolean }
+  ): Promise<JSONRPCMessage | JSONRPCMessage[] | undefined> {
+    const requests = messages.filter(isRequest);
+
+    if (requests.length === 0) {
+      messages.forEach((message) => this.receive(message));
+      reply.code(202).send();
+      return undefined;
+    }
+
+    let resolve!: () => void;
+    const finished = new Promise<void>((done) => (resolve = done));
+    const post: PendingPost = {
+      requestIds: new Set(requests.map((request) => request.id)),
+      responses: [],
+      done: resolve,
+    };
+
+    for (const request of requests) {
+      this.pending.set(request.id, post);
+      const token = request.params?._meta?.progressToken;
+      if (token !== undefined) this.progressTokens.set(token, request.id);
+    }
+
+    if (options.stream) {
+      post.stream = openEventStream(reply, this.sessionId);
+      // A client that goes away no longer needs its responses
+      post.stream.on('close', () => this.release(post));
+    }
+
+    messages.forEach((message) => this.receive(message));
+    await finished;
+
+    if (post.stream) {
+      post.stream.end();
+      return undefined;
+    }
+
+    // Every request was cancelled
+    if (post.responses.length === 0) {
+      reply.code(202).send();
+      return undefined;
+    }
+
+    reply.header('Mcp-Session-Id', this.sessionId);
+    return options.batch ? post.responses : post.responses[0];
+  }
+
+  /**
+   * Attach the stream for server-initiated messages (GET)
+   */
+  openStandaloneStream(reply: FastifyReply) {
+    if (this.standalone) return false;
+
+    const stream = openEventStream(reply, this.sessionId);
+    stream.on('close', () => {
+      if (this.standalone === stream) this.standalone = undefined;
+    });
+    this.standalone = stream;
+    return true;
+  }
+
+  async send(message: JSONRPCMessage) {
+    if (isResponse(message) && 'id' in message) {
+      const post = this.pending.get(message.id);
+      // The POST was cancelled or its connection closed
+      if (!post) return;
+
+      this.forget(message.id);
+      post.requestIds.delete(message.id);
+      if (post.stream) writeEvent(post.stream, message);
+      else post.responses.push(message);
+
+      if (post.requestIds.size === 0) post.done();
+      return;
+    }
+
+    const token =
+      'method' in message && message.method === 'notifications/progress'
+        ? (message.params?.progressToken as ProgressToken | undefined)
+        : undefined;
+    const requestId = token !== undefined ? this.progressTokens.get(token) : undefined;
+    const stream =
+      (requestId !== undefined && this.pending.get(requestId)?.stream) || this.standalone;
+
+    // Notifications are best effort; without an open stream there is nowhere to send them
+    if (stream) writeEvent(stream, message);
+  }
+
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const post of new Set(this.pending.values())) this.release(post);
+    this.standalone?.end();
+    this.standalone = undefined;
+    this.onclose?.();
+  }
+
+  private receive(message: JSONRPCMessage) {
+    // A cancelled request gets no response, so stop waiting for it
+    if ('method' in message && message.method === 'notifications/cancelled') {
+      const requestId = message.params?.requestId as RequestId | undefined;
+      const post = requestId !== undefined ? this.pending.get(requestId) : undefined;
+      if (post && requestId !== undefined) {
+        this.forget(requestId);
+        post.requestIds.delete(requestId);
+        if (post.requestIds.size === 0) post.done();
+      }
+    }
+
+    this.onmessage?.(message);
+  }
+
+  private release(post: PendingPost) {
+    for (const requestId of post.requestIds) this.forget(requestId);
+    post.requestIds.clear();
+    post.done();
+  }
+
+  private forget(requestId: RequestId) {
+    this.pending.delete(requestId);
+    for (const [token, id] of this.progressTokens) {
+      if (id === requestId) this.progressTokens.delete(token);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { powerbiOperations } from './powerbi.js';
+import { pbixOperations } from './pbix.js';
+import { jobOperations } from './jobs.js';
+import type { AnyOperation } from './registry.js';
+
+export { powerbiOperations, pbixOperations, jobOperations };
+export type { AnyOperation, Operation, SafetyClass } from './registry.js';
+
+export const operations: AnyOperation[] = [
+  ...powerbiOperations,
+  ...pbixOperations,
+  ...jobOperations,
+];
+
+const operationsByName = new Map<string, AnyOperation>();
+for (const operation of operations) {
+  // Names double as MCP tool names and OpenAPI operation IDs
+  if (operationsByName.has(operation.name)) {
+    throw new Error(`Duplicate operation name: ${operation.name}`);
+  }
+  operationsByName.set(operation.name, operation);
+}
+
+export function findOperation(name: string): AnyOperation | undefined {
+  return operationsByName.get(name);
+}
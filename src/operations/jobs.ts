@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+import { jobService } from '../services/jobs.js';
+import { powerbiOperations } from './powerbi.js';
+import { pbixOperations } from './pbix.js';
+import { defineOperation, type AnyOperation } from './registry.js';
+
+const backgroundOperations = new Map<string, AnyOperation>(
+  [...powerbiOperations, ...pbixOperations]
+    .filter((operation) => operation.background)
+    .map((operation) => [operation.name, operation])
+);
+
+/**
+ * Validate the input now so mistakes are reported to the caller instead of in the job record
+ */
+export async function startBackgroundJob(operation: AnyOperation, rawInput: unknown) {
+  const input = operation.input.parse(rawInput);
+  return jobService.start(operation.name, input, (context) => operation.handler(input, context));
+}
+
+// --- Schemas ---
+
+const jobIdSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+const startJobSchema = z.object({
+  operation: z.enum([...backgroundOperations.keys()] as [string, ...string[]]),
+  input: z.record(z.unknown()).default({}),
+});
+
+const listJobsSchema = z.object({
+  status: z.enum(['running', 'succeeded', 'failed', 'cancelled']).optional(),
+  operation: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+// --- Operations ---
+
+export const jobOperations = [
+  defineOperation({
+    name: 'startJob',
+    description:
+      'Start a long-running operation (extract, compile, theme apply, refresh, export, import, deployment, inventory scan) as a background job and return its job ID right away; poll getJob for status, logs and result',
+    safety: 'write',
+    input: startJobSchema,
+    http: { method: 'POST', path: '/', send: (reply, job) => reply.code(202).send(job) },
+    handler: async (input) =>
+      startBackgroundJob(backgroundOperations.get(input.operation)!, input.input),
+  }),
+  defineOperation({
+    name: 'getJob',
+    description: 'Get the status, progress, logs and result of a background job',
+    safety: 'read',
+    input: jobIdSchema,
+    http: { method: 'GET', path: '/:jobId' },
+    handler: async (input) => jobService.get(input.jobId),
+  }),
+  defineOperation({
+    name: 'listJobs',
+    description: 'List background jobs, most recent first (without logs and results)',
+    safety: 'read',
+    input: listJobsSchema,
+    http: { method: 'GET', path: '/' },
+    handler: async (input) => jobService.list(input),
+  }),
+  defineOperation({
+    name: 'cancelJob',
+    description:
+      'Cancel a running background job, killing its pbi-tools process or stopping its polling',
+    safety: 'write',
+    input: jobIdSchema,
+    http: { method: 'POST', path: '/:jobId/cancel' },
+    handler: async (input) => jobService.cancel(input.jobId),
+  }),
+];
@@ -0,0 +1,371 @@
+import { z } from 'zod';
+import { pbiToolsService } from '../services/pbiTools.js';
+import { themeService } from '../services/theme.js';
+import { modelService } from '../services/model.js';
+import { modelEditorService } from '../services/modelEditor.js';
+import { diffService } from '../services/diff.js';
+import { reportService } from '../services/report.js';
+import { analyzerService } from '../services/analyzer.js';
+import { defineOperation } from './registry.js';
+
+// --- Schemas ---
+
+const emptySchema = z.object({}).strict();
+
+const decompileSchema = z.object({
+  filePath: z.string(),
+  outDir: z.string().optional(),
+  modelOnly: z.boolean().optional(),
+});
+
+const recompileSchema = z.object({
+  projectDir: z.string(),
+  outPath: z.string().optional(),
+  format: z.enum(['PBIX', 'PBIT']).optional().describe('Defaults to PBIX'),
+});
+
+const themeSchema = z.union([z.string(), z.record(z.unknown())]);
+
+const contrastLevelSchema = z.enum(['AA', 'AAA']);
+
+const applyThemeSchema = z.object({
+  projectDir: z.string(),
+  theme: themeSchema,
+  strategy: z.enum(['replace', 'merge']).optional(),
+  checkContrast: z.boolean().optional(),
+  contrastLevel: contrastLevelSchema.optional(),
+});
+
+const validateThemeSchema = z.object({
+  theme: themeSchema,
+  checkContrast: z.boolean().optional(),
+  contrastLevel: contrastLevelSchema.optional(),
+});
+
+const extractThemeSchema = z.object({
+  reportFilePath: z.string(),
+});
+
+const projectDirSchema = z.object({
+  projectDir: z.string(),
+});
+
+const modelQuerySchema = projectDirSchema.extend({
+  table: z.string().optional(),
+});
+
+const modelTableSchema = projectDirSchema.extend({
+  table: z.string(),
+});
+
+const getMeasureSchema = projectDirSchema.extend({
+  name: z.string(),
+  table: z.string().optional(),
+});
+
+const measurePropertiesSchema = z.object({
+  formatString: z.string().optional(),
+  displayFolder: z.string().optional(),
+  description: z.string().optional(),
+  isHidden: z.boolean().optional(),
+});
+
+const addMeasureSchema = projectDirSchema
+  .extend({
+    table: z.string(),
+    name: z.string(),
+    expression: z.string(),
+  })
+  .merge(measurePropertiesSchema);
+
+const updateMeasureSchema = getMeasureSchema
+  .extend({
+    expression: z.string().optional(),
+  })
+  .merge(measurePropertiesSchema);
+
+const renameMeasureSchema = getMeasureSchema.extend({
+  newName: z.string(),
+});
+
+const diffProjectsSchema = z.object({
+  beforeDir: z.string(),
+  afterDir: z.string(),
+  ignorePositions: z.boolean().optional(),
+});
+
+const reportQuerySchema = projectDirSchema.extend({
+  page: z.string().optional(),
+  field: z.string().optional(),
+});
+
+const ruleSeveritySchema = z.enum(['off', 'error', 'warning', 'info']);
+
+const analyzeProjectSchema = projectDirSchema.extend({
+  rulesFile: z.string().optional(),
+  rules: z
+    .record(
+      z.union([
+        ruleSeveritySchema,
+        z.object({
+          severity: ruleSeveritySchema.optional(),
+          options: z.record(z.unknown()).optional(),
+        }),
+      ])
+    )
+    .optional(),
+  format: z.enum(['json', 'sarif']).optional(),
+});
+
+// --- Operations ---
+
+export const pbixOperations = [
+  defineOperation({
+    name: 'decompilePbix',
+    description: 'Decompile PBIX/PBIT to a project directory',
+    safety: 'write',
+    background: true,
+    input: decompileSchema,
+    output: z.object({ success: z.literal(true), projectDir: z.string() }),
+    http: { method: 'POST', path: '/decompile' },
+    handler: async (input, context) => {
+      const projectDir = await pbiToolsService.extract(input, context);
+      return { success: true, projectDir };
+    },
+  }),
+  defineOperation({
+    name: 'recompilePbix',
+    description: 'Recompile project to PBIX/PBIT',
+    safety: 'write',
+    background: true,
+    input: recompileSchema,
+    // The MCP tool returned `outFile` and the HTTP route `outPbixPath`; both are kept
+    output: z.object({ success: z.literal(true), outFile: z.string(), outPbixPath: z.string() }),
+    http: { method: 'POST', path: '/recompile' },
+    handler: async (input, context) => {
+      const outFile = await pbiToolsService.compile(input, context);
+      return { success: true, outFile, outPbixPath: outFile };
+    },
+  }),
+  defineOperation({
+    name: 'applyThemeToProject',
+    description:
+      'Register theme JSON as a custom theme resource of every report in an extracted project; existing custom themes are kept as earlier versions',
+    safety: 'write',
+    background: true,
+    input: applyThemeSchema,
+    http: { method: 'POST', path: '/apply-theme' },
+    handler: async (input, context) => themeService.applyTheme(input, context),
+  }),
+  defineOperation({
+    name: 'validateTheme',
+    description:
+      'Validate a theme (JSON, object or file path) against the report theme schema, optionally checking WCAG contrast; applies nothing',
+    safety: 'read',
+    input: validateThemeSchema,
+    http: { method: 'POST', path: '/validate-theme' },
+    handler: async (input) => {
+      const { theme, ...options } = input;
+      return themeService.checkTheme(theme, options);
+    },
+  }),
+  defineOperation({
+    name: 'extractThemeFromReport',
+    description:
+      'Read the active custom theme of a report (project folder, report folder or report.json)',
+    safety: 'read',
+    input: extractThemeSchema,
+    http: { method: 'POST', path: '/extract-theme' },
+    handler: async (input) => {
+      const theme = await themeService.extractTheme(input.reportFilePath);
+      return { success: true, theme };
+    },
+  }),
+  defineOperation({
+    name: 'checkPbiTools',
+    description: 'Check if pbi-tools is installed',
+    safety: 'read',
+    input: emptySchema,
+    output: z.object({
+      success: z.boolean(),
+      available: z.boolean(),
+      info: z.string().nullable(),
+      message: z.string().optional(),
+    }),
+    http: { method: 'GET', path: '/check-pbitools' },
+    handler: async () => {
+      const available = await pbiToolsService.checkAvailability();
+      if (!available) {
+        return { success: false, available, info: null, message: 'pbi-tools not available' };
+      }
+      return { success: true, available, info: await pbiToolsService.getInfo() };
+    },
+  }),
+
+  // --- Semantic model ---
+
+  defineOperation({
+    name: 'listTables',
+    description: 'List tables of the semantic model in an extracted project',
+    safety: 'read',
+    input: projectDirSchema,
+    http: { method: 'POST', path: '/model/tables' },
+    handler: async (input) => ({
+      success: true,
+      tables: await modelService.listTables(input.projectDir),
+    }),
+  }),
+  defineOperation({
+    name: 'getTable',
+    description: 'Get a model table with its columns, measures, hierarchies and partitions (M/DAX)',
+    safety: 'read',
+    input: modelTableSchema,
+    http: { method: 'POST', path: '/model/table' },
+    handler: async (input) => ({
+      success: true,
+      table: await modelService.getTable(input.projectDir, input.table),
+    }),
+  }),
+  defineOperation({
+    name: 'listMeasures',
+    description: 'List measures with DAX, format strings and folders, optionally for one table',
+    safety: 'read',
+    input: modelQuerySchema,
+    http: { method: 'POST', path: '/model/measures' },
+    handler: async (input) => ({
+      success: true,
+      measures: await modelService.listMeasures(input.projectDir, input.table),
+    }),
+  }),
+  defineOperation({
+    name: 'getMeasure',
+    description: 'Get a single measure by name',
+    safety: 'read',
+    input: getMeasureSchema,
+    http: { method: 'POST', path: '/model/measure' },
+    handler: async (input) => ({
+      success: true,
+      measure: await modelService.getMeasure(input.projectDir, input.name, input.table),
+    }),
+  }),
+  defineOperation({
+    name: 'listRelationships',
+    description: 'List model relationships, optionally those touching one table',
+    safety: 'read',
+    input: modelQuerySchema,
+    http: { method: 'POST', path: '/model/relationships' },
+    handler: async (input) => ({
+      success: true,
+      relationships: await modelService.listRelationships(input.projectDir, input.table),
+    }),
+  }),
+  defineOperation({
+    name: 'listRoles',
+    description: 'List RLS roles with members and table filter expressions',
+    safety: 'read',
+    input: projectDirSchema,
+    http: { method: 'POST', path: '/model/roles' },
+    handler: async (input) => ({
+      success: true,
+      roles: await modelService.listRoles(input.projectDir),
+    }),
+  }),
+  defineOperation({
+    name: 'listExpressions',
+    description: 'List shared M expressions and query parameters',
+    safety: 'read',
+    input: projectDirSchema,
+    http: { method: 'POST', path: '/model/expressions' },
+    handler: async (input) => ({
+      success: true,
+      expressions: await modelService.listExpressions(input.projectDir),
+    }),
+  }),
+  defineOperation({
+    name: 'addMeasure',
+    description: 'Add a DAX measure to a table of an extracted project; recompilePbix picks it up',
+    safety: 'write',
+    input: addMeasureSchema,
+    http: { method: 'POST', path: '/model/measures/add' },
+    handler: async (input) => modelEditorService.addMeasure(input),
+  }),
+  defineOperation({
+    name: 'updateMeasure',
+    description:
+      "Update a measure's DAX, format string, display folder, description or visibility (empty string clears)",
+    safety: 'write',
+    input: updateMeasureSchema,
+    http: { method: 'POST', path: '/model/measures/update' },
+    handler: async (input) => modelEditorService.updateMeasure(input),
+  }),
+  defineOperation({
+    name: 'renameMeasure',
+    description: 'Rename a measure and list the measures that still reference the old name',
+    safety: 'write',
+    input: renameMeasureSchema,
+    http: { method: 'POST', path: '/model/measures/rename' },
+    handler: async (input) => modelEditorService.renameMeasure(input),
+  }),
+  defineOperation({
+    name: 'deleteMeasure',
+    description: 'Delete a measure from an extracted project',
+    safety: 'destructive',
+    input: getMeasureSchema,
+    http: { method: 'POST', path: '/model/measures/delete' },
+    handler: async (input) => modelEditorService.deleteMeasure(input),
+  }),
+
+  // --- Diff, report layout and analysis ---
+
+  defineOperation({
+    name: 'diffProjects',
+    description:
+      'Compare two extracted projects: added/removed/changed measures (with DAX diff), columns, relationships, roles, pages, visuals and theme entries, plus a Markdown summary',
+    safety: 'read',
+    input: diffProjectsSchema,
+    http: { method: 'POST', path: '/diff' },
+    handler: async (input) => ({ success: true, ...(await diffService.diffProjects(input)) }),
+  }),
+  defineOperation({
+    name: 'listPages',
+    description:
+      'List report pages of an extracted project (legacy report.json or PBIR) with visual counts',
+    safety: 'read',
+    input: projectDirSchema,
+    http: { method: 'POST', path: '/report/pages' },
+    handler: async (input) => ({
+      success: true,
+      pages: await reportService.listPages(input.projectDir),
+    }),
+  }),
+  defineOperation({
+    name: 'listVisuals',
+    description:
+      "List visuals with type, position, title and bound table/column/measure fields; filter by page and/or a field such as [Gross Margin] or 'Sales'[Amount]",
+    safety: 'read',
+    input: reportQuerySchema,
+    http: { method: 'POST', path: '/report/visuals' },
+    handler: async (input) => {
+      const { projectDir, ...options } = input;
+      return { success: true, visuals: await reportService.listVisuals(projectDir, options) };
+    },
+  }),
+  defineOperation({
+    name: 'analyzeProject',
+    description:
+      'Run best-practice rules (relationships, measures, hidden columns, keys, pages) over an extracted project; severities are configurable via a JSON rule file. Run before recompilePbix: passed is false when any error-level finding exists',
+    safety: 'read',
+    input: analyzeProjectSchema,
+    http: {
+      method: 'POST',
+      path: '/analyze',
+      send: (reply, result, input) =>
+        input.format === 'sarif' ? reply.type('application/sarif+json').send(result) : result,
+    },
+    handler: async (input) => {
+      const { format, ...options } = input;
+      const result = await analyzerService.analyzeProject(options);
+      return format === 'sarif' ? analyzerService.toSarif(result) : { success: true, ...result };
+    },
+  }),
+];
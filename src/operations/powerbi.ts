@@ -0,0 +1,1003 @@
+import { z } from 'zod';
+import { powerbiClient } from '../services/powerbiClient.js';
+import { refreshService } from '../services/refresh.js';
+import { importService } from '../services/imports.js';
+import { exportService } from '../services/export.js';
+import { pipelineService } from '../services/pipelines.js';
+import { accessService } from '../services/access.js';
+import { datasourceService } from '../services/datasources.js';
+import { embedService } from '../services/embed.js';
+import { inventoryService } from '../services/inventory.js';
+import { lineageService, type LineageGraph } from '../services/lineage.js';
+import {
+  scheduleService,
+  refreshScheduleSchema,
+  directQueryRefreshScheduleSchema,
+} from '../services/schedule.js';
+import { defineOperation } from './registry.js';
+
+// --- Schemas ---
+
+const emptySchema = z.object({}).strict();
+
+const successSchema = z.object({ success: z.literal(true) });
+
+const valueListSchema = z.object({ value: z.array(z.record(z.unknown())) });
+
+const workspaceIdSchema = z.object({ workspaceId: z.string() });
+
+const optionalWorkspaceSchema = z.object({
+  workspaceId: z.string().optional().describe('Omit for My workspace'),
+});
+
+const createWorkspaceSchema = z.object({
+  name: z.string(),
+});
+
+const cloneReportSchema = z.object({
+  workspaceId: z.string(),
+  reportId: z.string(),
+  name: z.string(),
+  targetWorkspaceId: z.string().optional(),
+});
+
+const waitOptions = {
+  pollIntervalSeconds: z.number().positive().optional(),
+  timeoutSeconds: z.number().positive().optional(),
+};
+
+const datasetSchema = z.object({
+  workspaceId: z.string(),
+  datasetId: z.string(),
+});
+
+const refreshDatasetSchema = datasetSchema.extend({
+  notifyOption: z.string().optional(),
+  type: z
+    .enum(['Full', 'ClearValues', 'Calculate', 'DataOnly', 'Automatic', 'Defragment'])
+    .optional(),
+  commitMode: z.enum(['transactional', 'partialBatch']).optional(),
+  maxParallelism: z.number().int().positive().optional(),
+  retryCount: z.number().int().min(0).optional(),
+  objects: z.array(z.object({ table: z.string(), partition: z.string().optional() })).optional(),
+  applyRefreshPolicy: z.boolean().optional(),
+  effectiveDate: z.string().optional(),
+  timeout: z.string().optional(),
+  waitForCompletion: z.boolean().optional(),
+  ...waitOptions,
+});
+
+const refreshHistorySchema = datasetSchema.extend({
+  top: z.number().int().positive().optional(),
+});
+
+const refreshRequestSchema = datasetSchema.extend({
+  requestId: z.string(),
+});
+
+const waitForRefreshSchema = refreshRequestSchema.extend(waitOptions);
+
+const updateDatasetParamsSchema = datasetSchema.extend({
+  parameters: z.array(
+    z.object({
+      name: z.string(),
+      newValue: z.string(),
+    })
+  ),
+});
+
+const executeDaxQuerySchema = z.object({
+  workspaceId: z.string().optional(),
+  datasetId: z.string(),
+  query: z.string().min(1),
+  impersonatedUserName: z.string().optional(),
+  maxRows: z.number().int().positive().max(100000).optional(),
+  includeNulls: z.boolean().optional(),
+  format: z.enum(['json', 'csv', 'markdown']).optional(),
+});
+
+const importNameConflictSchema = z.enum([
+  'Abort',
+  'Overwrite',
+  'GenerateUniqueName',
+  'CreateOrOverwrite',
+  'Ignore',
+]);
+
+const importPbixSchema = z.object({
+  workspaceId: z.string(),
+  filePath: z.string().describe('Path of the PBIX file on the server'),
+  datasetDisplayName: z.string().optional(),
+  nameConflict: importNameConflictSchema.optional(),
+  waitForCompletion: z.boolean().optional(),
+  ...waitOptions,
+});
+
+/**
+ * Query string of the multipart upload route, which takes the file itself from the form data
+ */
+export const importUploadQuerySchema = importPbixSchema.pick({
+  workspaceId: true,
+  nameConflict: true,
+  datasetDisplayName: true,
+  waitForCompletion: true,
+});
+
+const importStatusSchema = z.object({
+  workspaceId: z.string(),
+  importId: z.string(),
+});
+
+const effectiveIdentitySchema = z.object({
+  username: z.string(),
+  roles: z.array(z.string()).optional(),
+  datasets: z.array(z.string()).optional(),
+  customData: z.string().optional(),
+});
+
+export const exportReportSchema = z.object({
+  workspaceId: z.string(),
+  reportId: z.string(),
+  format: z.enum(['PDF', 'PPTX', 'PNG']),
+  outPath: z.string().optional(),
+  pages: z
+    .array(
+      z.object({
+        pageName: z.string(),
+        visualName: z.string().optional(),
+        bookmarkName: z.string().optional(),
+      })
+    )
+    .optional(),
+  bookmarkName: z.string().optional(),
+  bookmarkState: z.string().optional(),
+  filters: z.array(z.string()).optional(),
+  identities: z.array(effectiveIdentitySchema).optional(),
+  locale: z.string().optional(),
+  includeHiddenPages: z.boolean().optional(),
+  ...waitOptions,
+});
+
+const pipelineIdSchema = z.object({
+  pipelineId: z.string(),
+});
+
+const pipelineStageSchema = z.object({
+  pipelineId: z.string(),
+  stageOrder: z.number().int().min(0),
+});
+
+const deployArtifactIdsSchema = z.array(z.string()).optional();
+
+const deployPipelineSchema = z.object({
+  pipelineId: z.string(),
+  sourceStageOrder: z.number().int().min(0),
+  artifacts: z
+    .object({
+      datasets: deployArtifactIdsSchema,
+      reports: deployArtifactIdsSchema,
+      dashboards: deployArtifactIdsSchema,
+      dataflows: deployArtifactIdsSchema,
+      datamarts: deployArtifactIdsSchema,
+    })
+    .optional(),
+  isBackwardDeployment: z.boolean().optional(),
+  newWorkspace: z.object({ name: z.string(), capacityId: z.string().optional() }).optional(),
+  updateAppInTargetWorkspace: z.boolean().optional(),
+  options: z
+    .object({
+      allowCreateArtifact: z.boolean().optional(),
+      allowOverwriteArtifact: z.boolean().optional(),
+      allowOverwriteTargetArtifactLabel: z.boolean().optional(),
+      allowPurgeData: z.boolean().optional(),
+      allowSkipTilesWithMissingPrerequisites: z.boolean().optional(),
+      allowTakeOver: z.boolean().optional(),
+    })
+    .optional(),
+  note: z.string().optional(),
+  waitForCompletion: z.boolean().optional(),
+  ...waitOptions,
+});
+
+const pipelineOperationSchema = z.object({
+  pipelineId: z.string(),
+  operationId: z.string(),
+});
+
+const waitForDeploymentSchema = pipelineOperationSchema.extend(waitOptions);
+
+const reportIdSchema = z.object({ reportId: z.string() });
+
+const workspaceRoleSchema = z.enum(['Admin', 'Member', 'Contributor', 'Viewer']);
+
+const principalTypeSchema = z.enum(['User', 'Group', 'App']);
+
+const datasetAccessRightSchema = z.enum([
+  'Read',
+  'ReadReshare',
+  'ReadExplore',
+  'ReadReshareExplore',
+]);
+
+const workspaceUserSchema = z.object({
+  workspaceId: z.string(),
+  identifier: z.string().describe('Email address of a user, object ID of a group or app'),
+  principalType: principalTypeSchema,
+  role: workspaceRoleSchema,
+});
+
+const removeWorkspaceUserSchema = workspaceUserSchema.pick({
+  workspaceId: true,
+  identifier: true,
+});
+
+const datasetUserSchema = datasetSchema.extend({
+  identifier: z.string().describe('Email address of a user, object ID of a group or app'),
+  principalType: principalTypeSchema,
+  accessRight: datasetAccessRightSchema,
+});
+
+const updateDatasetUserSchema = datasetUserSchema.extend({
+  accessRight: z.union([datasetAccessRightSchema, z.literal('None')]),
+});
+
+const grantWorkspaceAccessSchema = z.object({
+  workspaceId: z.string(),
+  principals: z
+    .array(z.object({ identifier: z.string(), principalType: principalTypeSchema }))
+    .min(1),
+  role: workspaceRoleSchema,
+  datasetAccess: datasetAccessRightSchema.optional(),
+});
+
+const bindToGatewaySchema = datasetSchema.extend({
+  gatewayId: z.string(),
+  datasourceIds: z.array(z.string()).optional(),
+});
+
+const gatewayIdSchema = z.object({
+  gatewayId: z.string(),
+});
+
+const credentialOptionsSchema = z.object({
+  credentialType: z.enum(['Anonymous', 'Basic', 'Key', 'OAuth2', 'Windows', 'SAS']),
+  credentials: z
+    .object({
+      username: z.string().optional(),
+      password: z.string().optional(),
+      key: z.string().optional(),
+      accessToken: z.string().optional(),
+      token: z.string().optional(),
+    })
+    .optional(),
+  privacyLevel: z.enum(['None', 'Public', 'Organizational', 'Private']).optional(),
+  encryptedConnection: z.boolean().optional(),
+});
+
+const datasourceCredentialsSchema = credentialOptionsSchema.extend({
+  gatewayId: z.string(),
+  datasourceId: z.string(),
+});
+
+const datasetCredentialsSchema = credentialOptionsSchema.extend({
+  workspaceId: z.string(),
+  datasetId: z.string(),
+  datasourceId: z.string().optional(),
+});
+
+const updateRefreshScheduleSchema = datasetSchema.extend({
+  schedule: refreshScheduleSchema,
+  // Allows up to 48 daily times; looked up from the workspace when omitted
+  premiumCapacity: z.boolean().optional(),
+});
+
+const updateDirectQueryRefreshScheduleSchema = datasetSchema.extend({
+  schedule: directQueryRefreshScheduleSchema,
+  premiumCapacity: z.boolean().optional(),
+});
+
+const reportEmbedTokenSchema = z.object({
+  workspaceId: z.string(),
+  reportId: z.string(),
+  accessLevel: z.enum(['View', 'Edit', 'Create']).optional(),
+  allowSaveAs: z.boolean().optional(),
+  identities: z.array(effectiveIdentitySchema).optional(),
+  lifetimeInMinutes: z.number().int().positive().optional(),
+});
+
+const embedTokenSchema = z.object({
+  reports: z
+    .array(
+      z.object({
+        workspaceId: z.string(),
+        reportId: z.string(),
+        allowEdit: z.boolean().optional(),
+      })
+    )
+    .min(1),
+  datasetIds: z.array(z.string()).optional(),
+  targetWorkspaceIds: z.array(z.string()).optional(),
+  identities: z.array(effectiveIdentitySchema).optional(),
+  lifetimeInMinutes: z.number().int().positive().optional(),
+});
+
+const embedInfoSchema = z.object({
+  accessToken: z.string(),
+  tokenId: z.string(),
+  expiration: z.string(),
+  reports: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      embedUrl: z.string(),
+      datasetId: z.string().optional(),
+    })
+  ),
+});
+
+const scanInventorySchema = z.object({
+  full: z.boolean().optional(),
+  workspaceIds: z.array(z.string()).optional(),
+  excludePersonalWorkspaces: z.boolean().optional(),
+  ...waitOptions,
+});
+
+const datasourceUsageSchema = z.object({
+  server: z.string().optional(),
+  database: z.string().optional(),
+  datasourceType: z.string().optional(),
+  text: z.string().optional(),
+});
+
+const inventorySearchSchema = z.object({
+  query: z.string().min(1),
+  types: z
+    .array(z.enum(['workspace', 'dataset', 'report', 'dashboard', 'dataflow', 'table', 'measure']))
+    .optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+const lineageWorkspacesSchema = z
+  .array(z.string())
+  .min(1)
+  .describe('Workspace IDs; comma-separated in query strings');
+
+const lineageSchema = z.object({
+  workspaceIds: lineageWorkspacesSchema,
+  includeDatasources: z.boolean().optional(),
+  format: z.enum(['json', 'mermaid', 'dot']).default('json'),
+});
+
+const lineageImpactSchema = z.object({
+  workspaceIds: lineageWorkspacesSchema,
+  includeDatasources: z.boolean().optional(),
+  itemType: z.enum(['datasource', 'dataflow', 'dataset', 'report', 'dashboard']),
+  itemId: z.string(),
+  direction: z.enum(['downstream', 'upstream']).optional(),
+});
+
+const diagramContentTypes = { mermaid: 'text/plain', dot: 'text/vnd.graphviz' };
+
+interface LineageDiagram {
+  format: keyof typeof diagramContentTypes;
+  diagram: string;
+  warnings: string[];
+}
+
+const dashboardSchema = z.object({
+  workspaceId: z.string(),
+  dashboardId: z.string(),
+});
+
+const createDashboardSchema = z.object({
+  workspaceId: z.string(),
+  name: z.string().min(1),
+});
+
+const dashboardTileSchema = dashboardSchema.extend({
+  tileId: z.string(),
+});
+
+const cloneTileSchema = dashboardTileSchema.extend({
+  targetDashboardId: z.string(),
+  targetWorkspaceId: z.string().optional(),
+  targetReportId: z.string().optional(),
+  targetModelId: z.string().optional(),
+  positionConflictAction: z.enum(['Tail', 'Abort']).optional(),
+});
+
+// --- Operations ---
+
+export const powerbiOperations = [
+  defineOperation({
+    name: 'listWorkspaces',
+    description: 'List all workspaces',
+    safety: 'read',
+    input: emptySchema,
+    output: valueListSchema,
+    http: { method: 'GET', path: '/workspaces' },
+    handler: async () => powerbiClient.listWorkspaces(),
+  }),
+  defineOperation({
+    name: 'getWorkspace',
+    description: 'Get workspace details',
+    safety: 'read',
+    input: workspaceIdSchema,
+    http: { method: 'GET', path: '/workspaces/:workspaceId' },
+    handler: async (input) => powerbiClient.getWorkspace(input.workspaceId),
+  }),
+  defineOperation({
+    name: 'createWorkspace',
+    description: 'Create a new workspace',
+    safety: 'write',
+    input: createWorkspaceSchema,
+    http: { method: 'POST', path: '/workspaces' },
+    handler: async (input) => powerbiClient.createWorkspace(input.name),
+  }),
+  defineOperation({
+    name: 'listReports',
+    description: 'List reports',
+    safety: 'read',
+    input: optionalWorkspaceSchema,
+    http: { method: 'GET', path: '/reports' },
+    handler: async (input) => powerbiClient.listReports(input.workspaceId),
+  }),
+  defineOperation({
+    name: 'cloneReport',
+    description: 'Clone a report, optionally into another workspace',
+    safety: 'write',
+    input: cloneReportSchema,
+    http: { method: 'POST', path: '/reports/clone' },
+    handler: async (input) =>
+      powerbiClient.cloneReport(
+        input.workspaceId,
+        input.reportId,
+        input.name,
+        input.targetWorkspaceId
+      ),
+  }),
+  defineOperation({
+    name: 'exportReport',
+    description:
+      'Export a report (optionally specific pages, bookmarks, filters or RLS identities) to PDF, PPTX or PNG and save it to outPath',
+    safety: 'write',
+    background: true,
+    input: exportReportSchema,
+    // Over HTTP the file is streamed back instead, see the /reports/export route
+    handler: async (input, context) => exportService.exportToFile(input, context),
+  }),
+  defineOperation({
+    name: 'listDatasets',
+    description: 'List datasets',
+    safety: 'read',
+    input: optionalWorkspaceSchema,
+    http: { method: 'GET', path: '/datasets' },
+    handler: async (input) => powerbiClient.listDatasets(input.workspaceId),
+  }),
+  defineOperation({
+    name: 'refreshDataset',
+    description:
+      'Refresh a dataset (optionally only specific tables/partitions) and return the refresh request ID; set waitForCompletion to block until it finishes',
+    safety: 'write',
+    background: true,
+    input: refreshDatasetSchema,
+    http: { method: 'POST', path: '/datasets/refresh' },
+    handler: async (input, context) => refreshService.startRefresh(input, context),
+  }),
+  defineOperation({
+    name: 'getRefreshHistory',
+    description: 'List recent refreshes of a dataset',
+    safety: 'read',
+    input: refreshHistorySchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/refreshes' },
+    handler: async (input) => refreshService.getRefreshHistory(input),
+  }),
+  defineOperation({
+    name: 'getRefreshStatus',
+    description: 'Get the status of a dataset refresh, including the failure reason',
+    safety: 'read',
+    input: refreshRequestSchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/refreshes/:requestId' },
+    handler: async (input) => refreshService.getRefreshStatus(input),
+  }),
+  defineOperation({
+    name: 'waitForRefresh',
+    description: 'Wait until a dataset refresh completes, fails or is cancelled',
+    safety: 'read',
+    background: true,
+    input: waitForRefreshSchema,
+    http: { method: 'POST', path: '/datasets/refresh/wait' },
+    handler: async (input, context) => refreshService.waitForRefresh(input, context),
+  }),
+  defineOperation({
+    name: 'cancelRefresh',
+    description: 'Cancel an in-progress enhanced dataset refresh',
+    safety: 'write',
+    input: refreshRequestSchema,
+    http: { method: 'DELETE', path: '/datasets/:datasetId/refreshes/:requestId' },
+    handler: async (input) => refreshService.cancelRefresh(input),
+  }),
+  defineOperation({
+    name: 'updateDatasetParameters',
+    description: 'Update dataset parameters',
+    safety: 'write',
+    input: updateDatasetParamsSchema,
+    http: { method: 'POST', path: '/datasets/parameters' },
+    handler: async (input) =>
+      powerbiClient.updateDatasetParameters(input.workspaceId, input.datasetId, input.parameters),
+  }),
+  defineOperation({
+    name: 'executeDaxQuery',
+    description:
+      'Run a DAX query (e.g. EVALUATE ...) against a dataset and return rows as JSON, CSV or a Markdown table',
+    safety: 'read',
+    input: executeDaxQuerySchema,
+    http: { method: 'POST', path: '/datasets/query' },
+    handler: async (input) => {
+      const { workspaceId, datasetId, ...options } = input;
+      return powerbiClient.executeDaxQuery(workspaceId, datasetId, options);
+    },
+  }),
+  defineOperation({
+    name: 'importPbix',
+    description:
+      'Import a PBIX file from the server into a workspace and wait for it to finish; returns the created report and dataset IDs',
+    safety: 'write',
+    background: true,
+    input: importPbixSchema,
+    http: { method: 'POST', path: '/import/file' },
+    handler: async (input, context) => importService.importFile(input, context),
+  }),
+  defineOperation({
+    name: 'getImportStatus',
+    description: 'Get the state of an import and the report/dataset IDs it created',
+    safety: 'read',
+    input: importStatusSchema,
+    http: { method: 'GET', path: '/imports/:importId' },
+    handler: async (input) => importService.getImportStatus(input),
+  }),
+
+  // --- Deployment pipelines ---
+
+  defineOperation({
+    name: 'listPipelines',
+    description: 'List deployment pipelines the caller can access',
+    safety: 'read',
+    input: emptySchema,
+    http: { method: 'GET', path: '/pipelines' },
+    handler: async () => powerbiClient.listPipelines(),
+  }),
+  defineOperation({
+    name: 'getPipeline',
+    description:
+      'Get a deployment pipeline with its stages (order, workspace) and the artifacts deployed to each stage',
+    safety: 'read',
+    input: pipelineIdSchema,
+    http: { method: 'GET', path: '/pipelines/:pipelineId' },
+    handler: async (input) => pipelineService.getPipelineWithArtifacts(input.pipelineId),
+  }),
+  defineOperation({
+    name: 'getPipelineStageArtifacts',
+    description: 'List datasets, reports, dashboards, dataflows and datamarts in a pipeline stage',
+    safety: 'read',
+    input: pipelineStageSchema,
+    http: { method: 'GET', path: '/pipelines/:pipelineId/stages/:stageOrder/artifacts' },
+    handler: async (input) =>
+      powerbiClient.getPipelineStageArtifacts(input.pipelineId, input.stageOrder),
+  }),
+  defineOperation({
+    name: 'deployPipeline',
+    description:
+      'Deploy all artifacts (or only the given artifact IDs) from a pipeline stage to the next one, overwriting them there; set waitForCompletion to poll until done and get per-artifact results',
+    safety: 'destructive',
+    background: true,
+    input: deployPipelineSchema,
+    http: { method: 'POST', path: '/pipelines/deploy' },
+    handler: async (input, context) => pipelineService.deploy(input, context),
+  }),
+  defineOperation({
+    name: 'listPipelineOperations',
+    description: 'List recent deployments of a pipeline',
+    safety: 'read',
+    input: pipelineIdSchema,
+    http: { method: 'GET', path: '/pipelines/:pipelineId/operations' },
+    handler: async (input) => powerbiClient.listPipelineOperations(input.pipelineId),
+  }),
+  defineOperation({
+    name: 'getPipelineOperation',
+    description: 'Get the status and per-artifact results of a pipeline deployment',
+    safety: 'read',
+    input: pipelineOperationSchema,
+    http: { method: 'GET', path: '/pipelines/:pipelineId/operations/:operationId' },
+    handler: async (input) =>
+      pipelineService.getDeploymentStatus(input.pipelineId, input.operationId),
+  }),
+  defineOperation({
+    name: 'waitForPipelineDeployment',
+    description: 'Wait until a pipeline deployment succeeds or fails',
+    safety: 'read',
+    background: true,
+    input: waitForDeploymentSchema,
+    http: { method: 'POST', path: '/pipelines/deploy/wait' },
+    handler: async (input, context) => pipelineService.waitForDeployment(input, context),
+  }),
+
+  // --- Access ---
+
+  defineOperation({
+    name: 'listWorkspaceUsers',
+    description: 'List users, groups and service principals with access to a workspace',
+    safety: 'read',
+    input: workspaceIdSchema,
+    http: { method: 'GET', path: '/workspaces/:workspaceId/users' },
+    handler: async (input) => powerbiClient.listWorkspaceUsers(input.workspaceId),
+  }),
+  defineOperation({
+    name: 'addWorkspaceUser',
+    description:
+      'Give a user (email), group or service principal (object ID) a workspace role: Admin, Member, Contributor or Viewer',
+    safety: 'write',
+    input: workspaceUserSchema,
+    output: successSchema,
+    http: { method: 'POST', path: '/workspaces/users' },
+    handler: async (input) => {
+      const { workspaceId, role, ...principal } = input;
+      await powerbiClient.addWorkspaceUser(workspaceId, {
+        ...principal,
+        groupUserAccessRight: role,
+      });
+      return { success: true };
+    },
+  }),
+  defineOperation({
+    name: 'updateWorkspaceUser',
+    description: 'Change the workspace role of an existing user, group or service principal',
+    safety: 'write',
+    input: workspaceUserSchema,
+    output: successSchema,
+    http: { method: 'PUT', path: '/workspaces/users' },
+    handler: async (input) => {
+      const { workspaceId, role, ...principal } = input;
+      await powerbiClient.updateWorkspaceUser(workspaceId, {
+        ...principal,
+        groupUserAccessRight: role,
+      });
+      return { success: true };
+    },
+  }),
+  defineOperation({
+    name: 'removeWorkspaceUser',
+    description: 'Remove a user (email) or group/service principal (object ID) from a workspace',
+    safety: 'destructive',
+    input: removeWorkspaceUserSchema,
+    output: successSchema,
+    http: { method: 'DELETE', path: '/workspaces/:workspaceId/users/:identifier' },
+    handler: async (input) => {
+      await powerbiClient.removeWorkspaceUser(input.workspaceId, input.identifier);
+      return { success: true };
+    },
+  }),
+  defineOperation({
+    name: 'grantWorkspaceAccess',
+    description:
+      'Give several principals a workspace role in one call (existing higher roles are kept), optionally also granting a permission on every dataset in the workspace; reports per-principal results',
+    safety: 'write',
+    input: grantWorkspaceAccessSchema,
+    http: { method: 'POST', path: '/workspaces/access' },
+    handler: async (input) => accessService.grantWorkspaceAccess(input),
+  }),
+  defineOperation({
+    name: 'listDatasetUsers',
+    description: 'List principals with permissions on a dataset',
+    safety: 'read',
+    input: datasetSchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/users' },
+    handler: async (input) => powerbiClient.listDatasetUsers(input.workspaceId, input.datasetId),
+  }),
+  defineOperation({
+    name: 'grantDatasetAccess',
+    description:
+      'Grant a dataset permission (Read, ReadReshare, ReadExplore = Build, ReadReshareExplore) without removing existing ones',
+    safety: 'write',
+    input: datasetUserSchema,
+    output: successSchema,
+    http: { method: 'POST', path: '/datasets/users' },
+    handler: async (input) => {
+      const { workspaceId, datasetId, accessRight, ...principal } = input;
+      await powerbiClient.grantDatasetUser(workspaceId, datasetId, {
+        ...principal,
+        datasetUserAccessRight: accessRight,
+      });
+      return { success: true };
+    },
+  }),
+  defineOperation({
+    name: 'updateDatasetAccess',
+    description: "Replace a principal's dataset permissions; None removes them",
+    safety: 'destructive',
+    input: updateDatasetUserSchema,
+    output: successSchema,
+    http: { method: 'PUT', path: '/datasets/users' },
+    handler: async (input) => {
+      const { workspaceId, datasetId, accessRight, ...principal } = input;
+      await powerbiClient.updateDatasetUser(workspaceId, datasetId, {
+        ...principal,
+        datasetUserAccessRight: accessRight,
+      });
+      return { success: true };
+    },
+  }),
+  defineOperation({
+    name: 'listReportUsers',
+    description: 'List principals with access to a report (requires Power BI admin permissions)',
+    safety: 'read',
+    input: reportIdSchema,
+    http: { method: 'GET', path: '/reports/:reportId/users' },
+    handler: async (input) => powerbiClient.listReportUsers(input.reportId),
+  }),
+
+  // --- Datasources, gateways & credentials ---
+
+  defineOperation({
+    name: 'listDatasources',
+    description: "List a dataset's datasources with connection details and gateway/datasource IDs",
+    safety: 'read',
+    input: datasetSchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/datasources' },
+    handler: async (input) => powerbiClient.listDatasources(input.workspaceId, input.datasetId),
+  }),
+  defineOperation({
+    name: 'discoverGateways',
+    description: 'List gateways the dataset can be bound to',
+    safety: 'read',
+    input: datasetSchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/gateways' },
+    handler: async (input) => powerbiClient.discoverGateways(input.workspaceId, input.datasetId),
+  }),
+  defineOperation({
+    name: 'bindToGateway',
+    description: 'Bind a dataset to a gateway, optionally to specific gateway datasources',
+    safety: 'write',
+    input: bindToGatewaySchema,
+    output: successSchema,
+    http: { method: 'POST', path: '/datasets/bind-gateway' },
+    handler: async (input) => {
+      await powerbiClient.bindToGateway(
+        input.workspaceId,
+        input.datasetId,
+        input.gatewayId,
+        input.datasourceIds
+      );
+      return { success: true };
+    },
+  }),
+  defineOperation({
+    name: 'updateDatasetCredentials',
+    description:
+      "Set the same credentials on all (or one) of a dataset's datasources, e.g. after importPbix so refreshes work. Secrets are never returned",
+    safety: 'write',
+    input: datasetCredentialsSchema,
+    http: { method: 'POST', path: '/datasets/credentials' },
+    handler: async (input) => datasourceService.updateDatasetCredentials(input),
+  }),
+  defineOperation({
+    name: 'listGateways',
+    description: 'List gateways the caller administers',
+    safety: 'read',
+    input: emptySchema,
+    http: { method: 'GET', path: '/gateways' },
+    handler: async () => powerbiClient.listGateways(),
+  }),
+  defineOperation({
+    name: 'listGatewayDatasources',
+    description: 'List the datasources configured on a gateway',
+    safety: 'read',
+    input: gatewayIdSchema,
+    http: { method: 'GET', path: '/gateways/:gatewayId/datasources' },
+    handler: async (input) => powerbiClient.listGatewayDatasources(input.gatewayId),
+  }),
+  defineOperation({
+    name: 'updateDatasourceCredentials',
+    description:
+      'Set credentials on a gateway datasource; on-premises credentials are encrypted locally with the gateway public key. Secrets are never returned',
+    safety: 'write',
+    input: datasourceCredentialsSchema,
+    http: { method: 'POST', path: '/gateways/datasources/credentials' },
+    handler: async (input) => datasourceService.updateCredentials(input),
+  }),
+
+  // --- Refresh schedules ---
+
+  defineOperation({
+    name: 'getRefreshSchedule',
+    description:
+      'Get the scheduled refresh settings (days, times, time zone, enabled, notifications) of a dataset',
+    safety: 'read',
+    input: datasetSchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/schedule' },
+    handler: async (input) => scheduleService.getRefreshSchedule(input),
+  }),
+  defineOperation({
+    name: 'updateRefreshSchedule',
+    description:
+      "Update a dataset's scheduled refresh. Times are HH:MM on half-hour boundaries (max 8 per day on shared capacity, 48 on Premium); localTimeZoneId is a Windows time zone ID. Omitted properties are left unchanged",
+    safety: 'write',
+    input: updateRefreshScheduleSchema,
+    http: { method: 'PATCH', path: '/datasets/:datasetId/schedule' },
+    handler: async (input) => scheduleService.updateRefreshSchedule(input),
+  }),
+  defineOperation({
+    name: 'getDirectQueryRefreshSchedule',
+    description: 'Get the cache refresh schedule of a DirectQuery or LiveConnection dataset',
+    safety: 'read',
+    input: datasetSchema,
+    http: { method: 'GET', path: '/datasets/:datasetId/schedule/directquery' },
+    handler: async (input) => scheduleService.getDirectQueryRefreshSchedule(input),
+  }),
+  defineOperation({
+    name: 'updateDirectQueryRefreshSchedule',
+    description:
+      'Update the cache refresh schedule of a DirectQuery or LiveConnection dataset: either a frequency in minutes (15, 30, 60, 120, 180) or days and times',
+    safety: 'write',
+    input: updateDirectQueryRefreshScheduleSchema,
+    http: { method: 'PATCH', path: '/datasets/:datasetId/schedule/directquery' },
+    handler: async (input) => scheduleService.updateDirectQueryRefreshSchedule(input),
+  }),
+
+  // --- Embedding ---
+
+  defineOperation({
+    name: 'generateReportEmbedToken',
+    description:
+      "Generate an embed token for a single report, optionally with RLS effective identities (identities without datasets apply to the report's dataset). Returns the embed URL together with the token",
+    safety: 'read',
+    input: reportEmbedTokenSchema,
+    output: embedInfoSchema,
+    http: { method: 'POST', path: '/reports/embed-token' },
+    handler: async (input) => embedService.getReportEmbedInfo(input),
+  }),
+  defineOperation({
+    name: 'generateEmbedToken',
+    description:
+      'Generate one embed token for several reports (GenerateToken V2), including their datasets and optional extra datasets/target workspaces. Returns embed URLs of all reports together with the token',
+    safety: 'read',
+    input: embedTokenSchema,
+    output: embedInfoSchema,
+    http: { method: 'POST', path: '/embed-token' },
+    handler: async (input) => embedService.getMultiResourceEmbedInfo(input),
+  }),
+
+  // --- Tenant inventory ---
+
+  defineOperation({
+    name: 'scanTenantInventory',
+    description:
+      'Scan the tenant with the admin scanner API and update the local inventory of workspaces, datasets (tables, measures, datasources), reports, dashboards and dataflows. Incremental by default: only workspaces modified since the last scan are fetched. Requires Power BI admin (or service principal admin API) permissions',
+    safety: 'write',
+    background: true,
+    input: scanInventorySchema,
+    http: { method: 'POST', path: '/admin/inventory/scan' },
+    handler: async (input, context) => inventoryService.scan(input, context),
+  }),
+  defineOperation({
+    name: 'getInventorySummary',
+    description:
+      'Summarize the local tenant inventory: totals, datasource types and items per workspace',
+    safety: 'read',
+    input: emptySchema,
+    http: { method: 'GET', path: '/admin/inventory' },
+    handler: async () => inventoryService.getSummary(),
+  }),
+  defineOperation({
+    name: 'findDatasourceUsage',
+    description:
+      'Find datasets and dataflows in the tenant inventory that use a datasource, e.g. all datasets still pointing at an old SQL server. Matches server, database and type case-insensitively; text also searches connection details and M expressions',
+    safety: 'read',
+    input: datasourceUsageSchema,
+    http: { method: 'POST', path: '/admin/inventory/datasources' },
+    handler: async (input) => inventoryService.findDatasourceUsage(input),
+  }),
+  defineOperation({
+    name: 'searchInventory',
+    description:
+      'Search the tenant inventory by name for workspaces, datasets, reports, dashboards, dataflows, tables or measures',
+    safety: 'read',
+    input: inventorySearchSchema,
+    http: { method: 'POST', path: '/admin/inventory/search' },
+    handler: async (input) => inventoryService.search(input),
+  }),
+
+  // --- Lineage ---
+
+  defineOperation({
+    name: 'getLineage',
+    description:
+      'Build the lineage graph (dataflow → dataset → report → dashboard) of one or more workspaces, including datasets shared from other workspaces. Format json returns nodes and edges; mermaid and dot return a diagram',
+    safety: 'read',
+    input: lineageSchema,
+    http: {
+      method: 'GET',
+      path: '/lineage',
+      // Diagrams are served as plain text so they can be piped straight into a renderer
+      send: (reply, result: LineageGraph | LineageDiagram) =>
+        'diagram' in result
+          ? reply.type(diagramContentTypes[result.format]).send(result.diagram)
+          : result,
+    },
+    handler: async (input) => {
+      const { format, ...options } = input;
+      const graph = await lineageService.buildGraph(options);
+      if (format === 'json') return graph;
+
+      const diagram =
+        format === 'mermaid' ? lineageService.toMermaid(graph) : lineageService.toDot(graph);
+      return { format, diagram, warnings: graph.warnings };
+    },
+  }),
+  defineOperation({
+    name: 'getLineageImpact',
+    description:
+      'Impact analysis: list everything downstream of an item (what breaks if dataset X changes), across the given workspaces, with the dependency path to each affected item. Use direction upstream to list what the item depends on',
+    safety: 'read',
+    input: lineageImpactSchema,
+    http: { method: 'GET', path: '/lineage/impact' },
+    handler: async (input) => lineageService.getImpact(input),
+  }),
+
+  // --- Dashboards ---
+
+  defineOperation({
+    name: 'listDashboards',
+    description: 'List dashboards in a workspace (or My workspace when workspaceId is omitted)',
+    safety: 'read',
+    input: optionalWorkspaceSchema,
+    http: { method: 'GET', path: '/dashboards' },
+    handler: async (input) => powerbiClient.listDashboards(input.workspaceId),
+  }),
+  defineOperation({
+    name: 'createDashboard',
+    description: 'Create an empty dashboard in a workspace',
+    safety: 'write',
+    input: createDashboardSchema,
+    http: { method: 'POST', path: '/dashboards' },
+    handler: async (input) => powerbiClient.createDashboard(input.workspaceId, input.name),
+  }),
+  defineOperation({
+    name: 'getDashboard',
+    description: 'Get a dashboard',
+    safety: 'read',
+    input: dashboardSchema,
+    http: { method: 'GET', path: '/dashboards/:dashboardId' },
+    handler: async (input) => powerbiClient.getDashboard(input.workspaceId, input.dashboardId),
+  }),
+  defineOperation({
+    name: 'listDashboardTiles',
+    description: 'List the tiles of a dashboard with the report or dataset each tile is bound to',
+    safety: 'read',
+    input: dashboardSchema,
+    http: { method: 'GET', path: '/dashboards/:dashboardId/tiles' },
+    handler: async (input) =>
+      powerbiClient.listDashboardTiles(input.workspaceId, input.dashboardId),
+  }),
+  defineOperation({
+    name: 'getDashboardTile',
+    description: 'Get a single dashboard tile',
+    safety: 'read',
+    input: dashboardTileSchema,
+    http: { method: 'GET', path: '/dashboards/:dashboardId/tiles/:tileId' },
+    handler: async (input) =>
+      powerbiClient.getDashboardTile(input.workspaceId, input.dashboardId, input.tileId),
+  }),
+  defineOperation({
+    name: 'cloneDashboardTile',
+    description:
+      'Clone a tile to another dashboard (optionally in another workspace). Set targetReportId to rebind a report tile or targetModelId to rebind a dataset tile; positionConflictAction Tail appends the tile when its position is taken',
+    safety: 'write',
+    input: cloneTileSchema,
+    http: { method: 'POST', path: '/dashboards/tiles/clone' },
+    handler: async (input) => {
+      const { workspaceId, dashboardId, tileId, ...request } = input;
+      return powerbiClient.cloneDashboardTile(workspaceId, dashboardId, tileId, request);
+    },
+  }),
+];
@@ -0,0 +1,52 @@
+import type { FastifyReply } from 'fastify';
+import type { z } from 'zod';
+
+import type { TaskContext } from '../utils/task.js';
+
+/**
+ * read: no side effects; write: creates or changes things; destructive: removes things or
+ * overwrites them in a way that can't be undone
+ */
+export type SafetyClass = 'read' | 'write' | 'destructive';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface OperationHttp<I, R> {
+  method: HttpMethod;
+  /**
+   * Relative to the route prefix; `:name` segments are taken from the input of the same name.
+   * GET and DELETE read the remaining input from the query string, other methods from the body
+   */
+  path: string;
+  /**
+   * Send the result some other way than as JSON, e.g. a diagram as text
+   */
+  send?(reply: FastifyReply, result: R, input: I): unknown;
+}
+
+/**
+ * One operation, exposed as an MCP tool and (when `http` is set) as an HTTP route
+ */
+export interface Operation<I extends z.AnyZodObject = z.AnyZodObject, R = unknown> {
+  name: string;
+  description: string;
+  safety: SafetyClass;
+  input: I;
+  output?: z.ZodTypeAny;
+  http?: OperationHttp<z.output<I>, R>;
+  /**
+   * Long-running: can be started as a background job (startJob, or `Prefer: respond-async`)
+   */
+  background?: boolean;
+  /**
+   * Long-running handlers forward the context to the services, which report progress through
+   * it and stop when its signal is aborted
+   */
+  handler(input: z.output<I>, context: TaskContext): Promise<R>;
+}
+
+export type AnyOperation = Operation<z.AnyZodObject, unknown>;
+
+export function defineOperation<I extends z.AnyZodObject, R>(operation: Operation<I, R>) {
+  return operation;
+}
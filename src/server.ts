@@ -12,17 +12,26 @@ import { logger } from './utils/logger.js';
 
 import { pbiRoutes } from './api/routes/pbi.js';
 import { pbixRoutes } from './api/routes/pbix.js';
+import { jobRoutes } from './api/routes/jobs.js';
+import { mcpRoutes } from './api/routes/mcp.js';
 
 import type { ZodError } from 'zod';
 import { AppError } from './utils/errors.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-export async function createHTTPServer(): Promise<FastifyInstance> {
+export interface HTTPServerOptions {
+  // Also serve the MCP server at /mcp (--mode=both)
+  mcp?: boolean;
+}
+
+export async function createHTTPServer(options: HTTPServerOptions = {}): Promise<FastifyInstance> {
   const fastify = Fastify({
     logger: false,
     requestIdHeader: 'x-request-id',
     requestIdLogLabel: 'reqId',
+    // Route schemas come from zod; unknown keys of strict schemas should be rejected, not dropped
+    ajv: { customOptions: { removeAdditional: false } },
   });
 
   // --- CORS ---
@@ -36,7 +45,7 @@ export async function createHTTPServer(): Promise<FastifyInstance> {
   // --- Multipart for PBIX uploads ---
   await fastify.register(multipart, {
     limits: {
-      fileSize: 500 * 1024 * 1024,
+      fileSize: env.MAX_UPLOAD_SIZE_MB * 1024 * 1024,
     },
   });
 
@@ -57,7 +66,9 @@ export async function createHTTPServer(): Promise<FastifyInstance> {
       tags: [
         { name: 'Power BI', description: 'Power BI REST API operations' },
         { name: 'PBIX Tools', description: 'PBIX/PBIR conversion and manipulation' },
+        { name: 'Jobs', description: 'Background jobs for long-running operations' },
         { name: 'Health', description: 'Health check endpoints' },
+        ...(options.mcp ? [{ name: 'MCP', description: 'Model Context Protocol over HTTP' }] : []),
       ],
       components: {
         securitySchemes: {
@@ -138,6 +149,15 @@ export async function createHTTPServer(): Promise<FastifyInstance> {
       });
     }
 
+    // Request schema validation (schemas generated from the operation registry)
+    if (error.validation) {
+      return reply.code(400).send({
+        error: 'Validation Error',
+        message: error.message,
+        details: error.validation,
+      });
+    }
+
     // App errors
     if (error instanceof AppError) {
       return reply.code(error.statusCode).send({
@@ -219,6 +239,10 @@ export async function createHTTPServer(): Promise<FastifyInstance> {
   // --- Routes ---
   await fastify.register(pbiRoutes, { prefix: '/api/pbi' });
   await fastify.register(pbixRoutes, { prefix: '/api/pbix' });
+  await fastify.register(jobRoutes, { prefix: '/api/jobs' });
+  if (options.mcp) {
+    await fastify.register(mcpRoutes, { prefix: '/mcp' });
+  }
 
   // --- 404 ---
   fastify.setNotFoundHandler((request, reply) => {
@@ -228,7 +252,7 @@ export async function createHTTPServer(): Promise<FastifyInstance> {
     });
   });
 
-  logger.info('HTTP server initialized', { port: env.PORT });
+  logger.info('HTTP server initialized', { port: env.PORT, mcp: Boolean(options.mcp) });
 
   return fastify;
 }
@@ -0,0 +1,125 @@
+import {
+  powerbiClient,
+  type DatasetAccessRight,
+  type PrincipalType,
+  type WorkspaceRole,
+} from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+
+export interface Principal {
+  identifier: string;
+  principalType: PrincipalType;
+}
+
+export interface GrantWorkspaceAccessOptions {
+  workspaceId: string;
+  principals: Principal[];
+  role: WorkspaceRole;
+  // Also grant this permission on every dataset in the workspace (e.g. ReadExplore for Build)
+  datasetAccess?: DatasetAccessRight;
+}
+
+export interface AccessChange {
+  principal: string;
+  target: string;
+  action: 'added' | 'updated' | 'unchanged' | 'granted' | 'failed';
+  role?: string;
+  error?: string;
+}
+
+// Higher index = more access; a bulk grant never downgrades an existing role
+const ROLE_RANK: WorkspaceRole[] = ['Viewer', 'Contributor', 'Member', 'Admin'];
+
+export class AccessService {
+  /**
+   * Give a set of principals a workspace role (and optionally dataset permissions) in one call.
+   * Every principal is processed; failures are reported per principal instead of aborting.
+   */
+  async grantWorkspaceAccess(options: GrantWorkspaceAccessOptions) {
+    const { workspaceId, principals, role, datasetAccess } = options;
+
+    logger.info('Granting workspace access', {
+      workspaceId,
+      role,
+      principals: principals.length,
+      datasetAccess,
+    });
+
+    const existing = new Map(
+      (await powerbiClient.listWorkspaceUsers(workspaceId)).value.map((user) => [
+        user.identifier.toLowerCase(),
+        user,
+      ])
+    );
+
+    const changes: AccessChange[] = [];
+
+    for (const principal of principals) {
+      const current = existing.get(principal.identifier.toLowerCase());
+      const user = { ...principal, groupUserAccessRight: role };
+      const target = `workspace:${workspaceId}`;
+
+      try {
+        if (!current) {
+          await powerbiClient.addWorkspaceUser(workspaceId, user);
+          changes.push({ principal: principal.identifier, target, action: 'added', role });
+        } else if (ROLE_RANK.indexOf(current.groupUserAccessRight) < ROLE_RANK.indexOf(role)) {
+          await powerbiClient.updateWorkspaceUser(workspaceId, user);
+          changes.push({ principal: principal.identifier, target, action: 'updated', role });
+        } else {
+          changes.push({
+            principal: principal.identifier,
+            target,
+            action: 'unchanged',
+            role: current.groupUserAccessRight,
+          });
+        }
+      } catch (error) {
+        changes.push({
+          principal: principal.identifier,
+          target,
+          action: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (datasetAccess) {
+      const datasets = (await powerbiClient.listDatasets(workspaceId)) as {
+        value?: Array<{ id: string; name: string }>;
+      };
+
+      for (const dataset of datasets.value || []) {
+        for (const principal of principals) {
+          const target = `dataset:${dataset.name} (${dataset.id})`;
+          try {
+            await powerbiClient.grantDatasetUser(workspaceId, dataset.id, {
+              ...principal,
+              datasetUserAccessRight: datasetAccess,
+            });
+            changes.push({
+              principal: principal.identifier,
+              target,
+              action: 'granted',
+              role: datasetAccess,
+            });
+          } catch (error) {
+            changes.push({
+              principal: principal.identifier,
+              target,
+              action: 'failed',
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+    }
+
+    const failed = changes.filter((change) => change.action === 'failed').length;
+    logger.info('Workspace access granted', { workspaceId, changes: changes.length, failed });
+
+    return { success: failed === 0, changes };
+  }
+}
+
+export const accessService = new AccessService();
@@ -0,0 +1,421 @@
+import path from 'path';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { AppError, ValidationError } from '../utils/errors.js';
+import { fileExists, readJsonFile } from '../utils/fsx.js';
+import { modelService, type ModelColumn, type SemanticModel } from './model.js';
+import { reportService, type ReportLayout } from './report.js';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export type RuleTargetKind = 'table' | 'column' | 'measure' | 'relationship' | 'page' | 'visual';
+
+export interface RuleTarget {
+  kind: RuleTargetKind;
+  name: string;
+}
+
+export interface Finding {
+  ruleId: string;
+  severity: RuleSeverity;
+  message: string;
+  target: RuleTarget;
+  file?: string;
+}
+
+export interface AnalysisResult {
+  projectDir: string;
+  passed: boolean;
+  summary: Record<RuleSeverity, number>;
+  rulesApplied: string[];
+  findings: Finding[];
+  warnings: string[];
+}
+
+export interface AnalyzeProjectOptions {
+  projectDir: string;
+  rulesFile?: string;
+  rules?: RuleConfig;
+}
+
+interface AnalysisContext {
+  model?: SemanticModel;
+  report?: ReportLayout;
+}
+
+interface AnalyzerRule<O extends z.AnyZodObject = z.AnyZodObject> {
+  id: string;
+  description: string;
+  defaultSeverity: RuleSeverity;
+  /**
+   * Options a rule file can set; options left out take the schema defaults
+   */
+  options?: O;
+  check(
+    context: AnalysisContext,
+    options: z.output<O>
+  ): Array<Omit<Finding, 'ruleId' | 'severity'>>;
+}
+
+function defineRule<O extends z.AnyZodObject>(rule: AnalyzerRule<O>) {
+  return rule;
+}
+
+const ruleSettingSchema = z.union([
+  z.enum(['off', 'error', 'warning', 'info']),
+  z
+    .object({
+      severity: z.enum(['off', 'error', 'warning', 'info']).optional(),
+      options: z.record(z.unknown()).optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * Rule file: { "rules": { "<RULE_ID>": "off" | "<severity>" | { severity, options } } }
+ */
+export const ruleFileSchema = z.object({
+  rules: z.record(ruleSettingSchema),
+});
+
+export type RuleConfig = z.infer<typeof ruleFileSchema>['rules'];
+
+const qualifiedName = (table: string, name: string) => `'${table}'[${name}]`;
+
+// Aggregations over a table turn a row-level calculated column into a model-wide value
+const AGGREGATION_PATTERN =
+  /\b(CALCULATE|SUM|SUMX|AVERAGE|AVERAGEX|COUNT|COUNTA|COUNTX|COUNTROWS|DISTINCTCOUNT|MIN|MINX|MAX|MAXX)\s*\(/i;
+
+function columnReferenced(expression: string | undefined, column: ModelColumn): boolean {
+  if (!expression) return false;
+  return expression.toLowerCase().includes(`[${column.name.toLowerCase()}]`);
+}
+
+/**
+ * Built-in rules
+ */
+export const analyzerRules: AnalyzerRule[] = [
+  {
+    id: 'RELATIONSHIP_BIDIRECTIONAL',
+    description: 'Bidirectional cross-filtering causes ambiguity and slows queries',
+    defaultSeverity: 'warning',
+    check: ({ model }) =>
+      (model?.relationships || [])
+        .filter((rel) => rel.crossFilteringBehavior === 'bothDirections')
+        .map((rel) => ({
+          message: `Relationship ${qualifiedName(rel.fromTable, rel.fromColumn)} -> ${qualifiedName(rel.toTable, rel.toColumn)} filters in both directions`,
+          target: { kind: 'relationship', name: rel.name },
+        })),
+  },
+  {
+    id: 'RELATIONSHIP_MANY_TO_MANY',
+    description: 'Many-to-many relationships are usually better modelled with a bridge table',
+    defaultSeverity: 'warning',
+    check: ({ model }) =>
+      (model?.relationships || [])
+        .filter((rel) => rel.fromCardinality === 'many' && rel.toCardinality === 'many')
+        .map((rel) => ({
+          message: `Relationship ${qualifiedName(rel.fromTable, rel.fromColumn)} -> ${qualifiedName(rel.toTable, rel.toColumn)} is many-to-many`,
+          target: { kind: 'relationship', name: rel.name },
+        })),
+  },
+  {
+    id: 'FLOATING_POINT_KEY',
+    description: 'Relationship keys should be integers or strings, not floating-point numbers',
+    defaultSeverity: 'warning',
+    check: ({ model }) => {
+      if (!model) return [];
+      const columns = new Map(
+        model.tables.flatMap((t) => t.columns).map((c) => [qualifiedName(c.table, c.name), c])
+      );
+
+      const findings: Array<Omit<Finding, 'ruleId' | 'severity'>> = [];
+      const seen = new Set<string>();
+      for (const rel of model.relationships) {
+        for (const key of [
+          qualifiedName(rel.fromTable, rel.fromColumn),
+          qualifiedName(rel.toTable, rel.toColumn),
+        ]) {
+          if (!seen.has(key) && columns.get(key)?.dataType === 'double') {
+            seen.add(key);
+            findings.push({
+              message: `Key column ${key} is a floating-point number`,
+              target: { kind: 'column', name: key },
+            });
+          }
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'MEASURE_NO_FORMAT_STRING',
+    description: 'Visible measures should have a format string',
+    defaultSeverity: 'warning',
+    check: ({ model }) =>
+      (model?.tables || [])
+        .flatMap((t) => t.measures)
+        .filter((m) => !m.isHidden && !m.formatString)
+        .map((m) => ({
+          message: `Measure ${qualifiedName(m.table, m.name)} has no format string`,
+          target: { kind: 'measure', name: qualifiedName(m.table, m.name) },
+        })),
+  },
+  {
+    id: 'MEASURE_NO_DESCRIPTION',
+    description: 'Visible measures should have a description',
+    defaultSeverity: 'info',
+    check: ({ model }) =>
+      (model?.tables || [])
+        .flatMap((t) => t.measures)
+        .filter((m) => !m.isHidden && !m.description)
+        .map((m) => ({
+          message: `Measure ${qualifiedName(m.table, m.name)} has no description`,
+          target: { kind: 'measure', name: qualifiedName(m.table, m.name) },
+        })),
+  },
+  {
+    id: 'HIDDEN_COLUMN_UNUSED',
+    description:
+      'Hidden columns not used by relationships, DAX, sorting, hierarchies or visuals only add model size',
+    defaultSeverity: 'warning',
+    check: ({ model, report }) => {
+      if (!model) return [];
+
+      const expressions = [
+        ...model.tables.flatMap((t) => [
+          ...t.measures.map((m) => m.expression),
+          ...t.columns.map((c) => c.expression),
+          ...t.partitions.filter((p) => p.sourceType === 'calculated').map((p) => p.expression),
+        ]),
+        ...model.roles.flatMap((r) => r.tablePermissions.map((p) => p.filterExpression)),
+      ];
+
+      const used = new Set<string>();
+      for (const rel of model.relationships) {
+        used.add(qualifiedName(rel.fromTable, rel.fromColumn));
+        used.add(qualifiedName(rel.toTable, rel.toColumn));
+      }
+      for (const table of model.tables) {
+        for (const column of table.columns) {
+          if (column.sortByColumn) used.add(qualifiedName(table.name, column.sortByColumn));
+        }
+        for (const hierarchy of table.hierarchies) {
+          for (const level of hierarchy.levels) used.add(qualifiedName(table.name, level.column));
+        }
+      }
+      for (const visual of (report?.pages || []).flatMap((p) => p.visuals)) {
+        for (const field of visual.fields) used.add(qualifiedName(field.table, field.name));
+      }
+
+      return model.tables
+        .flatMap((t) => t.columns)
+        .filter((c) => c.isHidden && c.type !== 'rowNumber')
+        .filter((c) => !used.has(qualifiedName(c.table, c.name)))
+        .filter((c) => !expressions.some((expression) => columnReferenced(expression, c)))
+        .map((c) => ({
+          message: `Hidden column ${qualifiedName(c.table, c.name)} is not used anywhere`,
+          target: { kind: 'column', name: qualifiedName(c.table, c.name) },
+        }));
+    },
+  },
+  {
+    id: 'CALCULATED_COLUMN_AS_MEASURE',
+    description: 'Calculated columns that aggregate are usually better written as measures',
+    defaultSeverity: 'info',
+    check: ({ model }) =>
+      (model?.tables || [])
+        .flatMap((t) => t.columns)
+        .filter((c) => c.type === 'calculated' && AGGREGATION_PATTERN.test(c.expression || ''))
+        .map((c) => ({
+          message: `Calculated column ${qualifiedName(c.table, c.name)} aggregates and could be a measure`,
+          target: { kind: 'column', name: qualifiedName(c.table, c.name) },
+        })),
+  },
+  defineRule({
+    id: 'PAGE_TOO_MANY_VISUALS',
+    description: 'Pages with many visuals render slowly',
+    defaultSeverity: 'warning',
+    options: z.object({ maxVisuals: z.number().int().positive().default(20) }).strict(),
+    check: ({ report }, { maxVisuals }) =>
+      (report?.pages || [])
+        .map((page) => ({
+          page,
+          count: page.visuals.filter((v) => v.type !== 'group').length,
+        }))
+        .filter(({ count }) => count > maxVisuals)
+        .map(({ page, count }) => ({
+          message: `Page "${page.displayName}" has ${count} visuals (maximum ${maxVisuals})`,
+          target: { kind: 'page', name: page.name },
+        })),
+  }),
+];
+
+export class AnalyzerService {
+  /**
+   * Run the best-practice rules over an extracted project
+   */
+  async analyzeProject(options: AnalyzeProjectOptions): Promise<AnalysisResult> {
+    const { projectDir } = options;
+
+    logger.info('Analyzing project', { projectDir, rulesFile: options.rulesFile });
+
+    const config = {
+      ...(options.rulesFile ? await this.loadRuleFile(options.rulesFile) : {}),
+      ...options.rules,
+    };
+    this.checkRuleIds(config);
+
+    const warnings: string[] = [];
+    const context: AnalysisContext = {};
+    const files: Partial<Record<'model' | 'report', string>> = {};
+
+    try {
+      context.model = await modelService.loadModel(projectDir);
+      files.model = context.model.path;
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      warnings.push(error.message);
+    }
+
+    try {
+      context.report = await reportService.loadReport(projectDir);
+      files.report = context.report.path;
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      warnings.push(error.message);
+    }
+
+    const findings: Finding[] = [];
+    const rulesApplied: string[] = [];
+
+    for (const rule of analyzerRules) {
+      const setting = config[rule.id];
+      const severity = typeof setting === 'string' ? setting : setting?.severity;
+      if (severity === 'off') continue;
+
+      const ruleOptions = this.readRuleOptions(
+        rule,
+        typeof setting === 'object' ? setting.options : undefined,
+        warnings
+      );
+
+      rulesApplied.push(rule.id);
+      for (const violation of rule.check(context, ruleOptions)) {
+        const scope = ['page', 'visual'].includes(violation.target.kind) ? 'report' : 'model';
+        findings.push({
+          ruleId: rule.id,
+          severity: severity ?? rule.defaultSeverity,
+          ...violation,
+          file: files[scope],
+        });
+      }
+    }
+
+    const summary: Record<RuleSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const finding of findings) summary[finding.severity]++;
+
+    logger.info('Project analysis finished', summary);
+
+    return {
+      projectDir,
+      passed: summary.error === 0,
+      summary,
+      rulesApplied,
+      findings,
+      warnings,
+    };
+  }
+
+  /**
+   * Convert an analysis result to a SARIF 2.1.0 log
+   */
+  toSarif(result: AnalysisResult) {
+    const levels: Record<RuleSeverity, string> = {
+      error: 'error',
+      warning: 'warning',
+      info: 'note',
+    };
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'powerbi-mcp-analyzer',
+              rules: analyzerRules.map((rule) => ({
+                id: rule.id,
+                shortDescription: { text: rule.description },
+                defaultConfiguration: { level: levels[rule.defaultSeverity] },
+              })),
+            },
+          },
+          results: result.findings.map((finding) => ({
+            ruleId: finding.ruleId,
+            level: levels[finding.severity],
+            message: { text: finding.message },
+            locations: [
+              {
+                ...(finding.file && {
+                  physicalLocation: {
+                    artifactLocation: {
+                      uri: path.relative(result.projectDir, finding.file).split(path.sep).join('/'),
+                    },
+                  },
+                }),
+                logicalLocations: [
+                  { fullyQualifiedName: finding.target.name, kind: finding.target.kind },
+                ],
+              },
+            ],
+          })),
+        },
+      ],
+    };
+  }
+
+  private async loadRuleFile(rulesFile: string): Promise<RuleConfig> {
+    if (!(await fileExists(rulesFile))) {
+      throw new ValidationError(`Rule file not found: ${rulesFile}`);
+    }
+
+    const parsed = ruleFileSchema.safeParse(await readJsonFile(rulesFile));
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid rule file: ${rulesFile}`, parsed.error.issues);
+    }
+    return parsed.data.rules;
+  }
+
+  /**
+   * Invalid options would quietly change what a rule checks, so they fall back to the
+   * defaults with a warning instead
+   */
+  private readRuleOptions(
+    rule: AnalyzerRule,
+    options: Record<string, unknown> = {},
+    warnings: string[]
+  ) {
+    if (!rule.options) return {};
+
+    const parsed = rule.options.safeParse(options);
+    if (parsed.success) return parsed.data;
+
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(options)'}: ${issue.message}`)
+      .join('; ');
+    warnings.push(`Invalid options for ${rule.id} (${issues}); using the defaults`);
+    return rule.options.parse({});
+  }
+
+  private checkRuleIds(config: RuleConfig) {
+    const known = new Set(analyzerRules.map((rule) => rule.id));
+    const unknown = Object.keys(config).filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown rule(s): ${unknown.join(', ')}`, { known: [...known] });
+    }
+  }
+}
+
+export const analyzerService = new AnalyzerService();
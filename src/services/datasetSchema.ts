@@ -0,0 +1,154 @@
+import { powerbiClient } from './powerbiClient.js';
+import { inventoryService } from './inventory.js';
+import { logger } from '../utils/logger.js';
+import type { TabularRow } from '../utils/tabular.js';
+
+export interface SchemaColumn {
+  name: string;
+  dataType?: string;
+  isHidden?: boolean;
+  description?: string;
+}
+
+export interface SchemaMeasure {
+  name: string;
+  expression?: string;
+  formatString?: string;
+  displayFolder?: string;
+  description?: string;
+  isHidden?: boolean;
+}
+
+export interface SchemaTable {
+  name: string;
+  description?: string;
+  isHidden?: boolean;
+  columns: SchemaColumn[];
+  measures: SchemaMeasure[];
+}
+
+export interface DatasetSchema {
+  workspaceId: string;
+  datasetId: string;
+  // query: INFO.VIEW DAX functions against the live model; inventory: last tenant scan
+  source: 'query' | 'inventory';
+  tables: SchemaTable[];
+}
+
+// INFO.VIEW functions work with Build permission, unlike the admin-only INFO functions
+const SCHEMA_QUERIES = {
+  tables: 'EVALUATE SELECTCOLUMNS(INFO.VIEW.TABLES(), [Name], [Description], [IsHidden])',
+  columns:
+    'EVALUATE SELECTCOLUMNS(INFO.VIEW.COLUMNS(), [Table], [Name], [DataType], [Description], [IsHidden])',
+  measures:
+    'EVALUATE SELECTCOLUMNS(INFO.VIEW.MEASURES(), [Table], [Name], [Expression], [FormatString], [DisplayFolder], [Description], [IsHidden])',
+};
+
+/**
+ * executeQueries names columns `[Name]` or `Table[Name]`
+ */
+function normalizeRow(row: TabularRow): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key.replace(/^.*\[(.*)\]$/, '$1'), value])
+  );
+}
+
+const text = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+const flag = (value: unknown) => (typeof value === 'boolean' ? value : undefined);
+
+export class DatasetSchemaService {
+  /**
+   * Tables with their columns and measures, read from the live model and falling back to the
+   * tenant inventory when the model can't be queried
+   */
+  async getSchema(workspaceId: string, datasetId: string): Promise<DatasetSchema> {
+    try {
+      return await this.querySchema(workspaceId, datasetId);
+    } catch (error) {
+      const fromInventory = await this.inventorySchema(workspaceId, datasetId);
+      if (!fromInventory) throw error;
+
+      logger.warn('Dataset schema query failed, using tenant inventory', {
+        workspaceId,
+        datasetId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return fromInventory;
+    }
+  }
+
+  private async querySchema(workspaceId: string, datasetId: string): Promise<DatasetSchema> {
+    const run = async (query: string) => {
+      const result = await powerbiClient.executeDaxQuery(workspaceId, datasetId, {
+        query,
+        maxRows: 100000,
+      });
+      return (result.rows || []).map(normalizeRow);
+    };
+
+    const [tableRows, columnRows, measureRows] = await Promise.all([
+      run(SCHEMA_QUERIES.tables),
+      run(SCHEMA_QUERIES.columns),
+      run(SCHEMA_QUERIES.measures),
+    ]);
+
+    const tables = new Map<string, SchemaTable>();
+    for (const row of tableRows) {
+      const name = String(row.Name);
+      tables.set(name, {
+        name,
+        description: text(row.Description),
+        isHidden: flag(row.IsHidden),
+        columns: [],
+        measures: [],
+      });
+    }
+
+    for (const row of columnRows) {
+      // Every table has an internal row-number column
+      if (!text(row.Name) || String(row.Name).startsWith('RowNumber-')) continue;
+      tables.get(String(row.Table))?.columns.push({
+        name: String(row.Name),
+        dataType: text(row.DataType),
+        isHidden: flag(row.IsHidden),
+        description: text(row.Description),
+      });
+    }
+
+    for (const row of measureRows) {
+      tables.get(String(row.Table))?.measures.push({
+        name: String(row.Name),
+        expression: text(row.Expression),
+        formatString: text(row.FormatString),
+        displayFolder: text(row.DisplayFolder),
+        description: text(row.Description),
+        isHidden: flag(row.IsHidden),
+      });
+    }
+
+    return { workspaceId, datasetId, source: 'query', tables: [...tables.values()] };
+  }
+
+  private async inventorySchema(
+    workspaceId: string,
+    datasetId: string
+  ): Promise<DatasetSchema | undefined> {
+    const inventory = await inventoryService.load();
+    const dataset = inventory.datasets.find((entry) => entry.id === datasetId);
+    if (!dataset?.tables.length) return undefined;
+
+    return {
+      workspaceId,
+      datasetId,
+      source: 'inventory',
+      tables: dataset.tables.map((table) => ({
+        name: table.name,
+        isHidden: table.isHidden,
+        columns: table.columns.map((name) => ({ name })),
+        measures: table.measures.map((measure) => ({ ...measure })),
+      })),
+    };
+  }
+}
+
+export const datasetSchemaService = new DatasetSchemaService();
@@ -0,0 +1,171 @@
+import {
+  powerbiClient,
+  type CredentialDetails,
+  type CredentialType,
+  type PrivacyLevel,
+} from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { AppError, PowerBIError, ValidationError } from '../utils/errors.js';
+import { encryptCredentials } from '../utils/credentialEncryption.js';
+
+export interface CredentialInput {
+  username?: string;
+  password?: string;
+  key?: string;
+  accessToken?: string;
+  token?: string;
+}
+
+export interface CredentialOptions {
+  credentialType: CredentialType;
+  credentials?: CredentialInput;
+  privacyLevel?: PrivacyLevel;
+  encryptedConnection?: boolean;
+}
+
+export interface UpdateCredentialsOptions extends CredentialOptions {
+  gatewayId: string;
+  datasourceId: string;
+}
+
+export interface DatasetCredentialsOptions extends CredentialOptions {
+  workspaceId: string;
+  datasetId: string;
+  datasourceId?: string;
+}
+
+export interface CredentialUpdateResult {
+  gatewayId: string;
+  datasourceId: string;
+  credentialType: CredentialType;
+  encryptionAlgorithm?: CredentialDetails['encryptionAlgorithm'];
+  success: boolean;
+  error?: string;
+}
+
+// Fields each credential type needs, in the order Power BI expects them
+const CREDENTIAL_FIELDS: Record<CredentialType, Array<keyof CredentialInput>> = {
+  Anonymous: [],
+  Basic: ['username', 'password'],
+  Windows: ['username', 'password'],
+  Key: ['key'],
+  OAuth2: ['accessToken'],
+  SAS: ['token'],
+};
+
+/**
+ * Build the credentialData JSON string Power BI expects for a credential type
+ */
+function buildCredentialData(type: CredentialType, credentials: CredentialInput = {}): string {
+  const fields = CREDENTIAL_FIELDS[type];
+  const missing = fields.filter((field) => !credentials[field]);
+  if (missing.length > 0) {
+    throw new ValidationError(`${type} credentials require: ${missing.join(', ')}`);
+  }
+
+  if (fields.length === 0) {
+    return JSON.stringify({ credentialData: '' });
+  }
+  return JSON.stringify({
+    credentialData: fields.map((name) => ({ name, value: credentials[name] })),
+  });
+}
+
+export class DatasourceService {
+  /**
+   * Set credentials of a gateway datasource. Credentials are encrypted locally with the
+   * gateway's public key for on-premises gateways and sent as-is for cloud datasources.
+   * Neither the result nor any log entry contains the secret.
+   */
+  async updateCredentials(options: UpdateCredentialsOptions): Promise<CredentialUpdateResult> {
+    const { gatewayId, datasourceId, credentialType } = options;
+
+    const credentialData = buildCredentialData(credentialType, options.credentials);
+
+    logger.info('Updating datasource credentials', { gatewayId, datasourceId, credentialType });
+
+    const gateway = await powerbiClient.getGateway(gatewayId);
+
+    // Cloud datasources are bound to a "Personal" gateway without a usable public key
+    const encrypt = gateway.type !== 'Personal' && !!gateway.publicKey;
+
+    const details: CredentialDetails = {
+      credentialType,
+      credentials: encrypt
+        ? encryptCredentials(credentialData, gateway.publicKey!)
+        : credentialData,
+      encryptedConnection: options.encryptedConnection === false ? 'NotEncrypted' : 'Encrypted',
+      encryptionAlgorithm: encrypt ? 'RSA-OAEP' : 'None',
+      privacyLevel: options.privacyLevel ?? 'None',
+    };
+
+    try {
+      await powerbiClient.updateDatasourceCredentials(gatewayId, datasourceId, details);
+    } catch (error) {
+      throw this.withoutSecrets(error);
+    }
+
+    return {
+      gatewayId,
+      datasourceId,
+      credentialType,
+      encryptionAlgorithm: details.encryptionAlgorithm,
+      success: true,
+    };
+  }
+
+  /**
+   * Set the same credentials on all (or one) of a dataset's datasources, e.g. right after an import
+   */
+  async updateDatasetCredentials(options: DatasetCredentialsOptions) {
+    const { workspaceId, datasetId, datasourceId, ...credentialOptions } = options;
+
+    const { value: datasources } = await powerbiClient.listDatasources(workspaceId, datasetId);
+    const targets = datasources.filter(
+      (ds) => ds.gatewayId && ds.datasourceId && (!datasourceId || ds.datasourceId === datasourceId)
+    );
+
+    if (targets.length === 0) {
+      throw new ValidationError(
+        datasourceId
+          ? `Datasource ${datasourceId} not found on dataset ${datasetId}`
+          : `Dataset ${datasetId} has no datasources bound to a gateway`
+      );
+    }
+
+    const results: CredentialUpdateResult[] = [];
+    for (const target of targets) {
+      try {
+        results.push(
+          await this.updateCredentials({
+            ...credentialOptions,
+            gatewayId: target.gatewayId!,
+            datasourceId: target.datasourceId!,
+          })
+        );
+      } catch (error) {
+        if (error instanceof ValidationError) throw error;
+        results.push({
+          gatewayId: target.gatewayId!,
+          datasourceId: target.datasourceId!,
+          credentialType: credentialOptions.credentialType,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { success: results.every((result) => result.success), datasources: results };
+  }
+
+  /**
+   * Drop request data (which carries the credentials) from errors before they are logged
+   */
+  private withoutSecrets(error: unknown): Error {
+    if (error instanceof AppError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new PowerBIError(`Updating datasource credentials failed: ${message}`, 502);
+  }
+}
+
+export const datasourceService = new DatasourceService();
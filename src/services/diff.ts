@@ -0,0 +1,318 @@
+import { isEqual } from 'lodash-es';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/errors.js';
+import { diffLines } from '../utils/textDiff.js';
+import { toMarkdownTable } from '../utils/tabular.js';
+import {
+  modelService,
+  type ModelColumn,
+  type ModelMeasure,
+  type ModelRelationship,
+  type ModelRole,
+  type SemanticModel,
+} from './model.js';
+import { reportService, type ReportLayout, type ReportPage, type ReportVisual } from './report.js';
+import { themeService } from './theme.js';
+
+export interface DiffProjectsOptions {
+  beforeDir: string;
+  afterDir: string;
+  ignorePositions?: boolean;
+}
+
+export interface PropertyChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangedItem<T> {
+  key: string;
+  before: T;
+  after: T;
+  changes: Record<string, PropertyChange>;
+  textDiff?: string;
+}
+
+export interface CollectionDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<ChangedItem<T>>;
+}
+
+export interface ThemeEntry {
+  key: string;
+  value: unknown;
+}
+
+export type DiffCategory =
+  'measures' | 'columns' | 'relationships' | 'roles' | 'pages' | 'visuals' | 'theme';
+
+export interface ProjectDiff {
+  beforeDir: string;
+  afterDir: string;
+  identical: boolean;
+  summary: Record<DiffCategory, { added: number; removed: number; changed: number }>;
+  measures: CollectionDiff<ModelMeasure>;
+  columns: CollectionDiff<ModelColumn>;
+  relationships: CollectionDiff<ModelRelationship>;
+  roles: CollectionDiff<ModelRole>;
+  pages: CollectionDiff<Omit<ReportPage, 'visuals'>>;
+  visuals: CollectionDiff<ReportVisual>;
+  theme: CollectionDiff<ThemeEntry>;
+  warnings: string[];
+  markdown: string;
+}
+
+interface ProjectSnapshot {
+  model?: SemanticModel;
+  report?: ReportLayout;
+  theme: Record<string, unknown>;
+}
+
+const CATEGORY_TITLES: Record<DiffCategory, string> = {
+  measures: 'Measures',
+  columns: 'Columns',
+  relationships: 'Relationships',
+  roles: 'Roles',
+  pages: 'Pages',
+  visuals: 'Visuals',
+  theme: 'Theme',
+};
+
+const POSITION_PROPERTIES = ['x', 'y', 'z', 'width', 'height'];
+
+// Theme sections compared per entry rather than as a whole
+const NESTED_THEME_KEYS = ['textClasses', 'visualStyles', 'icons'];
+
+const tableKey = (item: { table: string; name: string }) => `'${item.table}'[${item.name}]`;
+
+const relationshipKey = (rel: ModelRelationship) =>
+  `'${rel.fromTable}'[${rel.fromColumn}] -> '${rel.toTable}'[${rel.toColumn}]`;
+
+function diffCollection<T extends object>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  options: { ignore?: string[]; textProperty?: keyof T } = {}
+): CollectionDiff<T> {
+  const ignore = new Set(options.ignore);
+  const beforeByKey = new Map(before.map((item) => [keyOf(item), item]));
+  const afterByKey = new Map(after.map((item) => [keyOf(item), item]));
+
+  const result: CollectionDiff<T> = { added: [], removed: [], changed: [] };
+
+  for (const [key, item] of afterByKey) {
+    if (!beforeByKey.has(key)) result.added.push(item);
+  }
+
+  for (const [key, oldItem] of beforeByKey) {
+    const newItem = afterByKey.get(key);
+    if (!newItem) {
+      result.removed.push(oldItem);
+      continue;
+    }
+
+    const changes: Record<string, PropertyChange> = {};
+    const properties = new Set([...Object.keys(oldItem), ...Object.keys(newItem)]);
+    for (const property of properties) {
+      const oldValue = (oldItem as Record<string, unknown>)[property];
+      const newValue = (newItem as Record<string, unknown>)[property];
+      if (!ignore.has(property) && !isEqual(oldValue, newValue)) {
+        changes[property] = { before: oldValue, after: newValue };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      const changed: ChangedItem<T> = { key, before: oldItem, after: newItem, changes };
+
+      const textProperty = options.textProperty as string | undefined;
+      if (textProperty && changes[textProperty]) {
+        changed.textDiff = diffLines(
+          String(changes[textProperty].before ?? ''),
+          String(changes[textProperty].after ?? '')
+        );
+      }
+      result.changed.push(changed);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Markdown lines listing the added, removed and changed items of one category
+ */
+function markdownSection<T>(
+  category: DiffCategory,
+  result: CollectionDiff<T>,
+  label: (item: T) => string
+): string[] {
+  if (result.added.length + result.removed.length + result.changed.length === 0) return [];
+
+  const lines = ['', `## ${CATEGORY_TITLES[category]}`, ''];
+  for (const item of result.added) lines.push(`- **Added** \`${label(item)}\``);
+  for (const item of result.removed) lines.push(`- **Removed** \`${label(item)}\``);
+  for (const item of result.changed) {
+    const properties = Object.keys(item.changes).join(', ');
+    lines.push(`- **Changed** \`${label(item.after)}\`: ${properties}`);
+    if (item.textDiff) {
+      lines.push('', '```diff', item.textDiff, '```', '');
+    }
+  }
+  return lines;
+}
+
+function flattenTheme(theme: Record<string, unknown>): ThemeEntry[] {
+  const entries: ThemeEntry[] = [];
+  for (const [key, value] of Object.entries(theme)) {
+    if (NESTED_THEME_KEYS.includes(key) && value && typeof value === 'object') {
+      for (const [child, childValue] of Object.entries(value)) {
+        entries.push({ key: `${key}.${child}`, value: childValue });
+      }
+    } else {
+      entries.push({ key, value });
+    }
+  }
+  return entries;
+}
+
+export class DiffService {
+  /**
+   * Compare the model, report layout and theme of two extracted projects
+   */
+  async diffProjects(options: DiffProjectsOptions): Promise<ProjectDiff> {
+    const { beforeDir, afterDir, ignorePositions = false } = options;
+
+    logger.info('Comparing projects', { beforeDir, afterDir });
+
+    const warnings: string[] = [];
+    const before = await this.loadSnapshot(beforeDir, warnings);
+    const after = await this.loadSnapshot(afterDir, warnings);
+
+    const tables = (snapshot: ProjectSnapshot) => snapshot.model?.tables || [];
+    const pages = (snapshot: ProjectSnapshot) =>
+      (snapshot.report?.pages || []).map(({ visuals: _visuals, ...page }) => page);
+    const visuals = (snapshot: ProjectSnapshot) =>
+      (snapshot.report?.pages || []).flatMap((page) => page.visuals);
+
+    const diff = {
+      measures: diffCollection(
+        tables(before).flatMap((t) => t.measures),
+        tables(after).flatMap((t) => t.measures),
+        tableKey,
+        { textProperty: 'expression' }
+      ),
+      columns: diffCollection(
+        tables(before).flatMap((t) => t.columns),
+        tables(after).flatMap((t) => t.columns),
+        tableKey,
+        { textProperty: 'expression' }
+      ),
+      relationships: diffCollection(
+        before.model?.relationships || [],
+        after.model?.relationships || [],
+        relationshipKey,
+        // Relationship names are generated GUIDs
+        { ignore: ['name'] }
+      ),
+      roles: diffCollection(before.model?.roles || [], after.model?.roles || [], (r) => r.name),
+      pages: diffCollection(pages(before), pages(after), (p) => p.name, { ignore: ['ordinal'] }),
+      visuals: diffCollection(visuals(before), visuals(after), (v) => `${v.page}/${v.name}`, {
+        ignore: ignorePositions ? POSITION_PROPERTIES : [],
+      }),
+      theme: diffCollection(flattenTheme(before.theme), flattenTheme(after.theme), (e) => e.key),
+    };
+
+    const summary = Object.fromEntries(
+      Object.entries(diff).map(([category, result]) => [
+        category,
+        {
+          added: result.added.length,
+          removed: result.removed.length,
+          changed: result.changed.length,
+        },
+      ])
+    ) as ProjectDiff['summary'];
+
+    const identical = Object.values(summary).every(
+      (counts) => counts.added + counts.removed + counts.changed === 0
+    );
+
+    const result: ProjectDiff = {
+      beforeDir,
+      afterDir,
+      identical,
+      summary,
+      ...diff,
+      warnings,
+      markdown: '',
+    };
+    result.markdown = this.toMarkdown(result);
+
+    logger.info('Project comparison finished', { identical });
+    return result;
+  }
+
+  /**
+   * Load whatever a project contains; model-only and report-only projects are allowed
+   */
+  private async loadSnapshot(projectDir: string, warnings: string[]): Promise<ProjectSnapshot> {
+    const snapshot: ProjectSnapshot = { theme: {} };
+
+    try {
+      snapshot.model = await modelService.loadModel(projectDir);
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      warnings.push(`${projectDir}: ${error.message}`);
+    }
+
+    try {
+      snapshot.report = await reportService.loadReport(projectDir);
+      snapshot.theme = await themeService.extractTheme(snapshot.report.path);
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      warnings.push(`${projectDir}: ${error.message}`);
+    }
+
+    return snapshot;
+  }
+
+  private toMarkdown(diff: ProjectDiff): string {
+    const lines = [`# Project diff`, '', `\`${diff.beforeDir}\` → \`${diff.afterDir}\``, ''];
+
+    if (diff.identical) {
+      lines.push('No differences found.');
+    } else {
+      const rows = (Object.keys(CATEGORY_TITLES) as DiffCategory[]).map((category) => ({
+        Category: CATEGORY_TITLES[category],
+        Added: diff.summary[category].added,
+        Removed: diff.summary[category].removed,
+        Changed: diff.summary[category].changed,
+      }));
+      lines.push(toMarkdownTable(['Category', 'Added', 'Removed', 'Changed'], rows));
+    }
+
+    lines.push(
+      ...markdownSection('measures', diff.measures, tableKey),
+      ...markdownSection('columns', diff.columns, tableKey),
+      ...markdownSection('relationships', diff.relationships, relationshipKey),
+      ...markdownSection('roles', diff.roles, (role) => role.name),
+      ...markdownSection('pages', diff.pages, (page) => `${page.displayName} (${page.name})`),
+      ...markdownSection(
+        'visuals',
+        diff.visuals,
+        (visual) =>
+          `${visual.page}/${visual.name} (${visual.type}${visual.title ? `: ${visual.title}` : ''})`
+      ),
+      ...markdownSection('theme', diff.theme, (entry) => entry.key)
+    );
+
+    if (diff.warnings.length > 0) {
+      lines.push('', '## Warnings', '', ...diff.warnings.map((warning) => `- ${warning}`));
+    }
+
+    return lines.join('\n');
+  }
+}
+
+export const diffService = new DiffService();
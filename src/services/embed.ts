@@ -0,0 +1,134 @@
+import {
+  powerbiClient,
+  type EffectiveIdentity,
+  type EmbedToken,
+  type TokenAccessLevel,
+} from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+
+export interface ReportEmbedOptions {
+  workspaceId: string;
+  reportId: string;
+  accessLevel?: TokenAccessLevel;
+  allowSaveAs?: boolean;
+  identities?: EffectiveIdentity[];
+  lifetimeInMinutes?: number;
+}
+
+export interface MultiResourceEmbedOptions {
+  reports: Array<{ workspaceId: string; reportId: string; allowEdit?: boolean }>;
+  // Extra datasets, e.g. for creating reports; datasets of the listed reports are always included
+  datasetIds?: string[];
+  targetWorkspaceIds?: string[];
+  identities?: EffectiveIdentity[];
+  lifetimeInMinutes?: number;
+}
+
+export interface EmbedReport {
+  id: string;
+  name: string;
+  embedUrl: string;
+  datasetId?: string;
+}
+
+export interface EmbedInfo {
+  accessToken: string;
+  tokenId: string;
+  expiration: string;
+  reports: EmbedReport[];
+}
+
+async function getEmbedReport(workspaceId: string, reportId: string): Promise<EmbedReport> {
+  const report = (await powerbiClient.getReport(workspaceId, reportId)) as EmbedReport;
+  return {
+    id: report.id,
+    name: report.name,
+    embedUrl: report.embedUrl,
+    datasetId: report.datasetId,
+  };
+}
+
+/**
+ * Identities without datasets apply to every dataset behind the embedded reports
+ */
+function withDatasets(identities: EffectiveIdentity[] | undefined, datasetIds: string[]) {
+  return identities?.map((identity) =>
+    identity.datasets?.length ? identity : { ...identity, datasets: datasetIds }
+  );
+}
+
+function toEmbedInfo(token: EmbedToken, reports: EmbedReport[]): EmbedInfo {
+  return {
+    accessToken: token.token,
+    tokenId: token.tokenId,
+    expiration: token.expiration,
+    reports,
+  };
+}
+
+export class EmbedService {
+  /**
+   * Embed URL and token for a single report, ready to hand to powerbi-client in the browser
+   */
+  async getReportEmbedInfo(options: ReportEmbedOptions): Promise<EmbedInfo> {
+    const { workspaceId, reportId, accessLevel = 'View' } = options;
+
+    const report = await getEmbedReport(workspaceId, reportId);
+    const datasetIds = report.datasetId ? [report.datasetId] : [];
+
+    logger.info('Generating report embed token', {
+      workspaceId,
+      reportId,
+      accessLevel,
+      identities: options.identities?.length ?? 0,
+    });
+
+    const token = await powerbiClient.generateReportToken(workspaceId, reportId, {
+      accessLevel,
+      allowSaveAs: options.allowSaveAs,
+      identities: withDatasets(options.identities, datasetIds),
+      lifetimeInMinutes: options.lifetimeInMinutes,
+    });
+
+    return toEmbedInfo(token, [report]);
+  }
+
+  /**
+   * One token covering several reports (and optionally datasets/workspaces), via GenerateToken V2
+   */
+  async getMultiResourceEmbedInfo(options: MultiResourceEmbedOptions): Promise<EmbedInfo> {
+    if (options.reports.length === 0) {
+      throw new ValidationError('At least one report is required');
+    }
+
+    const reports = await Promise.all(
+      options.reports.map((entry) => getEmbedReport(entry.workspaceId, entry.reportId))
+    );
+
+    const datasetIds = [
+      ...new Set([
+        ...reports.flatMap((report) => (report.datasetId ? [report.datasetId] : [])),
+        ...(options.datasetIds || []),
+      ]),
+    ];
+
+    logger.info('Generating multi-resource embed token', {
+      reports: reports.length,
+      datasets: datasetIds.length,
+      identities: options.identities?.length ?? 0,
+    });
+
+    const token = await powerbiClient.generateToken({
+      reports: options.reports.map((entry) => ({ id: entry.reportId, allowEdit: entry.allowEdit })),
+      datasets: datasetIds.map((id) => ({ id })),
+      targetWorkspaces: options.targetWorkspaceIds?.map((id) => ({ id })),
+      identities: withDatasets(options.identities, datasetIds),
+      lifetimeInMinutes: options.lifetimeInMinutes,
+    });
+
+    return toEmbedInfo(token, reports);
+  }
+}
+
+export const embedService = new EmbedService();
@@ -0,0 +1,162 @@
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  powerbiClient,
+  type EffectiveIdentity,
+  type ExportFormat,
+  type ExportReportRequest,
+  type ReportExport,
+} from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { PowerBIError } from '../utils/errors.js';
+import { ensureDir, getTempDir } from '../utils/fsx.js';
+import { pollUntil } from '../utils/poll.js';
+import type { TaskContext } from '../utils/task.js';
+
+export interface ExportReportOptions {
+  workspaceId: string;
+  reportId: string;
+  format: ExportFormat;
+  pages?: Array<{ pageName: string; visualName?: string; bookmarkName?: string }>;
+  bookmarkName?: string;
+  bookmarkState?: string;
+  filters?: string[];
+  identities?: EffectiveIdentity[];
+  locale?: string;
+  includeHiddenPages?: boolean;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface ExportToFileOptions extends ExportReportOptions {
+  outPath?: string;
+}
+
+export interface ExportedFile {
+  exportId: string;
+  fileName: string;
+  contentType: string;
+  stream: Readable;
+}
+
+// Not allowed in file names on Windows, plus control characters U+0000-U+001F and U+007F
+const FILE_NAME_UNSAFE = new RegExp('[\\\\/:*?"<>|\\u0000-\\u001f\\u007f]', 'g');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.png': 'image/png',
+  '.zip': 'application/zip',
+};
+
+export class ExportService {
+  /**
+   * Start an export, wait for it to succeed and open the resulting file
+   */
+  async exportReport(
+    options: ExportReportOptions,
+    context: TaskContext = {}
+  ): Promise<ExportedFile> {
+    const { workspaceId, reportId } = options;
+
+    logger.info('Exporting report', { workspaceId, reportId, format: options.format });
+
+    const started = await powerbiClient.exportReport(
+      workspaceId,
+      reportId,
+      this.buildRequest(options)
+    );
+    const finished = await this.waitForExport(options, started.id, context);
+
+    // Multi-page PNG exports come back as a zip of images
+    const extension = finished.resourceFileExtension || `.${options.format.toLowerCase()}`;
+    const baseName = (finished.reportName || reportId).replace(FILE_NAME_UNSAFE, '_');
+
+    return {
+      exportId: finished.id,
+      fileName: `${baseName}${extension}`,
+      contentType: CONTENT_TYPES[extension.toLowerCase()] || 'application/octet-stream',
+      stream: await powerbiClient.getExportFile(workspaceId, reportId, finished.id),
+    };
+  }
+
+  /**
+   * Export a report and save it to disk
+   */
+  async exportToFile(options: ExportToFileOptions, context: TaskContext = {}) {
+    const exported = await this.exportReport(options, context);
+
+    const outPath = options.outPath || path.join(getTempDir('export'), exported.fileName);
+    await ensureDir(path.dirname(outPath));
+    await pipeline(exported.stream, createWriteStream(outPath));
+
+    const { size } = await fs.stat(outPath);
+    logger.info('Report export saved', { outPath, size });
+
+    return {
+      success: true,
+      exportId: exported.exportId,
+      filePath: outPath,
+      contentType: exported.contentType,
+      size,
+    };
+  }
+
+  private async waitForExport(
+    options: ExportReportOptions,
+    exportId: string,
+    context: TaskContext
+  ): Promise<ReportExport> {
+    const { workspaceId, reportId, pollIntervalSeconds = 5, timeoutSeconds = 900 } = options;
+
+    const result = await pollUntil(
+      () => powerbiClient.getExportStatus(workspaceId, reportId, exportId),
+      (status) => status.status === 'Succeeded' || status.status === 'Failed',
+      {
+        intervalMs: pollIntervalSeconds * 1000,
+        timeoutMs: timeoutSeconds * 1000,
+        description: `export ${exportId}`,
+        status: (status) => `${status.status} (${status.percentComplete ?? 0}%)`,
+        ...context,
+      }
+    );
+
+    if (result.status === 'Failed') {
+      throw new PowerBIError(`Report export ${exportId} failed`, 502, result);
+    }
+
+    return result;
+  }
+
+  private buildRequest(options: ExportReportOptions): ExportReportRequest {
+    const { format, pages, bookmarkName, bookmarkState, filters, identities } = options;
+
+    const settings =
+      options.locale !== undefined || options.includeHiddenPages !== undefined
+        ? { locale: options.locale, includeHiddenPages: options.includeHiddenPages }
+        : undefined;
+
+    const defaultBookmark =
+      bookmarkName || bookmarkState ? { name: bookmarkName, state: bookmarkState } : undefined;
+
+    return {
+      format,
+      powerBIReportConfiguration: {
+        pages: pages?.map((page) => ({
+          pageName: page.pageName,
+          visualName: page.visualName,
+          bookmark: page.bookmarkName ? { name: page.bookmarkName } : undefined,
+        })),
+        defaultBookmark,
+        reportLevelFilters: filters?.map((filter) => ({ filter })),
+        identities,
+        settings,
+      },
+    };
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,221 @@
+import axios from 'axios';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { powerbiClient, type ImportNameConflict, type PowerBIImport } from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { PowerBIError, ValidationError } from '../utils/errors.js';
+import { fileExists } from '../utils/fsx.js';
+import { pollUntil } from '../utils/poll.js';
+import { throwIfCancelled, type TaskContext } from '../utils/task.js';
+
+// Multipart imports are rejected by the service above 1 GB
+const MULTIPART_LIMIT_BYTES = 1024 * 1024 * 1024;
+// Azure Blob block size for temporary-location uploads
+const BLOCK_SIZE_BYTES = 64 * 1024 * 1024;
+
+export interface ImportFileOptions {
+  workspaceId: string;
+  filePath: string;
+  fileName?: string;
+  datasetDisplayName?: string;
+  nameConflict?: ImportNameConflict;
+  waitForCompletion?: boolean;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface WaitForImportOptions {
+  workspaceId: string;
+  importId: string;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface ImportOutcome {
+  importId: string;
+  importState: string;
+  finished: boolean;
+  succeeded: boolean;
+  reports: Array<{ id: string; name: string }>;
+  datasets: Array<{ id: string; name: string }>;
+  error?: unknown;
+}
+
+export class ImportService {
+  /**
+   * Import a PBIX from disk, streaming it instead of buffering it in memory
+   */
+  async importFile(
+    options: ImportFileOptions,
+    context: TaskContext = {}
+  ): Promise<ImportOutcome | PowerBIImport> {
+    const {
+      workspaceId,
+      filePath,
+      nameConflict = 'GenerateUniqueName',
+      waitForCompletion = true,
+      pollIntervalSeconds,
+      timeoutSeconds,
+    } = options;
+
+    if (!(await fileExists(filePath))) {
+      throw new ValidationError(`File not found: ${filePath}`);
+    }
+
+    const fileName = options.fileName || path.basename(filePath);
+    const datasetDisplayName = options.datasetDisplayName || fileName;
+    const { size } = await fs.stat(filePath);
+
+    logger.info('Importing file into workspace', { workspaceId, filePath, size });
+
+    const created =
+      size < MULTIPART_LIMIT_BYTES
+        ? await powerbiClient.importFile(
+            workspaceId,
+            createReadStream(filePath),
+            fileName,
+            nameConflict,
+            { datasetDisplayName, knownLength: size }
+          )
+        : await this.importLargeFile(
+            workspaceId,
+            filePath,
+            size,
+            datasetDisplayName,
+            nameConflict,
+            context
+          );
+
+    if (!waitForCompletion) {
+      return created;
+    }
+
+    return this.waitForImport(
+      { workspaceId, importId: created.id, pollIntervalSeconds, timeoutSeconds },
+      context
+    );
+  }
+
+  /**
+   * Poll an import until it has succeeded or failed
+   */
+  async waitForImport(
+    options: WaitForImportOptions,
+    context: TaskContext = {}
+  ): Promise<ImportOutcome> {
+    const { workspaceId, importId, pollIntervalSeconds = 5, timeoutSeconds = 1800 } = options;
+
+    const outcome = await pollUntil(
+      () => this.getImportStatus({ workspaceId, importId }),
+      (status) => status.finished,
+      {
+        intervalMs: pollIntervalSeconds * 1000,
+        timeoutMs: timeoutSeconds * 1000,
+        description: `import ${importId}`,
+        status: (status) => status.importState,
+        ...context,
+      }
+    );
+
+    logger.info('Import finished', { importId, importState: outcome.importState });
+    return outcome;
+  }
+
+  async getImportStatus(options: {
+    workspaceId: string;
+    importId: string;
+  }): Promise<ImportOutcome> {
+    const result = await powerbiClient.getImport(options.workspaceId, options.importId);
+    const importState = result.importState || 'Publishing';
+
+    return {
+      importId: result.id,
+      importState,
+      finished: importState !== 'Publishing',
+      succeeded: importState === 'Succeeded',
+      reports: (result.reports || []).map(({ id, name }) => ({ id, name })),
+      datasets: (result.datasets || []).map(({ id, name }) => ({ id, name })),
+      ...(result.error ? { error: result.error } : {}),
+    };
+  }
+
+  /**
+   * Upload to a temporary blob location in blocks, then import from that URL. Each block
+   * is reported as progress and cancellation aborts the block in flight
+   */
+  private async importLargeFile(
+    workspaceId: string,
+    filePath: string,
+    size: number,
+    datasetDisplayName: string,
+    nameConflict: ImportNameConflict,
+    { signal, onProgress }: TaskContext
+  ): Promise<PowerBIImport> {
+    const { url } = await powerbiClient.createTemporaryUploadLocation(workspaceId);
+
+    logger.info('Uploading large file to temporary location', { filePath, size });
+
+    const blockIds: string[] = [];
+    const blockCount = Math.ceil(size / BLOCK_SIZE_BYTES);
+    for (let offset = 0, index = 0; offset < size; offset += BLOCK_SIZE_BYTES, index++) {
+      throwIfCancelled(signal);
+      const end = Math.min(offset + BLOCK_SIZE_BYTES, size);
+      const blockId = Buffer.from(String(index).padStart(6, '0')).toString('base64');
+
+      await this.uploadBlob(`${url}&comp=block&blockid=${encodeURIComponent(blockId)}`, {
+        data: createReadStream(filePath, { start: offset, end: end - 1 }),
+        headers: { 'Content-Length': String(end - offset) },
+        signal,
+      });
+      blockIds.push(blockId);
+
+      logger.debug('Uploaded block', { index, uploaded: end, size });
+      onProgress?.({
+        message: `Uploaded block ${index + 1} of ${blockCount}`,
+        progress: end,
+        total: size,
+      });
+    }
+
+    throwIfCancelled(signal);
+
+    const blockList =
+      '<?xml version="1.0" encoding="utf-8"?><BlockList>' +
+      blockIds.map((id) => `<Latest>${id}</Latest>`).join('') +
+      '</BlockList>';
+
+    await this.uploadBlob(`${url}&comp=blocklist`, {
+      data: blockList,
+      headers: { 'Content-Type': 'application/xml' },
+      signal,
+    });
+
+    return powerbiClient.importFromUrl(workspaceId, url, datasetDisplayName, nameConflict);
+  }
+
+  private async uploadBlob(
+    url: string,
+    options: { data: unknown; headers: Record<string, string>; signal?: AbortSignal }
+  ): Promise<void> {
+    try {
+      await axios.put(url, options.data, {
+        headers: { 'x-ms-blob-type': 'BlockBlob', ...options.headers },
+        maxBodyLength: Infinity,
+        timeout: 0,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (axios.isCancel(error)) throwIfCancelled(options.signal);
+      if (axios.isAxiosError(error) && error.response) {
+        throw new PowerBIError(
+          `Upload to temporary location failed: ${error.message}`,
+          error.response.status
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+export const importService = new ImportService();
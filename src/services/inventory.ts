@@ -0,0 +1,545 @@
+import path from 'path';
+import {
+  powerbiClient,
+  type ScanResult,
+  type ScannedDatasourceInstance,
+  type WorkspaceInfoOptions,
+} from './powerbiClient.js';
+import { env } from '../utils/env.js';
+import { logger } from '../utils/logger.js';
+import { PowerBIError, ValidationError } from '../utils/errors.js';
+import { ensureDir, fileExists, readJsonFile, writeJsonFile } from '../utils/fsx.js';
+import { pollUntil } from '../utils/poll.js';
+import type { TaskContext } from '../utils/task.js';
+
+const INVENTORY_VERSION = 1;
+
+// getInfo accepts at most 100 workspaces per scan
+const SCAN_BATCH_SIZE = 100;
+
+// modifiedSince must lie within the last 30 days; older inventories get a full scan
+const MAX_INCREMENTAL_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SCAN_DETAILS: WorkspaceInfoOptions = {
+  lineage: true,
+  datasourceDetails: true,
+  datasetSchema: true,
+  datasetExpressions: true,
+};
+
+export interface InventoryDatasource {
+  datasourceId: string;
+  datasourceType: string;
+  connectionDetails: Record<string, string>;
+  gatewayId?: string;
+}
+
+export interface InventoryTable {
+  name: string;
+  isHidden?: boolean;
+  columns: string[];
+  measures: Array<{ name: string; expression?: string }>;
+  // Power Query (M) source expressions
+  sources: string[];
+}
+
+export interface InventoryDataset {
+  id: string;
+  name: string;
+  workspaceId: string;
+  configuredBy?: string;
+  storageMode?: string;
+  tables: InventoryTable[];
+  datasources: InventoryDatasource[];
+  upstreamDataflowIds: string[];
+}
+
+export interface InventoryReport {
+  id: string;
+  name: string;
+  workspaceId: string;
+  datasetId?: string;
+  reportType?: string;
+}
+
+export interface InventoryDashboard {
+  id: string;
+  name: string;
+  workspaceId: string;
+  tiles: Array<{ id: string; title?: string; reportId?: string; datasetId?: string }>;
+}
+
+export interface InventoryDataflow {
+  id: string;
+  name: string;
+  workspaceId: string;
+  configuredBy?: string;
+  datasources: InventoryDatasource[];
+}
+
+export interface InventoryWorkspace {
+  id: string;
+  name: string;
+  type?: string;
+  state?: string;
+  isOnDedicatedCapacity?: boolean;
+  capacityId?: string;
+  scannedAt: string;
+}
+
+export interface Inventory {
+  version: number;
+  // Start time of the last complete scan; the next incremental scan asks for changes since then
+  lastScanTime?: string;
+  workspaces: InventoryWorkspace[];
+  datasets: InventoryDataset[];
+  reports: InventoryReport[];
+  dashboards: InventoryDashboard[];
+  dataflows: InventoryDataflow[];
+}
+
+export interface ScanInventoryOptions {
+  // Rescan every workspace instead of only those modified since the last scan
+  full?: boolean;
+  // Scan just these workspaces; does not advance lastScanTime
+  workspaceIds?: string[];
+  excludePersonalWorkspaces?: boolean;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface DatasourceQuery {
+  server?: string;
+  database?: string;
+  datasourceType?: string;
+  // Matched against every connection detail and the tables' M expressions
+  text?: string;
+}
+
+export type InventoryItemType =
+  'workspace' | 'dataset' | 'report' | 'dashboard' | 'dataflow' | 'table' | 'measure';
+
+export interface InventorySearchOptions {
+  query: string;
+  types?: InventoryItemType[];
+  limit?: number;
+}
+
+export interface InventorySearchHit {
+  type: InventoryItemType;
+  name: string;
+  id?: string;
+  workspaceId: string;
+  workspaceName?: string;
+  datasetId?: string;
+  datasetName?: string;
+}
+
+function emptyInventory(): Inventory {
+  return {
+    version: INVENTORY_VERSION,
+    workspaces: [],
+    datasets: [],
+    reports: [],
+    dashboards: [],
+    dataflows: [],
+  };
+}
+
+function contains(value: string | undefined, search: string): boolean {
+  return !!value && value.toLowerCase().includes(search.toLowerCase());
+}
+
+function toDatasource(instance: ScannedDatasourceInstance): InventoryDatasource {
+  return {
+    datasourceId: instance.datasourceId,
+    datasourceType: instance.datasourceType,
+    connectionDetails: instance.connectionDetails || {},
+    gatewayId: instance.gatewayId,
+  };
+}
+
+function matchesDatasource(datasource: InventoryDatasource, query: DatasourceQuery): boolean {
+  const details = datasource.connectionDetails;
+  if (query.datasourceType && !contains(datasource.datasourceType, query.datasourceType)) {
+    return false;
+  }
+  if (query.server && !contains(details.server ?? details.url ?? details.path, query.server)) {
+    return false;
+  }
+  if (query.database && !contains(details.database, query.database)) return false;
+  if (query.text && !Object.values(details).some((value) => contains(value, query.text!))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Replace everything known about the scanned workspaces with the scan result
+ */
+function applyScanResult(inventory: Inventory, result: ScanResult, scannedAt: string) {
+  const instances = new Map(
+    [...(result.datasourceInstances || []), ...(result.misconfiguredDatasourceInstances || [])].map(
+      (instance) => [instance.datasourceId, toDatasource(instance)]
+    )
+  );
+  const resolve = (usages?: Array<{ datasourceInstanceId: string }>) =>
+    (usages || []).flatMap((usage) => instances.get(usage.datasourceInstanceId) ?? []);
+
+  for (const ws of result.workspaces) {
+    removeWorkspace(inventory, ws.id);
+    if (ws.state === 'Deleted') continue;
+
+    inventory.workspaces.push({
+      id: ws.id,
+      name: ws.name ?? ws.id,
+      type: ws.type,
+      state: ws.state,
+      isOnDedicatedCapacity: ws.isOnDedicatedCapacity,
+      capacityId: ws.capacityId,
+      scannedAt,
+    });
+
+    for (const dataset of ws.datasets || []) {
+      inventory.datasets.push({
+        id: dataset.id,
+        name: dataset.name,
+        workspaceId: ws.id,
+        configuredBy: dataset.configuredBy,
+        storageMode: dataset.targetStorageMode,
+        tables: (dataset.tables || []).map((table) => ({
+          name: table.name,
+          isHidden: table.isHidden,
+          columns: (table.columns || []).map((column) => column.name),
+          measures: (table.measures || []).map(({ name, expression }) => ({ name, expression })),
+          sources: (table.source || []).map((source) => source.expression),
+        })),
+        datasources: resolve([
+          ...(dataset.datasourceUsages || []),
+          ...(dataset.misconfiguredDatasourceUsages || []),
+        ]),
+        upstreamDataflowIds: (dataset.upstreamDataflows || []).map((df) => df.targetDataflowId),
+      });
+    }
+
+    for (const report of ws.reports || []) {
+      inventory.reports.push({
+        id: report.id,
+        name: report.name,
+        workspaceId: ws.id,
+        datasetId: report.datasetId,
+        reportType: report.reportType,
+      });
+    }
+
+    for (const dashboard of ws.dashboards || []) {
+      inventory.dashboards.push({
+        id: dashboard.id,
+        name: dashboard.displayName,
+        workspaceId: ws.id,
+        tiles: (dashboard.tiles || []).map(({ id, title, reportId, datasetId }) => ({
+          id,
+          title,
+          reportId,
+          datasetId,
+        })),
+      });
+    }
+
+    for (const dataflow of ws.dataflows || []) {
+      inventory.dataflows.push({
+        id: dataflow.objectId,
+        name: dataflow.name,
+        workspaceId: ws.id,
+        configuredBy: dataflow.configuredBy,
+        datasources: resolve(dataflow.datasourceUsages),
+      });
+    }
+  }
+}
+
+function removeWorkspace(inventory: Inventory, workspaceId: string) {
+  const keep = <T extends { workspaceId: string }>(items: T[]) =>
+    items.filter((item) => item.workspaceId !== workspaceId);
+
+  inventory.workspaces = inventory.workspaces.filter((ws) => ws.id !== workspaceId);
+  inventory.datasets = keep(inventory.datasets);
+  inventory.reports = keep(inventory.reports);
+  inventory.dashboards = keep(inventory.dashboards);
+  inventory.dataflows = keep(inventory.dataflows);
+}
+
+function incrementalSince(lastScanTime: string | undefined): string | undefined {
+  if (!lastScanTime) return undefined;
+  const age = Date.now() - new Date(lastScanTime).getTime();
+  return age < MAX_INCREMENTAL_AGE_MS ? lastScanTime : undefined;
+}
+
+export class InventoryService {
+  private inventoryPath: string;
+
+  constructor() {
+    this.inventoryPath = path.resolve(env.INVENTORY_PATH);
+  }
+
+  async load(): Promise<Inventory> {
+    if (!(await fileExists(this.inventoryPath))) return emptyInventory();
+    const inventory = await readJsonFile<Inventory>(this.inventoryPath);
+    return inventory.version === INVENTORY_VERSION ? inventory : emptyInventory();
+  }
+
+  private async save(inventory: Inventory) {
+    await ensureDir(path.dirname(this.inventoryPath));
+    await writeJsonFile(this.inventoryPath, inventory);
+  }
+
+  /**
+   * Scan workspaces with the admin scanner API and merge the results into the local inventory.
+   * Incremental by default: only workspaces modified since the last scan are fetched again.
+   */
+  async scan(options: ScanInventoryOptions = {}, context: TaskContext = {}) {
+    const inventory = await this.load();
+    const startedAt = new Date().toISOString();
+    const modifiedSince = options.full ? undefined : incrementalSince(inventory.lastScanTime);
+
+    const workspaceIds =
+      options.workspaceIds ??
+      (
+        await powerbiClient.getModifiedWorkspaces({
+          modifiedSince,
+          excludePersonalWorkspaces: options.excludePersonalWorkspaces,
+        })
+      ).map((ws) => ws.id);
+
+    logger.info('Scanning tenant inventory', {
+      workspaces: workspaceIds.length,
+      modifiedSince: modifiedSince ?? 'full',
+    });
+
+    let scans = 0;
+    for (let offset = 0; offset < workspaceIds.length; offset += SCAN_BATCH_SIZE) {
+      const batch = workspaceIds.slice(offset, offset + SCAN_BATCH_SIZE);
+      context.onProgress?.({
+        message: `Scanning workspaces ${offset + 1}-${offset + batch.length} of ${workspaceIds.length}`,
+        progress: offset,
+        total: workspaceIds.length,
+      });
+      const result = await this.runScan(batch, options, context);
+      applyScanResult(inventory, result, new Date().toISOString());
+      scans++;
+
+      // Persist per batch so an interrupted scan keeps what it already fetched
+      await this.save(inventory);
+    }
+
+    if (!options.workspaceIds) {
+      inventory.lastScanTime = startedAt;
+    }
+    await this.save(inventory);
+
+    logger.info('Tenant inventory scan finished', { scans, workspaces: workspaceIds.length });
+
+    return {
+      incremental: !options.workspaceIds && !!modifiedSince,
+      modifiedSince,
+      workspacesScanned: workspaceIds.length,
+      scans,
+      lastScanTime: inventory.lastScanTime,
+      inventoryPath: this.inventoryPath,
+      totals: this.totals(inventory),
+    };
+  }
+
+  private async runScan(
+    workspaceIds: string[],
+    options: ScanInventoryOptions,
+    context: TaskContext
+  ) {
+    const { pollIntervalSeconds = 5, timeoutSeconds = 30 * 60 } = options;
+
+    const scan = await powerbiClient.postWorkspaceInfo(workspaceIds, SCAN_DETAILS);
+
+    const status = await pollUntil(
+      () => powerbiClient.getScanStatus(scan.id),
+      (current) => current.status === 'Succeeded' || current.status === 'Failed',
+      {
+        intervalMs: pollIntervalSeconds * 1000,
+        timeoutMs: timeoutSeconds * 1000,
+        description: `workspace scan ${scan.id}`,
+        status: (current) => current.status,
+        ...context,
+      }
+    );
+
+    if (status.status === 'Failed') {
+      throw new PowerBIError(
+        `Workspace scan ${scan.id} failed: ${status.error?.message ?? 'unknown error'}`,
+        502,
+        status.error
+      );
+    }
+
+    return powerbiClient.getScanResult(scan.id);
+  }
+
+  private totals(inventory: Inventory) {
+    return {
+      workspaces: inventory.workspaces.length,
+      datasets: inventory.datasets.length,
+      reports: inventory.reports.length,
+      dashboards: inventory.dashboards.length,
+      dataflows: inventory.dataflows.length,
+    };
+  }
+
+  private async loadScanned(): Promise<Inventory> {
+    const inventory = await this.load();
+    if (!inventory.lastScanTime && inventory.workspaces.length === 0) {
+      throw new ValidationError('The inventory is empty; run a tenant inventory scan first');
+    }
+    return inventory;
+  }
+
+  async getSummary() {
+    const inventory = await this.loadScanned();
+
+    const datasourceTypes: Record<string, number> = {};
+    for (const item of [...inventory.datasets, ...inventory.dataflows]) {
+      for (const ds of item.datasources) {
+        datasourceTypes[ds.datasourceType] = (datasourceTypes[ds.datasourceType] || 0) + 1;
+      }
+    }
+
+    return {
+      lastScanTime: inventory.lastScanTime,
+      totals: this.totals(inventory),
+      datasourceTypes,
+      workspaces: inventory.workspaces.map((ws) => ({
+        id: ws.id,
+        name: ws.name,
+        type: ws.type,
+        datasets: inventory.datasets.filter((d) => d.workspaceId === ws.id).length,
+        reports: inventory.reports.filter((r) => r.workspaceId === ws.id).length,
+        scannedAt: ws.scannedAt,
+      })),
+    };
+  }
+
+  /**
+   * Datasets and dataflows whose datasources (or M source expressions) match the query,
+   * e.g. everything still pointing at a given SQL server
+   */
+  async findDatasourceUsage(query: DatasourceQuery) {
+    if (!query.server && !query.database && !query.datasourceType && !query.text) {
+      throw new ValidationError('Provide at least one of server, database, datasourceType or text');
+    }
+
+    const inventory = await this.loadScanned();
+    const workspaceNames = new Map(inventory.workspaces.map((ws) => [ws.id, ws.name]));
+    // Free-text searches also look into M expressions, which cover sources without details
+    const expressionSearch = query.text ?? (query.datasourceType ? undefined : query.server);
+
+    const matches = [];
+
+    for (const dataset of inventory.datasets) {
+      const datasources = dataset.datasources.filter((ds) => matchesDatasource(ds, query));
+      const tables = expressionSearch
+        ? dataset.tables
+            .filter((table) => table.sources.some((source) => contains(source, expressionSearch)))
+            .map((table) => table.name)
+        : [];
+
+      if (datasources.length > 0 || tables.length > 0) {
+        matches.push({
+          kind: 'dataset' as const,
+          id: dataset.id,
+          name: dataset.name,
+          workspaceId: dataset.workspaceId,
+          workspaceName: workspaceNames.get(dataset.workspaceId),
+          datasources,
+          tables,
+        });
+      }
+    }
+
+    for (const dataflow of inventory.dataflows) {
+      const datasources = dataflow.datasources.filter((ds) => matchesDatasource(ds, query));
+      if (datasources.length > 0) {
+        matches.push({
+          kind: 'dataflow' as const,
+          id: dataflow.id,
+          name: dataflow.name,
+          workspaceId: dataflow.workspaceId,
+          workspaceName: workspaceNames.get(dataflow.workspaceId),
+          datasources,
+          tables: [],
+        });
+      }
+    }
+
+    return { lastScanTime: inventory.lastScanTime, count: matches.length, matches };
+  }
+
+  /**
+   * Case-insensitive name search across all inventory items
+   */
+  async search({ query, types, limit = 100 }: InventorySearchOptions) {
+    const inventory = await this.loadScanned();
+    const wanted = (type: InventoryItemType) => !types?.length || types.includes(type);
+    const workspaceNames = new Map(inventory.workspaces.map((ws) => [ws.id, ws.name]));
+    const hits: InventorySearchHit[] = [];
+
+    const add = (hit: Omit<InventorySearchHit, 'workspaceName'>) => {
+      hits.push({ ...hit, workspaceName: workspaceNames.get(hit.workspaceId) });
+    };
+
+    if (wanted('workspace')) {
+      inventory.workspaces
+        .filter((ws) => contains(ws.name, query))
+        .forEach((ws) => add({ type: 'workspace', id: ws.id, name: ws.name, workspaceId: ws.id }));
+    }
+
+    for (const dataset of inventory.datasets) {
+      const context = {
+        workspaceId: dataset.workspaceId,
+        datasetId: dataset.id,
+        datasetName: dataset.name,
+      };
+      if (wanted('dataset') && contains(dataset.name, query)) {
+        add({ type: 'dataset', id: dataset.id, name: dataset.name, ...context });
+      }
+      for (const table of dataset.tables) {
+        if (wanted('table') && contains(table.name, query)) {
+          add({ type: 'table', name: table.name, ...context });
+        }
+        if (wanted('measure')) {
+          table.measures
+            .filter((measure) => contains(measure.name, query))
+            .forEach((measure) =>
+              add({ type: 'measure', name: `${table.name}[${measure.name}]`, ...context })
+            );
+        }
+      }
+    }
+
+    const named: Array<
+      [InventoryItemType, Array<{ id: string; name: string; workspaceId: string }>]
+    > = [
+      ['report', inventory.reports],
+      ['dashboard', inventory.dashboards],
+      ['dataflow', inventory.dataflows],
+    ];
+    for (const [type, items] of named) {
+      if (!wanted(type)) continue;
+      items
+        .filter((item) => contains(item.name, query))
+        .forEach((item) =>
+          add({ type, id: item.id, name: item.name, workspaceId: item.workspaceId })
+        );
+    }
+
+    return { total: hits.length, hits: hits.slice(0, limit) };
+  }
+}
+
+export const inventoryService = new InventoryService();
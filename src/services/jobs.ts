@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { env } from '../utils/env.js';
+import { logger } from '../utils/logger.js';
+import { AppError, CancelledError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { ensureDir, fileExists, readJsonFile, writeJsonFile } from '../utils/fsx.js';
+import type { ProgressUpdate, TaskContext } from '../utils/task.js';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobLogEntry {
+  time: string;
+  message: string;
+}
+
+export interface JobRecord {
+  id: string;
+  operation: string;
+  input: unknown;
+  status: JobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  progress?: { progress?: number; total?: number };
+  logs: JobLogEntry[];
+  result?: unknown;
+  error?: { message: string; code?: string; details?: unknown };
+}
+
+export interface ListJobsOptions {
+  status?: JobStatus;
+  operation?: string;
+  limit?: number;
+}
+
+interface ActiveJob {
+  record: JobRecord;
+  controller: AbortController;
+  saveTimer?: NodeJS.Timeout;
+}
+
+// Older entries are dropped; pbi-tools can be chatty
+const MAX_LOG_ENTRIES = 1000;
+// Progress is written to disk at most this often
+const SAVE_DELAY_MS = 1000;
+
+export class JobService {
+  private jobsDir: string;
+  private active = new Map<string, ActiveJob>();
+  // One write at a time per job file
+  private writes = new Map<string, Promise<void>>();
+  private pruning?: Promise<void>;
+
+  constructor() {
+    this.jobsDir = path.resolve(env.JOBS_DIR);
+  }
+
+  /**
+   * Start `run` in the background and return its job record right away
+   */
+  async start(
+    operation: string,
+    input: unknown,
+    run: (context: TaskContext) => Promise<unknown>
+  ): Promise<JobRecord> {
+    const record: JobRecord = {
+      id: randomUUID(),
+      operation,
+      input,
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      logs: [],
+    };
+    const job: ActiveJob = { record, controller: new AbortController() };
+
+    this.active.set(record.id, job);
+    this.schedulePrune();
+    await this.save(record);
+    logger.info('Job started', { jobId: record.id, operation });
+
+    const context: TaskContext = {
+      signal: job.controller.signal,
+      onProgress: (update) => this.onProgress(job, update),
+    };
+
+    run(context).then(
+      (result) => this.finish(job, { status: 'succeeded', result }),
+      (error) => this.finish(job, this.failure(error))
+    );
+
+    return record;
+  }
+
+  async get(jobId: string): Promise<JobRecord> {
+    const active = this.active.get(jobId);
+    if (active) return active.record;
+
+    // IDs are UUIDs; anything else can't name a job file
+    const file = this.jobFile(jobId);
+    if (!/^[0-9a-f-]{36}$/i.test(jobId) || !(await fileExists(file))) {
+      throw new NotFoundError(`Job not found: ${jobId}`);
+    }
+    return this.settleInterrupted(await readJsonFile<JobRecord>(file));
+  }
+
+  /**
+   * Jobs from disk, most recent first
+   */
+  async list(options: ListJobsOptions = {}) {
+    const { status, operation, limit = 50 } = options;
+
+    if (!(await fileExists(this.jobsDir))) return [];
+    await this.schedulePrune();
+    const files = (await fs.readdir(this.jobsDir)).filter((file) => file.endsWith('.json'));
+
+    const records: JobRecord[] = [];
+    for (const file of files) {
+      const jobId = path.basename(file, '.json');
+      try {
+        records.push(await this.get(jobId));
+      } catch (error) {
+        logger.warn('Skipping unreadable job record', { file, error });
+      }
+    }
+
+    return records
+      .filter((record) => !status || record.status === status)
+      .filter((record) => !operation || record.operation === operation)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(({ logs, result, ...summary }) => summary);
+  }
+
+  /**
+   * Abort a running job; it is marked cancelled once its operation has stopped
+   */
+  async cancel(jobId: string): Promise<JobRecord> {
+    const job = this.active.get(jobId);
+    if (!job) {
+      const record = await this.get(jobId);
+      throw new ValidationError(`Job ${jobId} is not running (${record.status})`);
+    }
+
+    logger.info('Cancelling job', { jobId, operation: job.record.operation });
+    this.log(job.record, 'Cancellation requested');
+    job.controller.abort();
+    return job.record;
+  }
+
+  private onProgress(job: ActiveJob, update: ProgressUpdate) {
+    this.log(job.record, update.message);
+    if (update.progress !== undefined) {
+      job.record.progress = { progress: update.progress, total: update.total };
+    }
+
+    job.saveTimer ??= setTimeout(() => {
+      job.saveTimer = undefined;
+      this.save(job.record);
+    }, SAVE_DELAY_MS);
+  }
+
+  private async finish(job: ActiveJob, outcome: Partial<JobRecord>) {
+    clearTimeout(job.saveTimer);
+    Object.assign(job.record, outcome, { finishedAt: new Date().toISOString() });
+    this.log(job.record, `Job ${job.record.status}`);
+
+    await this.save(job.record);
+    this.active.delete(job.record.id);
+    logger.info('Job finished', { jobId: job.record.id, status: job.record.status });
+    this.schedulePrune();
+  }
+
+  /**
+   * Prune in the background, at most one pass at a time
+   */
+  private schedulePrune(): Promise<void> {
+    this.pruning ??= this.prune()
+      .catch((error) => {
+        logger.warn('Failed to prune job records', { error });
+      })
+      .finally(() => {
+        this.pruning = undefined;
+      });
+    return this.pruning;
+  }
+
+  /**
+   * Delete records of finished jobs older than JOBS_RETENTION_DAYS and all but the newest
+   * JOBS_MAX_RECORDS. Goes by file modification time, which is when a job was last saved
+   */
+  private async prune() {
+    if (!(await fileExists(this.jobsDir))) return;
+
+    const records: Array<{ file: string; modified: number }> = [];
+    for (const file of await fs.readdir(this.jobsDir)) {
+      const jobId = path.basename(file, '.json');
+      if (!file.endsWith('.json') || this.active.has(jobId) || this.writes.has(jobId)) continue;
+
+      const { mtimeMs } = await fs.stat(path.join(this.jobsDir, file));
+      records.push({ file, modified: mtimeMs });
+    }
+
+    const cutoff = Date.now() - env.JOBS_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const expired = records
+      .sort((a, b) => b.modified - a.modified)
+      .filter((record, index) => record.modified < cutoff || index >= env.JOBS_MAX_RECORDS);
+
+    for (const { file } of expired) {
+      await fs.rm(path.join(this.jobsDir, file), { force: true });
+    }
+    if (expired.length > 0) {
+      logger.info('Pruned job records', { count: expired.length });
+    }
+  }
+
+  private failure(error: unknown): Partial<JobRecord> {
+    if (error instanceof CancelledError) {
+      return { status: 'cancelled' };
+    }
+    if (error instanceof AppError) {
+      return {
+        status: 'failed',
+        error: { message: error.message, code: error.code, details: error.details },
+      };
+    }
+    return {
+      status: 'failed',
+      error: { message: error instanceof Error ? error.message : String(error) },
+    };
+  }
+
+  /**
+   * A job still running on disk but not in memory was cut off by a restart
+   */
+  private async settleInterrupted(record: JobRecord): Promise<JobRecord> {
+    if (record.status !== 'running') return record;
+
+    record.status = 'failed';
+    record.finishedAt = new Date().toISOString();
+    record.error = { message: 'Interrupted by a server restart' };
+    await this.save(record);
+    return record;
+  }
+
+  private log(record: JobRecord, message: string) {
+    record.logs.push({ time: new Date().toISOString(), message });
+    if (record.logs.length > MAX_LOG_ENTRIES) {
+      record.logs.splice(0, record.logs.length - MAX_LOG_ENTRIES);
+    }
+  }
+
+  private jobFile(jobId: string) {
+    return path.join(this.jobsDir, `${jobId}.json`);
+  }
+
+  private save(record: JobRecord): Promise<void> {
+    const previous = this.writes.get(record.id) ?? Promise.resolve();
+    const next = previous
+      .then(async () => {
+        await ensureDir(this.jobsDir);
+        await writeJsonFile(this.jobFile(record.id), record);
+      })
+      .catch((error) => {
+        logger.warn('Failed to save job record', { jobId: record.id, error });
+      })
+      .finally(() => {
+        if (this.writes.get(record.id) === next) this.writes.delete(record.id);
+      });
+
+    this.writes.set(record.id, next);
+    return next;
+  }
+}
+
+export const jobService = new JobService();
@@ -0,0 +1,399 @@
+import { powerbiClient } from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+
+export type LineageNodeType = 'datasource' | 'dataflow' | 'dataset' | 'report' | 'dashboard';
+
+export interface LineageNode {
+  // `${type}:${id}`
+  key: string;
+  type: LineageNodeType;
+  id: string;
+  name: string;
+  workspaceId?: string;
+  // Outside the requested workspaces and only known through a reference
+  external?: boolean;
+}
+
+// Edges point downstream: dataflow → dataset → report → dashboard
+export interface LineageEdge {
+  from: string;
+  to: string;
+}
+
+export interface LineageGraph {
+  workspaces: Array<{ id: string; name: string }>;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  warnings: string[];
+}
+
+export interface BuildLineageOptions {
+  workspaceIds: string[];
+  // Also fetch each dataset's datasources (one extra call per dataset)
+  includeDatasources?: boolean;
+}
+
+export interface LineageImpactOptions extends BuildLineageOptions {
+  itemType: LineageNodeType;
+  itemId: string;
+  direction?: 'downstream' | 'upstream';
+}
+
+export interface ImpactedItem extends LineageNode {
+  depth: number;
+  // Names from the queried item to this one
+  path: string[];
+}
+
+const TYPE_LABELS: Record<LineageNodeType, string> = {
+  datasource: 'Datasource',
+  dataflow: 'Dataflow',
+  dataset: 'Dataset',
+  report: 'Report',
+  dashboard: 'Dashboard',
+};
+
+const TYPE_COLORS: Record<LineageNodeType, string> = {
+  datasource: '#e8e8e8',
+  dataflow: '#d6eaf8',
+  dataset: '#fdebd0',
+  report: '#d5f5e3',
+  dashboard: '#f5d5f0',
+};
+
+// listDatasets/listReports are untyped
+type Listing<T> = Promise<{ value?: T[] }>;
+
+interface WorkspaceReport {
+  id: string;
+  name: string;
+  datasetId?: string;
+  datasetWorkspaceId?: string;
+}
+
+function nodeKey(type: LineageNodeType, id: string): string {
+  return `${type}:${id}`;
+}
+
+function describeDatasource(datasourceType: string, details: Record<string, string> = {}) {
+  const target = [details.server ?? details.url ?? details.path, details.database]
+    .filter(Boolean)
+    .join('/');
+  return target ? `${datasourceType}: ${target}` : datasourceType;
+}
+
+export class LineageService {
+  /**
+   * Collect datasets, reports, dashboards and dataflows of the workspaces and link them.
+   * Items in other workspaces that the requested ones depend on (e.g. shared datasets)
+   * are added as external nodes.
+   */
+  async buildGraph(options: BuildLineageOptions): Promise<LineageGraph> {
+    const { workspaceIds, includeDatasources = false } = options;
+    if (workspaceIds.length === 0) {
+      throw new ValidationError('At least one workspaceId is required');
+    }
+
+    const nodes = new Map<string, LineageNode>();
+    const edges = new Map<string, LineageEdge>();
+    const workspaces: LineageGraph['workspaces'] = [];
+    const warnings: string[] = [];
+
+    const addNode = (node: Omit<LineageNode, 'key'>) => {
+      const key = nodeKey(node.type, node.id);
+      const existing = nodes.get(key);
+      if (!existing || (existing.external && !node.external)) {
+        nodes.set(key, { key, ...node });
+      }
+      return key;
+    };
+
+    // Reference an item that may not be (or not yet be) part of the graph
+    const ref = (type: LineageNodeType, id: string, workspaceId?: string) =>
+      nodes.has(nodeKey(type, id))
+        ? nodeKey(type, id)
+        : addNode({ type, id, name: id, workspaceId, external: true });
+
+    const addEdge = (from: string, to: string) => {
+      edges.set(`${from}->${to}`, { from, to });
+    };
+
+    const collect = async <T>(what: string, fetch: () => Promise<{ value?: T[] }>) => {
+      try {
+        return (await fetch()).value || [];
+      } catch (error) {
+        warnings.push(`${what}: ${error instanceof Error ? error.message : String(error)}`);
+        return [];
+      }
+    };
+
+    for (const workspaceId of workspaceIds) {
+      logger.info('Collecting lineage', { workspaceId });
+
+      const workspace = (await powerbiClient.getWorkspace(workspaceId)) as { name?: string };
+      workspaces.push({ id: workspaceId, name: workspace.name ?? workspaceId });
+
+      const datasets = await collect(
+        `Datasets of workspace ${workspaceId}`,
+        () => powerbiClient.listDatasets(workspaceId) as Listing<{ id: string; name: string }>
+      );
+      for (const dataset of datasets) {
+        const datasetKey = addNode({
+          type: 'dataset',
+          id: dataset.id,
+          name: dataset.name,
+          workspaceId,
+        });
+
+        if (includeDatasources) {
+          const datasources = await collect(`Datasources of dataset ${dataset.id}`, () =>
+            powerbiClient.listDatasources(workspaceId, dataset.id)
+          );
+          for (const ds of datasources) {
+            const id =
+              ds.datasourceId ?? describeDatasource(ds.datasourceType, ds.connectionDetails);
+            const sourceKey = addNode({
+              type: 'datasource',
+              id,
+              name: describeDatasource(ds.datasourceType, ds.connectionDetails),
+            });
+            addEdge(sourceKey, datasetKey);
+          }
+        }
+      }
+
+      const reports = await collect(
+        `Reports of workspace ${workspaceId}`,
+        () => powerbiClient.listReports(workspaceId) as Listing<WorkspaceReport>
+      );
+      for (const report of reports) {
+        const reportKey = addNode({
+          type: 'report',
+          id: report.id,
+          name: report.name,
+          workspaceId,
+        });
+        if (report.datasetId) {
+          addEdge(
+            ref('dataset', report.datasetId, report.datasetWorkspaceId ?? workspaceId),
+            reportKey
+          );
+        }
+      }
+
+      const dataflows = await collect(`Dataflows of workspace ${workspaceId}`, () =>
+        powerbiClient.listDataflows(workspaceId)
+      );
+      for (const dataflow of dataflows) {
+        const dataflowKey = addNode({
+          type: 'dataflow',
+          id: dataflow.objectId,
+          name: dataflow.name,
+          workspaceId,
+        });
+        const upstream = await collect(`Upstream dataflows of ${dataflow.objectId}`, () =>
+          powerbiClient.getDataflowUpstreamDataflows(workspaceId, dataflow.objectId)
+        );
+        for (const source of upstream) {
+          addEdge(ref('dataflow', source.targetDataflowId, source.groupId), dataflowKey);
+        }
+      }
+
+      const dataflowLinks = await collect(`Dataset dataflows of workspace ${workspaceId}`, () =>
+        powerbiClient.getDatasetUpstreamDataflows(workspaceId)
+      );
+      for (const link of dataflowLinks) {
+        addEdge(
+          ref('dataflow', link.dataflowObjectId, link.workspaceObjectId),
+          ref('dataset', link.datasetObjectId, workspaceId)
+        );
+      }
+
+      const dashboards = await collect(`Dashboards of workspace ${workspaceId}`, () =>
+        powerbiClient.listDashboards(workspaceId)
+      );
+      for (const dashboard of dashboards) {
+        const dashboardKey = addNode({
+          type: 'dashboard',
+          id: dashboard.id,
+          name: dashboard.displayName,
+          workspaceId,
+        });
+        const tiles = await collect(`Tiles of dashboard ${dashboard.id}`, () =>
+          powerbiClient.listDashboardTiles(workspaceId, dashboard.id)
+        );
+        for (const tile of tiles) {
+          if (tile.reportId) addEdge(ref('report', tile.reportId), dashboardKey);
+          else if (tile.datasetId) addEdge(ref('dataset', tile.datasetId), dashboardKey);
+        }
+      }
+    }
+
+    await this.resolveExternalDatasets(nodes, warnings);
+
+    return { workspaces, nodes: [...nodes.values()], edges: [...edges.values()], warnings };
+  }
+
+  /**
+   * Look up names of shared datasets in other workspaces; missing access only costs the name
+   */
+  private async resolveExternalDatasets(nodes: Map<string, LineageNode>, warnings: string[]) {
+    for (const node of nodes.values()) {
+      if (!node.external || node.type !== 'dataset' || !node.workspaceId) continue;
+      try {
+        const dataset = (await powerbiClient.getDataset(node.workspaceId, node.id)) as {
+          name?: string;
+        };
+        node.name = dataset.name ?? node.name;
+      } catch {
+        warnings.push(`Dataset ${node.id} in workspace ${node.workspaceId} is not accessible`);
+      }
+    }
+  }
+
+  /**
+   * Everything downstream (or upstream) of an item: what breaks if it changes, or what it needs
+   */
+  async getImpact(options: LineageImpactOptions) {
+    const { itemType, itemId, direction = 'downstream' } = options;
+    const graph = await this.buildGraph(options);
+
+    const start = graph.nodes.find((node) => node.key === nodeKey(itemType, itemId));
+    if (!start) {
+      throw new ValidationError(
+        `${TYPE_LABELS[itemType]} ${itemId} was not found in workspaces ${options.workspaceIds.join(', ')}`
+      );
+    }
+
+    const byKey = new Map(graph.nodes.map((node) => [node.key, node]));
+    const next = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+      const [from, to] = direction === 'downstream' ? [edge.from, edge.to] : [edge.to, edge.from];
+      next.set(from, [...(next.get(from) || []), to]);
+    }
+
+    const affected: ImpactedItem[] = [];
+    const paths = new Map<string, string[]>([[start.key, [start.name]]]);
+    const queue = [start.key];
+
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      for (const nextKey of next.get(key) || []) {
+        if (paths.has(nextKey)) continue;
+        const node = byKey.get(nextKey)!;
+        const path = [...paths.get(key)!, node.name];
+        paths.set(nextKey, path);
+        affected.push({ ...node, depth: path.length - 1, path });
+        queue.push(nextKey);
+      }
+    }
+
+    const summary: Partial<Record<LineageNodeType, number>> = {};
+    for (const item of affected) {
+      summary[item.type] = (summary[item.type] || 0) + 1;
+    }
+
+    return {
+      item: start,
+      direction,
+      summary,
+      crossWorkspace: affected.filter((item) => item.workspaceId !== start.workspaceId).length,
+      affected,
+      warnings: graph.warnings,
+    };
+  }
+
+  /**
+   * Mermaid flowchart with one subgraph per workspace
+   */
+  toMermaid(graph: LineageGraph): string {
+    const ids = new Map(graph.nodes.map((node, index) => [node.key, `n${index}`]));
+    const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+    const nodeLine = (node: LineageNode) =>
+      `${ids.get(node.key)}[${label(`${TYPE_LABELS[node.type]}: ${node.name}`)}]`;
+
+    const lines = ['flowchart LR'];
+
+    this.groupByWorkspace(graph).forEach(({ name, nodes }, index) => {
+      if (name === undefined) {
+        nodes.forEach((node) => lines.push(`  ${nodeLine(node)}`));
+        return;
+      }
+      lines.push(`  subgraph ws${index}[${label(name)}]`);
+      nodes.forEach((node) => lines.push(`    ${nodeLine(node)}`));
+      lines.push('  end');
+    });
+
+    for (const edge of graph.edges) {
+      lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+    }
+
+    for (const type of Object.keys(TYPE_COLORS) as LineageNodeType[]) {
+      const members = graph.nodes.filter((node) => node.type === type);
+      if (members.length === 0) continue;
+      lines.push(`  classDef ${type} fill:${TYPE_COLORS[type]},stroke:#555`);
+      lines.push(`  class ${members.map((node) => ids.get(node.key)).join(',')} ${type}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Graphviz DOT digraph with one cluster per workspace
+   */
+  toDot(graph: LineageGraph): string {
+    const quote = (text: string) =>
+      `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+    const nodeLine = (node: LineageNode) => {
+      const attributes = [
+        `label=${quote(`${TYPE_LABELS[node.type]}\n${node.name}`)}`,
+        `fillcolor=${quote(TYPE_COLORS[node.type])}`,
+        // External items are drawn dashed
+        ...(node.external ? ['style="rounded,filled,dashed"'] : []),
+      ];
+      return `${quote(node.key)} [${attributes.join(', ')}];`;
+    };
+
+    const lines = [
+      'digraph lineage {',
+      '  rankdir=LR;',
+      '  node [shape=box, style="rounded,filled", fontname="Segoe UI"];',
+    ];
+
+    this.groupByWorkspace(graph).forEach(({ name, nodes }, index) => {
+      if (name === undefined) {
+        nodes.forEach((node) => lines.push(`  ${nodeLine(node)}`));
+        return;
+      }
+      lines.push(`  subgraph cluster_${index} {`, `    label=${quote(name)};`);
+      nodes.forEach((node) => lines.push(`    ${nodeLine(node)}`));
+      lines.push('  }');
+    });
+
+    for (const edge of graph.edges) {
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  private groupByWorkspace(graph: LineageGraph) {
+    const names = new Map(graph.workspaces.map((ws) => [ws.id, ws.name]));
+    const groups = new Map<string | undefined, LineageNode[]>();
+    for (const node of graph.nodes) {
+      groups.set(node.workspaceId, [...(groups.get(node.workspaceId) || []), node]);
+    }
+
+    return [...groups.entries()].map(([workspaceId, nodes]) => ({
+      name:
+        workspaceId === undefined
+          ? undefined
+          : (names.get(workspaceId) ?? `Workspace ${workspaceId}`),
+      nodes,
+    }));
+  }
+}
+
+export const lineageService = new LineageService();
@@ -0,0 +1,197 @@
+/**
+ * pbi-tools measure metadata files.
+ *
+ * pbi-tools stores each measure as tables/<Table>/measures/<Name>.dax (the expression) next to
+ * <Name>.xml holding every other TOM property:
+ *
+ *   <Measure Name="Total Sales">
+ *     <FormatString>#,0</FormatString>
+ *     <DisplayFolder>Sales</DisplayFolder>
+ *     <Annotation Name="PBI_FormatHint">{"isGeneralNumber":true}</Annotation>
+ *   </Measure>
+ *
+ * Elements are TOM properties in PascalCase; object and array properties hold JSON. Annotation
+ * values that are XML themselves are embedded as markup and kept verbatim.
+ */
+
+type TomObject = Record<string, unknown>;
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  // Raw inner markup
+  inner: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code] ?? entity;
+    const hex = code[1] === 'x' || code[1] === 'X';
+    return String.fromCodePoint(parseInt(code.slice(hex ? 2 : 1), hex ? 16 : 10));
+  });
+}
+
+function escapeXml(text: string, attribute = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/**
+ * Text content of an element without child elements (CDATA sections are taken literally)
+ */
+function readText(inner: string): string {
+  return inner
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => (part.startsWith('<![CDATA[') ? part.slice(9, -3) : unescapeXml(part)))
+    .join('');
+}
+
+const hasChildElements = (inner: string) =>
+  /<[A-Za-z_]/.test(inner.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, ''));
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Split markup into its top-level elements, skipping comments, processing instructions and
+ * whitespace between them
+ */
+function readElements(markup: string): XmlElement[] {
+  const elements: XmlElement[] = [];
+  const source = markup.replace(/<!--[\s\S]*?-->|<\?[\s\S]*?\?>/g, '');
+  let position = 0;
+
+  while (position < source.length) {
+    const start = source.indexOf('<', position);
+    if (start === -1) break;
+
+    const tag = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(
+      source.slice(start)
+    );
+    if (!tag) throw new Error(`Malformed XML near: ${source.slice(start, start + 40)}`);
+
+    const [open, name, attributes, selfClosing] = tag;
+    const contentStart = start + open.length;
+    if (selfClosing) {
+      elements.push({ name, attributes: parseAttributes(attributes), inner: '' });
+      position = contentStart;
+      continue;
+    }
+
+    // Find the matching close tag, counting nested elements of the same name
+    const escapedName = name.replace(/[.-]/g, '\\$&');
+    const tags = new RegExp(
+      `<!\\[CDATA\\[[\\s\\S]*?\\]\\]>|<(/?)${escapedName}(?=[\\s/>])[^>]*?(/?)>`,
+      'g'
+    );
+    tags.lastIndex = contentStart;
+    let depth = 1;
+    let match: RegExpExecArray | null;
+    while (depth > 0 && (match = tags.exec(source))) {
+      if (match[0].startsWith('<![CDATA[') || match[2]) continue;
+      depth += match[1] ? -1 : 1;
+    }
+    if (depth > 0) throw new Error(`Unclosed XML element: ${name}`);
+
+    elements.push({
+      name,
+      attributes: parseAttributes(attributes),
+      inner: source.slice(contentStart, tags.lastIndex - `</${name}>`.length),
+    });
+    position = tags.lastIndex;
+  }
+
+  return elements;
+}
+
+const toCamelCase = (name: string) => name[0].toLowerCase() + name.slice(1);
+const toPascalCase = (name: string) => name[0].toUpperCase() + name.slice(1);
+
+function readValue(text: string): unknown {
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^\s*[[{]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return text;
+}
+
+/**
+ * Convert a measure .xml file into its TOM object (without the expression)
+ */
+export function parseMeasureXml(source: string): TomObject {
+  const [root] = readElements(source);
+  if (!root) throw new Error('Measure XML has no root element');
+
+  const measure: TomObject = {};
+  if (root.attributes.Name !== undefined) measure.name = root.attributes.Name;
+
+  const annotations: TomObject[] = [];
+  for (const element of readElements(root.inner)) {
+    if (element.name === 'Annotation') {
+      const value = hasChildElements(element.inner)
+        ? element.inner.trim()
+        : readText(element.inner);
+      annotations.push({ name: element.attributes.Name, value });
+    } else {
+      measure[toCamelCase(element.name)] = readValue(readText(element.inner));
+    }
+  }
+  if (annotations.length > 0) measure.annotations = annotations;
+
+  return measure;
+}
+
+/**
+ * Inverse of parseMeasureXml; the expression belongs in the .dax file and is not written
+ */
+export function serializeMeasureXml(
+  measure: TomObject,
+  options: { eol?: string; declaration?: string } = {}
+): string {
+  const { eol = '\n', declaration } = options;
+  const lines = declaration ? [declaration] : [];
+  lines.push(`<Measure Name="${escapeXml(String(measure.name), true)}">`);
+
+  for (const [key, value] of Object.entries(measure)) {
+    if (key === 'name' || key === 'expression' || value === undefined) continue;
+
+    if (key === 'annotations' && Array.isArray(value)) {
+      for (const annotation of value as TomObject[]) {
+        const text = Array.isArray(annotation.value)
+          ? annotation.value.join('\n')
+          : String(annotation.value ?? '');
+        // Embedded XML stays markup, as pbi-tools writes it
+        const content = /^<[A-Za-z_]/.test(text) ? text : escapeXml(text);
+        lines.push(
+          `  <Annotation Name="${escapeXml(String(annotation.name), true)}">${content}</Annotation>`
+        );
+      }
+      continue;
+    }
+
+    const element = toPascalCase(key);
+    const text =
+      typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    lines.push(`  <${element}>${escapeXml(text)}</${element}>`);
+  }
+
+  lines.push('</Measure>');
+  return lines.join(eol) + eol;
+}
@@ -0,0 +1,586 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { fileExists, readJsonFile } from '../utils/fsx.js';
+import { parseMeasureXml } from './measureXml.js';
+import { parseTmdl, tmdlToTomDatabase } from './tmdl.js';
+
+export type ModelFormat = 'pbi-tools' | 'bim' | 'tmdl';
+
+export interface ModelColumn {
+  name: string;
+  table: string;
+  type: 'data' | 'calculated' | 'calculatedTableColumn' | 'rowNumber';
+  dataType?: string;
+  expression?: string;
+  sourceColumn?: string;
+  formatString?: string;
+  displayFolder?: string;
+  dataCategory?: string;
+  summarizeBy?: string;
+  sortByColumn?: string;
+  description?: string;
+  isHidden: boolean;
+  isKey: boolean;
+}
+
+export interface ModelMeasure {
+  name: string;
+  table: string;
+  expression: string;
+  formatString?: string;
+  displayFolder?: string;
+  description?: string;
+  isHidden: boolean;
+}
+
+export interface ModelHierarchy {
+  name: string;
+  table: string;
+  levels: Array<{ name: string; column: string; ordinal: number }>;
+  displayFolder?: string;
+  description?: string;
+  isHidden: boolean;
+}
+
+export interface ModelPartition {
+  name: string;
+  table: string;
+  mode?: string;
+  sourceType?: string;
+  expression?: string;
+}
+
+export interface ModelTable {
+  name: string;
+  description?: string;
+  isHidden: boolean;
+  isCalculated: boolean;
+  columns: ModelColumn[];
+  measures: ModelMeasure[];
+  hierarchies: ModelHierarchy[];
+  partitions: ModelPartition[];
+}
+
+export interface ModelRelationship {
+  name: string;
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string;
+  fromCardinality: 'one' | 'many';
+  toCardinality: 'one' | 'many';
+  crossFilteringBehavior: string;
+  isActive: boolean;
+}
+
+export interface ModelRole {
+  name: string;
+  description?: string;
+  modelPermission?: string;
+  members: string[];
+  tablePermissions: Array<{ table: string; filterExpression?: string }>;
+}
+
+export interface ModelExpression {
+  name: string;
+  kind: string;
+  expression: string;
+  description?: string;
+}
+
+export interface SemanticModel {
+  format: ModelFormat;
+  path: string;
+  name?: string;
+  compatibilityLevel?: number;
+  culture?: string;
+  tables: ModelTable[];
+  relationships: ModelRelationship[];
+  roles: ModelRole[];
+  expressions: ModelExpression[];
+}
+
+export interface ModelLocation {
+  format: ModelFormat;
+  path: string;
+}
+
+export type TomObject = Record<string, unknown>;
+
+export interface BimFile {
+  database: TomObject;
+  encoding: 'utf8' | 'utf16le';
+}
+
+const COLUMN_TYPES: ModelColumn['type'][] = [
+  'data',
+  'calculated',
+  'calculatedTableColumn',
+  'rowNumber',
+];
+
+/**
+ * Narrow a TOM property to an object; anything else reads as an empty one
+ */
+export function asObject(value: unknown): TomObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as TomObject)
+    : {};
+}
+
+/**
+ * Narrow a TOM collection (tables, measures, ...) to its objects
+ */
+export function asObjects(value: unknown): TomObject[] {
+  return Array.isArray(value) ? value.filter((item) => asObject(item) === item) : [];
+}
+
+export function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * TOM stores multi-line expressions either as a string or as an array of lines
+ */
+export function joinExpression(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value.join('\n');
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * pbi-tools escapes characters that are invalid in file names as %XX
+ */
+export function decodeFileName(fileName: string): string {
+  try {
+    return decodeURIComponent(fileName);
+  } catch {
+    return fileName;
+  }
+}
+
+// Characters pbi-tools escapes in file names, including control characters U+0000-U+001F
+const FILE_NAME_RESERVED = new RegExp('[<>:"/\\\\|?*%\\u0000-\\u001f]', 'g');
+
+/**
+ * Inverse of decodeFileName for names written back into the project
+ */
+export function encodeFileName(name: string): string {
+  return name.replace(
+    FILE_NAME_RESERVED,
+    (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`
+  );
+}
+
+export async function readBimFile(filePath: string): Promise<BimFile> {
+  const buffer = await fs.readFile(filePath);
+  // DataModelSchema inside PBIT files is UTF-16LE
+  const isUtf16 =
+    (buffer[0] === 0xff && buffer[1] === 0xfe) || (buffer.length > 1 && buffer[1] === 0x00);
+  const text = buffer.toString(isUtf16 ? 'utf16le' : 'utf8').replace(/^\uFEFF/, '');
+  return { database: JSON.parse(text) as TomObject, encoding: isUtf16 ? 'utf16le' : 'utf8' };
+}
+
+export async function writeBimFile(filePath: string, file: BimFile): Promise<void> {
+  const text = JSON.stringify(file.database, null, 2);
+  await fs.writeFile(filePath, file.encoding === 'utf16le' ? `\uFEFF${text}` : text, file.encoding);
+}
+
+export class ModelService {
+  /**
+   * Load the semantic model from an extracted project (or a model file/folder)
+   */
+  async loadModel(projectDir: string): Promise<SemanticModel> {
+    const location = await this.locateModel(projectDir);
+    logger.debug('Loading semantic model', location);
+
+    const database = await this.readTomDatabase(location);
+    return this.toSemanticModel(database, location);
+  }
+
+  /**
+   * Find the model definition inside a project directory
+   */
+  async locateModel(projectDir: string): Promise<ModelLocation> {
+    if (!(await fileExists(projectDir))) {
+      throw new ValidationError(`Project path not found: ${projectDir}`);
+    }
+
+    const stat = await fs.stat(projectDir);
+    if (stat.isFile()) {
+      return { format: projectDir.endsWith('.tmdl') ? 'tmdl' : 'bim', path: projectDir };
+    }
+
+    const semanticModelDirs = (await fs.readdir(projectDir))
+      .filter((entry) => entry.endsWith('.SemanticModel') || entry.endsWith('.Dataset'))
+      .map((entry) => path.join(projectDir, entry));
+
+    const candidates: ModelLocation[] = [
+      { format: 'pbi-tools', path: path.join(projectDir, 'Model', 'database.json') },
+      { format: 'pbi-tools', path: path.join(projectDir, 'database.json') },
+      { format: 'tmdl', path: path.join(projectDir, 'Model', 'database.tmdl') },
+      { format: 'tmdl', path: path.join(projectDir, 'Model', 'model.tmdl') },
+      { format: 'tmdl', path: path.join(projectDir, 'definition', 'model.tmdl') },
+      { format: 'tmdl', path: path.join(projectDir, 'model.tmdl') },
+      ...semanticModelDirs.map((dir) => ({
+        format: 'tmdl' as const,
+        path: path.join(dir, 'definition', 'model.tmdl'),
+      })),
+      { format: 'bim', path: path.join(projectDir, 'model.bim') },
+      ...semanticModelDirs.map((dir) => ({
+        format: 'bim' as const,
+        path: path.join(dir, 'model.bim'),
+      })),
+      { format: 'bim', path: path.join(projectDir, 'DataModelSchema') },
+    ];
+
+    for (const candidate of candidates) {
+      if (await fileExists(candidate.path)) {
+        // Folder formats are addressed by their directory
+        return candidate.format === 'bim'
+          ? candidate
+          : { format: candidate.format, path: path.dirname(candidate.path) };
+      }
+    }
+
+    throw new ValidationError(
+      `No semantic model found in ${projectDir} (expected Model/, definition/*.tmdl or model.bim)`
+    );
+  }
+
+  /**
+   * Read the model as a TOM database object regardless of on-disk format
+   */
+  async readTomDatabase(location: ModelLocation): Promise<TomObject> {
+    switch (location.format) {
+      case 'bim':
+        return (await readBimFile(location.path)).database;
+      case 'tmdl':
+        return this.readTmdl(location.path);
+      case 'pbi-tools':
+        return this.readPbiToolsFolder(location.path);
+    }
+  }
+
+  private async readTmdl(dir: string): Promise<TomObject> {
+    const files = await this.findFiles(dir, (name) => name.endsWith('.tmdl'));
+    const documents = await Promise.all(
+      files.map(async (file) => parseTmdl(await fs.readFile(file, 'utf8')))
+    );
+    return tmdlToTomDatabase(documents);
+  }
+
+  /**
+   * Reassemble the pbi-tools folder layout into a TOM database:
+   *   database.json, relationships.json?, tables/<Table>/{table.json, columns/, measures/,
+   *   hierarchies/, partitions/}, roles/<Role>.json, expressions/<Name>.{json,m}
+   */
+  private async readPbiToolsFolder(modelDir: string): Promise<TomObject> {
+    const database = await readJsonFile<TomObject>(path.join(modelDir, 'database.json'));
+    const model: TomObject = { ...asObject(database.model) };
+
+    const tablesDir = path.join(modelDir, 'tables');
+    if (await fileExists(tablesDir)) {
+      const tables: TomObject[] = [];
+      for (const entry of await this.listDirs(tablesDir)) {
+        tables.push(await this.readPbiToolsTable(path.join(tablesDir, entry)));
+      }
+      model.tables = tables;
+    }
+
+    const relationshipsFile = path.join(modelDir, 'relationships.json');
+    if (await fileExists(relationshipsFile)) {
+      model.relationships = await readJsonFile<TomObject[]>(relationshipsFile);
+    }
+
+    const rolesDir = path.join(modelDir, 'roles');
+    if (await fileExists(rolesDir)) {
+      model.roles = await this.readObjectFolder(rolesDir, []);
+    }
+
+    const expressionsDir = path.join(modelDir, 'expressions');
+    if (await fileExists(expressionsDir)) {
+      model.expressions = await this.readObjectFolder(expressionsDir, ['.m']);
+    }
+
+    return { ...database, model };
+  }
+
+  private async readPbiToolsTable(tableDir: string): Promise<TomObject> {
+    const tableFile = path.join(tableDir, 'table.json');
+    const table: TomObject = (await fileExists(tableFile))
+      ? await readJsonFile<TomObject>(tableFile)
+      : {};
+    table.name ??= decodeFileName(path.basename(tableDir));
+
+    const folders: Array<[string, string[]]> = [
+      ['columns', ['.dax']],
+      ['measures', ['.dax']],
+      ['hierarchies', []],
+      ['partitions', ['.m', '.dax']],
+    ];
+
+    for (const [folder, expressionExtensions] of folders) {
+      const dir = path.join(tableDir, folder);
+      if (await fileExists(dir)) {
+        table[folder] = await this.readObjectFolder(dir, expressionExtensions);
+      }
+    }
+
+    // Partition expressions live in the source object
+    for (const partition of asObjects(table.partitions)) {
+      const source = asObject(partition.source);
+      if (partition.expression !== undefined && source.expression === undefined) {
+        partition.source = { ...source, expression: partition.expression };
+        delete partition.expression;
+      }
+    }
+
+    return table;
+  }
+
+  /**
+   * Read `<Name>.json` objects (`<Name>.xml` for measures), attaching `<Name>.<ext>` expression
+   * files when present
+   */
+  private async readObjectFolder(
+    dir: string,
+    expressionExtensions: string[]
+  ): Promise<TomObject[]> {
+    const entries = await fs.readdir(dir);
+    const baseNames = new Set(
+      entries
+        .filter(
+          (entry) =>
+            entry.endsWith('.json') ||
+            entry.endsWith('.xml') ||
+            expressionExtensions.includes(path.extname(entry))
+        )
+        .map((entry) => entry.slice(0, -path.extname(entry).length))
+    );
+
+    const objects: TomObject[] = [];
+    for (const baseName of [...baseNames].sort()) {
+      const jsonFile = path.join(dir, `${baseName}.json`);
+      const xmlFile = path.join(dir, `${baseName}.xml`);
+      let obj: TomObject = {};
+      if (await fileExists(jsonFile)) {
+        obj = await readJsonFile<TomObject>(jsonFile);
+      } else if (await fileExists(xmlFile)) {
+        obj = parseMeasureXml(await fs.readFile(xmlFile, 'utf8'));
+      }
+      obj.name ??= decodeFileName(baseName);
+
+      for (const ext of expressionExtensions) {
+        const expressionFile = path.join(dir, `${baseName}${ext}`);
+        if (await fileExists(expressionFile)) {
+          obj.expression = (await fs.readFile(expressionFile, 'utf8')).replace(/\r\n/g, '\n');
+          break;
+        }
+      }
+
+      objects.push(obj);
+    }
+    return objects;
+  }
+
+  private toSemanticModel(database: TomObject, location: ModelLocation): SemanticModel {
+    const model = asObject(database.model);
+
+    const tables = asObjects(model.tables).map((table) => this.toTable(table));
+    const relationships = asObjects(model.relationships).map((rel): ModelRelationship => ({
+      name: asString(rel.name) || '',
+      fromTable: asString(rel.fromTable) || '',
+      fromColumn: asString(rel.fromColumn) || '',
+      toTable: asString(rel.toTable) || '',
+      toColumn: asString(rel.toColumn) || '',
+      fromCardinality: rel.fromCardinality === 'one' ? 'one' : 'many',
+      toCardinality: rel.toCardinality === 'many' ? 'many' : 'one',
+      crossFilteringBehavior: asString(rel.crossFilteringBehavior) || 'oneDirection',
+      isActive: rel.isActive !== false,
+    }));
+    const roles = asObjects(model.roles).map((role): ModelRole => ({
+      name: asString(role.name) || '',
+      description: joinExpression(role.description),
+      modelPermission: asString(role.modelPermission),
+      members: asObjects(role.members).map((m) => asString(m.memberName) || ''),
+      tablePermissions: asObjects(role.tablePermissions).map((tp) => ({
+        table: asString(tp.name) || '',
+        filterExpression: joinExpression(tp.filterExpression),
+      })),
+    }));
+    const expressions = asObjects(model.expressions).map((expr): ModelExpression => ({
+      name: asString(expr.name) || '',
+      kind: asString(expr.kind) || 'm',
+      expression: joinExpression(expr.expression) || '',
+      description: joinExpression(expr.description),
+    }));
+
+    return {
+      format: location.format,
+      path: location.path,
+      name: asString(database.name),
+      compatibilityLevel:
+        typeof database.compatibilityLevel === 'number' ? database.compatibilityLevel : undefined,
+      culture: asString(model.culture),
+      tables,
+      relationships,
+      roles,
+      expressions,
+    };
+  }
+
+  private toTable(table: TomObject): ModelTable {
+    const name = asString(table.name) || '';
+    const partitions = asObjects(table.partitions).map((partition): ModelPartition => {
+      const source = asObject(partition.source);
+      return {
+        name: asString(partition.name) || '',
+        table: name,
+        mode: asString(partition.mode),
+        sourceType: asString(source.type),
+        expression: joinExpression(source.expression ?? source.query),
+      };
+    });
+
+    return {
+      name,
+      description: joinExpression(table.description),
+      isHidden: !!table.isHidden,
+      isCalculated: partitions.some((partition) => partition.sourceType === 'calculated'),
+      columns: asObjects(table.columns).map((column): ModelColumn => ({
+        name: asString(column.name) || '',
+        table: name,
+        type:
+          COLUMN_TYPES.find((type) => type === column.type) ||
+          (column.expression !== undefined ? 'calculated' : 'data'),
+        dataType: asString(column.dataType),
+        expression: joinExpression(column.expression),
+        sourceColumn: asString(column.sourceColumn),
+        formatString: asString(column.formatString),
+        displayFolder: asString(column.displayFolder),
+        dataCategory: asString(column.dataCategory),
+        summarizeBy: asString(column.summarizeBy),
+        sortByColumn: asString(column.sortByColumn),
+        description: joinExpression(column.description),
+        isHidden: !!column.isHidden,
+        isKey: !!column.isKey,
+      })),
+      measures: asObjects(table.measures).map((measure): ModelMeasure => ({
+        name: asString(measure.name) || '',
+        table: name,
+        expression: joinExpression(measure.expression) || '',
+        formatString: asString(measure.formatString),
+        displayFolder: asString(measure.displayFolder),
+        description: joinExpression(measure.description),
+        isHidden: !!measure.isHidden,
+      })),
+      hierarchies: asObjects(table.hierarchies).map((hierarchy): ModelHierarchy => ({
+        name: asString(hierarchy.name) || '',
+        table: name,
+        levels: asObjects(hierarchy.levels).map((level, index) => ({
+          name: asString(level.name) || '',
+          column: asString(level.column) || '',
+          ordinal: typeof level.ordinal === 'number' ? level.ordinal : index,
+        })),
+        displayFolder: asString(hierarchy.displayFolder),
+        description: joinExpression(hierarchy.description),
+        isHidden: !!hierarchy.isHidden,
+      })),
+      partitions,
+    };
+  }
+
+  private async listDirs(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  private async findFiles(dir: string, match: (name: string) => boolean): Promise<string[]> {
+    const files: string[] = [];
+
+    async function walk(currentDir: string) {
+      const entries = await fs.readdir(currentDir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        const fullPath = path.join(currentDir, entry.name);
+
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile() && match(entry.name)) {
+          files.push(fullPath);
+        }
+      }
+    }
+
+    await walk(dir);
+    return files.sort();
+  }
+
+  // --- Queries ---
+
+  async listTables(projectDir: string) {
+    const model = await this.loadModel(projectDir);
+    return model.tables.map((table) => ({
+      name: table.name,
+      description: table.description,
+      isHidden: table.isHidden,
+      isCalculated: table.isCalculated,
+      columnCount: table.columns.length,
+      measureCount: table.measures.length,
+      hierarchyCount: table.hierarchies.length,
+      partitionCount: table.partitions.length,
+    }));
+  }
+
+  async getTable(projectDir: string, tableName: string): Promise<ModelTable> {
+    const model = await this.loadModel(projectDir);
+    return this.findTable(model, tableName);
+  }
+
+  async listMeasures(projectDir: string, tableName?: string): Promise<ModelMeasure[]> {
+    const model = await this.loadModel(projectDir);
+    const tables = tableName ? [this.findTable(model, tableName)] : model.tables;
+    return tables.flatMap((table) => table.measures);
+  }
+
+  async getMeasure(projectDir: string, measureName: string, tableName?: string) {
+    const measures = await this.listMeasures(projectDir, tableName);
+    const measure = measures.find((m) => m.name.toLowerCase() === measureName.toLowerCase());
+    if (!measure) {
+      throw new ValidationError(`Measure not found: ${measureName}`);
+    }
+    return measure;
+  }
+
+  async listRelationships(projectDir: string, tableName?: string) {
+    const model = await this.loadModel(projectDir);
+    return tableName
+      ? model.relationships.filter(
+          (rel) => rel.fromTable === tableName || rel.toTable === tableName
+        )
+      : model.relationships;
+  }
+
+  async listRoles(projectDir: string) {
+    return (await this.loadModel(projectDir)).roles;
+  }
+
+  async listExpressions(projectDir: string) {
+    return (await this.loadModel(projectDir)).expressions;
+  }
+
+  private findTable(model: SemanticModel, tableName: string): ModelTable {
+    const table = model.tables.find((t) => t.name.toLowerCase() === tableName.toLowerCase());
+    if (!table) {
+      throw new ValidationError(`Table not found: ${tableName}`);
+    }
+    return table;
+  }
+}
+
+export const modelService = new ModelService();
@@ -0,0 +1,559 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { ensureDir, fileExists, readJsonFile, writeJsonFile } from '../utils/fsx.js';
+import {
+  asObject,
+  asObjects,
+  asString,
+  decodeFileName,
+  encodeFileName,
+  modelService,
+  readBimFile,
+  writeBimFile,
+  type ModelLocation,
+  type ModelMeasure,
+  type SemanticModel,
+  type TomObject,
+} from './model.js';
+import { parseMeasureXml, serializeMeasureXml } from './measureXml.js';
+import { measureIndent, readName, serializeTmdlMeasure } from './tmdl.js';
+
+export interface MeasureDefinition {
+  name: string;
+  expression: string;
+  formatString?: string;
+  displayFolder?: string;
+  description?: string;
+  isHidden?: boolean;
+}
+
+export interface AddMeasureOptions extends MeasureDefinition {
+  projectDir: string;
+  table: string;
+}
+
+export interface UpdateMeasureOptions extends Partial<Omit<MeasureDefinition, 'name'>> {
+  projectDir: string;
+  name: string;
+  table?: string;
+}
+
+export interface RenameMeasureOptions {
+  projectDir: string;
+  name: string;
+  newName: string;
+  table?: string;
+}
+
+export interface DeleteMeasureOptions {
+  projectDir: string;
+  name: string;
+  table?: string;
+}
+
+export interface EditMeasureResult {
+  success: boolean;
+  table: string;
+  measure?: MeasureDefinition;
+  filesModified: string[];
+  referencedBy?: string[];
+}
+
+// Properties the editor owns in TMDL; everything else in a measure block is preserved
+const MANAGED_TMDL_PROPERTIES = new Set(['formatString', 'displayFolder', 'isHidden']);
+
+export class ModelEditorService {
+  /**
+   * Add a measure to a table
+   */
+  async addMeasure(options: AddMeasureOptions): Promise<EditMeasureResult> {
+    const { projectDir, table: tableName, ...definition } = options;
+    const model = await modelService.loadModel(projectDir);
+
+    const table = this.findTable(model, tableName);
+    this.assertValidDefinition(definition);
+    this.assertNameAvailable(model, table.name, definition.name);
+
+    logger.info('Adding measure', { projectDir, table: table.name, measure: definition.name });
+
+    const filesModified = await this.writeMeasure(model, table.name, null, definition);
+    return { success: true, table: table.name, measure: definition, filesModified };
+  }
+
+  /**
+   * Update expression, format string, display folder, description or visibility.
+   * Pass an empty string to clear an optional property.
+   */
+  async updateMeasure(options: UpdateMeasureOptions): Promise<EditMeasureResult> {
+    const { projectDir, name, table, ...changes } = options;
+    const model = await modelService.loadModel(projectDir);
+    const existing = this.findMeasure(model, name, table);
+
+    const pick = (next: string | undefined, current: string | undefined) =>
+      next === undefined ? current : next || undefined;
+
+    const definition: MeasureDefinition = {
+      name: existing.name,
+      expression: changes.expression ?? existing.expression,
+      formatString: pick(changes.formatString, existing.formatString),
+      displayFolder: pick(changes.displayFolder, existing.displayFolder),
+      description: pick(changes.description, existing.description),
+      isHidden: changes.isHidden ?? existing.isHidden,
+    };
+    this.assertValidDefinition(definition);
+
+    logger.info('Updating measure', { projectDir, table: existing.table, measure: existing.name });
+
+    const filesModified = await this.writeMeasure(model, existing.table, existing.name, definition);
+    return { success: true, table: existing.table, measure: definition, filesModified };
+  }
+
+  /**
+   * Rename a measure. Expressions referencing the old name are reported, not rewritten.
+   */
+  async renameMeasure(options: RenameMeasureOptions): Promise<EditMeasureResult> {
+    const { projectDir, name, newName, table } = options;
+    const model = await modelService.loadModel(projectDir);
+    const existing = this.findMeasure(model, name, table);
+
+    const definition: MeasureDefinition = { ...this.toDefinition(existing), name: newName };
+    this.assertValidDefinition(definition);
+    if (newName.toLowerCase() !== existing.name.toLowerCase()) {
+      this.assertNameAvailable(model, existing.table, newName);
+    }
+
+    logger.info('Renaming measure', { projectDir, from: existing.name, to: newName });
+
+    const filesModified = await this.writeMeasure(model, existing.table, existing.name, definition);
+    return {
+      success: true,
+      table: existing.table,
+      measure: definition,
+      filesModified,
+      referencedBy: this.findReferences(model, existing.name),
+    };
+  }
+
+  /**
+   * Delete a measure
+   */
+  async deleteMeasure(options: DeleteMeasureOptions): Promise<EditMeasureResult> {
+    const { projectDir, name, table } = options;
+    const model = await modelService.loadModel(projectDir);
+    const existing = this.findMeasure(model, name, table);
+
+    logger.info('Deleting measure', { projectDir, table: existing.table, measure: existing.name });
+
+    const filesModified = await this.writeMeasure(model, existing.table, existing.name, null);
+    return {
+      success: true,
+      table: existing.table,
+      filesModified,
+      referencedBy: this.findReferences(model, existing.name),
+    };
+  }
+
+  // --- Validation ---
+
+  private findTable(model: SemanticModel, tableName: string) {
+    const table = model.tables.find((t) => t.name.toLowerCase() === tableName.toLowerCase());
+    if (!table) {
+      throw new ValidationError(`Unknown table: ${tableName}`);
+    }
+    return table;
+  }
+
+  private findMeasure(model: SemanticModel, name: string, tableName?: string): ModelMeasure {
+    const tables = tableName ? [this.findTable(model, tableName)] : model.tables;
+    const measure = tables
+      .flatMap((table) => table.measures)
+      .find((m) => m.name.toLowerCase() === name.toLowerCase());
+    if (!measure) {
+      throw new ValidationError(`Measure not found: ${name}`);
+    }
+    return measure;
+  }
+
+  private assertValidDefinition(definition: MeasureDefinition): void {
+    if (!definition.name || definition.name.trim() !== definition.name) {
+      throw new ValidationError('Measure name must be non-empty without surrounding whitespace');
+    }
+    if (!definition.expression.trim()) {
+      throw new ValidationError(`Measure expression is empty: ${definition.name}`);
+    }
+  }
+
+  /**
+   * Measure names are unique across the model and may not shadow a column of the host table
+   */
+  private assertNameAvailable(model: SemanticModel, tableName: string, name: string): void {
+    const lower = name.toLowerCase();
+
+    const measure = model.tables
+      .flatMap((table) => table.measures)
+      .find((m) => m.name.toLowerCase() === lower);
+    if (measure) {
+      throw new ValidationError(`A measure named "${name}" already exists in ${measure.table}`);
+    }
+
+    const table = this.findTable(model, tableName);
+    if (table.columns.some((column) => column.name.toLowerCase() === lower)) {
+      throw new ValidationError(`Table ${table.name} already has a column named "${name}"`);
+    }
+  }
+
+  private findReferences(model: SemanticModel, name: string): string[] {
+    const reference = `[${name.replace(/]/g, ']]')}]`.toLowerCase();
+    return model.tables
+      .flatMap((table) => table.measures)
+      .filter((m) => m.name !== name && m.expression.toLowerCase().includes(reference))
+      .map((m) => `${m.table}[${m.name}]`);
+  }
+
+  private toDefinition(measure: ModelMeasure): MeasureDefinition {
+    return {
+      name: measure.name,
+      expression: measure.expression,
+      formatString: measure.formatString,
+      displayFolder: measure.displayFolder,
+      description: measure.description,
+      isHidden: measure.isHidden,
+    };
+  }
+
+  // --- Writers ---
+
+  /**
+   * Create (existingName = null), replace or delete (definition = null) a measure on disk
+   */
+  private async writeMeasure(
+    model: SemanticModel,
+    tableName: string,
+    existingName: string | null,
+    definition: MeasureDefinition | null
+  ): Promise<string[]> {
+    const location: ModelLocation = { format: model.format, path: model.path };
+
+    switch (location.format) {
+      case 'bim':
+        return this.writeBimMeasure(location.path, tableName, existingName, definition);
+      case 'pbi-tools':
+        return this.writePbiToolsMeasure(location.path, tableName, existingName, definition);
+      case 'tmdl':
+        return this.writeTmdlMeasure(location.path, tableName, existingName, definition);
+    }
+  }
+
+  /**
+   * Merge a definition into a TOM measure object, keeping lineageTag/annotations
+   */
+  private toTomMeasure(definition: MeasureDefinition, existing: TomObject = {}): TomObject {
+    const measure: TomObject = { ...existing, name: definition.name };
+    const lines = definition.expression.split(/\r?\n/);
+    // TOM serializes multi-line expressions as arrays of lines
+    measure.expression = lines.length > 1 ? lines : definition.expression;
+
+    for (const key of ['formatString', 'displayFolder', 'description'] as const) {
+      if (definition[key]) measure[key] = definition[key];
+      else delete measure[key];
+    }
+    if (definition.isHidden) measure.isHidden = true;
+    else delete measure.isHidden;
+
+    measure.lineageTag ??= randomUUID();
+    return measure;
+  }
+
+  private async writeBimMeasure(
+    filePath: string,
+    tableName: string,
+    existingName: string | null,
+    definition: MeasureDefinition | null
+  ): Promise<string[]> {
+    const file = await readBimFile(filePath);
+    const table = asObjects(asObject(file.database.model).tables).find((t) => t.name === tableName);
+    if (!table) {
+      throw new ValidationError(`Unknown table: ${tableName}`);
+    }
+
+    if (!Array.isArray(table.measures)) table.measures = [];
+    const measures = table.measures as TomObject[];
+    const index = existingName ? measures.findIndex((m) => m.name === existingName) : -1;
+    if (existingName && index === -1) {
+      throw new ValidationError(`Measure not found: ${existingName}`);
+    }
+
+    if (!definition) {
+      measures.splice(index, 1);
+    } else if (index === -1) {
+      measures.push(this.toTomMeasure(definition));
+    } else {
+      measures[index] = this.toTomMeasure(definition, measures[index]);
+    }
+
+    await writeBimFile(filePath, file);
+    return [filePath];
+  }
+
+  /**
+   * pbi-tools stores each measure as tables/<Table>/measures/<Name>.dax with its other
+   * properties in <Name>.xml (older layouts: <Name>.json, possibly with the expression inline).
+   * Existing metadata is read and written back in the file format it came from.
+   */
+  private async writePbiToolsMeasure(
+    modelDir: string,
+    tableName: string,
+    existingName: string | null,
+    definition: MeasureDefinition | null
+  ): Promise<string[]> {
+    const tableDir = await this.findPbiToolsTableDir(modelDir, tableName);
+    const measuresDir = path.join(tableDir, 'measures');
+    await ensureDir(measuresDir);
+
+    const filesModified: string[] = [];
+    let existing: TomObject = {};
+    let expressionInline = false;
+    let metadata = await this.pbiToolsMetadataFormat(measuresDir);
+
+    if (existingName) {
+      const baseName = await this.findPbiToolsObjectFile(measuresDir, existingName);
+      const jsonFile = path.join(measuresDir, `${baseName}.json`);
+      const xmlFile = path.join(measuresDir, `${baseName}.xml`);
+
+      if (await fileExists(jsonFile)) {
+        existing = await readJsonFile<TomObject>(jsonFile);
+        expressionInline = existing.expression !== undefined;
+        metadata = { format: 'json' };
+      } else if (await fileExists(xmlFile)) {
+        const content = await fs.readFile(xmlFile, 'utf8');
+        existing = parseMeasureXml(content);
+        metadata = {
+          format: 'xml',
+          eol: content.includes('\r\n') ? '\r\n' : '\n',
+          declaration: /^\uFEFF?(<\?xml[^>]*\?>)/.exec(content)?.[1],
+        };
+      }
+
+      // Drop the old files; renames and deletes must not leave them behind
+      for (const ext of ['.json', '.dax', '.xml']) {
+        const file = path.join(measuresDir, `${baseName}${ext}`);
+        if (await fileExists(file)) {
+          await fs.rm(file);
+          filesModified.push(file);
+        }
+      }
+    }
+
+    if (definition) {
+      const baseName = encodeFileName(definition.name);
+      const measure = this.toTomMeasure(definition, existing);
+
+      if (!expressionInline) {
+        delete measure.expression;
+        const daxFile = path.join(measuresDir, `${baseName}.dax`);
+        await fs.writeFile(daxFile, definition.expression, 'utf8');
+        filesModified.push(daxFile);
+      }
+
+      if (metadata.format === 'xml') {
+        const xmlFile = path.join(measuresDir, `${baseName}.xml`);
+        await fs.writeFile(xmlFile, serializeMeasureXml(measure, metadata), 'utf8');
+        filesModified.push(xmlFile);
+      } else {
+        const jsonFile = path.join(measuresDir, `${baseName}.json`);
+        await writeJsonFile(jsonFile, measure);
+        filesModified.push(jsonFile);
+      }
+    }
+
+    return [...new Set(filesModified)];
+  }
+
+  /**
+   * Metadata format for new measures: whatever the table's other measures use, else .xml as
+   * current pbi-tools versions write
+   */
+  private async pbiToolsMetadataFormat(
+    measuresDir: string
+  ): Promise<{ format: 'json' | 'xml'; eol?: string; declaration?: string }> {
+    const entries = await fs.readdir(measuresDir);
+    const usesJson = entries.some((entry) => entry.endsWith('.json'));
+    const usesXml = entries.some((entry) => entry.endsWith('.xml'));
+    return { format: usesJson && !usesXml ? 'json' : 'xml' };
+  }
+
+  private async findPbiToolsTableDir(modelDir: string, tableName: string): Promise<string> {
+    const tablesDir = path.join(modelDir, 'tables');
+    const entries = (await fileExists(tablesDir))
+      ? await fs.readdir(tablesDir, { withFileTypes: true })
+      : [];
+
+    for (const entry of entries.filter((e) => e.isDirectory())) {
+      const dir = path.join(tablesDir, entry.name);
+      const tableFile = path.join(dir, 'table.json');
+      const name = (await fileExists(tableFile))
+        ? (asString((await readJsonFile<TomObject>(tableFile)).name) ?? decodeFileName(entry.name))
+        : decodeFileName(entry.name);
+      if (name === tableName) return dir;
+    }
+
+    throw new ValidationError(`Unknown table: ${tableName}`);
+  }
+
+  private async findPbiToolsObjectFile(dir: string, name: string): Promise<string> {
+    for (const entry of await fs.readdir(dir)) {
+      const baseName = entry.slice(0, -path.extname(entry).length);
+      if (entry.endsWith('.json') || entry.endsWith('.xml')) {
+        const obj = entry.endsWith('.json')
+          ? await readJsonFile<TomObject>(path.join(dir, entry))
+          : parseMeasureXml(await fs.readFile(path.join(dir, entry), 'utf8'));
+        if ((asString(obj.name) ?? decodeFileName(baseName)) === name) return baseName;
+      } else if (decodeFileName(baseName) === name) {
+        return baseName;
+      }
+    }
+    throw new ValidationError(`Measure not found: ${name}`);
+  }
+
+  /**
+   * Edit the `measure` block inside the table's .tmdl file in place
+   */
+  private async writeTmdlMeasure(
+    modelDir: string,
+    tableName: string,
+    existingName: string | null,
+    definition: MeasureDefinition | null
+  ): Promise<string[]> {
+    const { file, content } = await this.findTmdlTableFile(modelDir, tableName);
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const indents = lines.map((line) => (line.trim() === '' ? -1 : measureIndent(line)));
+
+    const tableStart = lines.findIndex(
+      (line, i) =>
+        indents[i] === 0 &&
+        line.trim().startsWith('table ') &&
+        readName(line.trim().slice(6).trim()).name === tableName
+    );
+    let tableEnd = lines.findIndex((_, i) => i > tableStart && indents[i] === 0);
+    if (tableEnd === -1) tableEnd = lines.length;
+
+    const measureBlocks = this.findTmdlMeasureBlocks(lines, indents, tableStart + 1, tableEnd);
+
+    if (existingName) {
+      const block = measureBlocks.find((b) => b.name === existingName);
+      if (!block) {
+        throw new ValidationError(`Measure not found: ${existingName}`);
+      }
+
+      if (definition) {
+        const extra = this.preservedTmdlLines(lines, indents, block.header + 1, block.end);
+        lines.splice(
+          block.start,
+          block.end - block.start,
+          ...serializeTmdlMeasure(definition, 1, extra)
+        );
+      } else {
+        // Remove the block together with the blank line separating it from the next one
+        const end = lines[block.end]?.trim() === '' ? block.end + 1 : block.end;
+        lines.splice(block.start, end - block.start);
+      }
+    } else if (definition) {
+      const lineageTag = `\t\tlineageTag: ${randomUUID()}`;
+      const serialized = serializeTmdlMeasure(definition, 1, [lineageTag]);
+
+      let insertAt =
+        measureBlocks.length > 0 ? measureBlocks[measureBlocks.length - 1].end : tableEnd;
+      while (insertAt > tableStart + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+      lines.splice(insertAt, 0, '', ...serialized);
+    }
+
+    await fs.writeFile(file, lines.join(eol), 'utf8');
+    return [file];
+  }
+
+  private async findTmdlTableFile(
+    modelDir: string,
+    tableName: string
+  ): Promise<{ file: string; content: string }> {
+    const candidates: string[] = [];
+
+    async function walk(dir: string) {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) await walk(fullPath);
+        else if (entry.name.endsWith('.tmdl')) candidates.push(fullPath);
+      }
+    }
+    await walk(modelDir);
+
+    for (const file of candidates) {
+      const content = await fs.readFile(file, 'utf8');
+      const declares = content
+        .split(/\r?\n/)
+        .some(
+          (line) => line.startsWith('table ') && readName(line.slice(6).trim()).name === tableName
+        );
+      if (declares) return { file, content };
+    }
+
+    throw new ValidationError(`Unknown table: ${tableName}`);
+  }
+
+  /**
+   * Locate `measure` blocks (including leading /// descriptions) of one table
+   */
+  private findTmdlMeasureBlocks(lines: string[], indents: number[], from: number, to: number) {
+    const blocks: Array<{ name: string; start: number; header: number; end: number }> = [];
+
+    for (let i = from; i < to; i++) {
+      const text = lines[i].trim();
+      if (indents[i] !== 1 || !text.startsWith('measure ')) continue;
+
+      let start = i;
+      while (
+        start - 1 >= from &&
+        indents[start - 1] === 1 &&
+        lines[start - 1].trim().startsWith('///')
+      ) {
+        start--;
+      }
+
+      let end = i + 1;
+      while (end < to && (indents[end] === -1 || indents[end] > 1)) end++;
+      while (end > i + 1 && indents[end - 1] === -1) end--;
+
+      blocks.push({ name: readName(text.slice(8).trim()).name, start, header: i, end });
+      i = end - 1;
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Lines of a measure block that the editor does not manage (lineageTag, annotations, ...)
+   */
+  private preservedTmdlLines(lines: string[], indents: number[], from: number, to: number) {
+    const preserved: string[] = [];
+    let keep = false;
+
+    for (let i = from; i < to; i++) {
+      if (indents[i] === 2) {
+        const key = /^(\w+)/.exec(lines[i].trim())?.[1] || '';
+        keep = !MANAGED_TMDL_PROPERTIES.has(key);
+        if (keep) preserved.push(lines[i]);
+      } else if (keep && indents[i] !== 2) {
+        // Nested content (and expression lines before the first property are skipped)
+        preserved.push(lines[i]);
+      }
+    }
+
+    while (preserved.length > 0 && preserved[preserved.length - 1].trim() === '') preserved.pop();
+    return preserved;
+  }
+}
+
+export const modelEditorService = new ModelEditorService();
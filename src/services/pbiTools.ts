@@ -1,9 +1,11 @@
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
 import path from 'path';
 import { env } from '../utils/env.js';
 import { logger } from '../utils/logger.js';
-import { PBIToolsError } from '../utils/errors.js';
+import { CancelledError, PBIToolsError } from '../utils/errors.js';
 import { ensureDir, fileExists, getTempDir } from '../utils/fsx.js';
+import { ConcurrencyLimiter } from '../utils/limiter.js';
+import { throwIfCancelled, type TaskContext } from '../utils/task.js';
 
 export interface ExtractOptions {
   filePath: string;
@@ -19,9 +21,11 @@ export interface CompileOptions {
 
 export class PBIToolsService {
   private pbiToolsPath: string;
+  private limiter: ConcurrencyLimiter;
 
   constructor() {
     this.pbiToolsPath = env.PBI_TOOLS_PATH;
+    this.limiter = new ConcurrencyLimiter(env.PBI_TOOLS_CONCURRENCY);
   }
 
   /**
@@ -39,7 +43,7 @@ export class PBIToolsService {
   /**
    * Extract PBIX/PBIT to project folder
    */
-  async extract(options: ExtractOptions): Promise<string> {
+  async extract(options: ExtractOptions, context: TaskContext = {}): Promise<string> {
     const { filePath, outDir, modelOnly } = options;
 
     // Validate input file
@@ -59,18 +63,18 @@ export class PBIToolsService {
     }
 
     try {
-      await this.execute(args);
+      await this.executeLimited(args, context);
       logger.info('Extraction completed', { outputDir });
       return outputDir;
     } catch (error) {
-      throw new PBIToolsError('Failed to extract PBIX', error);
+      throw this.wrapError('Failed to extract PBIX', error);
     }
   }
 
   /**
    * Compile project folder to PBIX/PBIT
    */
-  async compile(options: CompileOptions): Promise<string> {
+  async compile(options: CompileOptions, context: TaskContext = {}): Promise<string> {
     const { projectDir, outPath, format = 'PBIX' } = options;
 
     // Validate project directory
@@ -87,7 +91,7 @@ export class PBIToolsService {
     const args = ['compile', projectDir, '-outPath', outputPath, '-format', format];
 
     try {
-      await this.execute(args);
+      await this.executeLimited(args, context);
 
       // Check if output file was created
       if (!(await fileExists(outputPath))) {
@@ -97,7 +101,7 @@ export class PBIToolsService {
       logger.info('Compilation completed', { outputPath });
       return outputPath;
     } catch (error) {
-      throw new PBIToolsError('Failed to compile project', error);
+      throw this.wrapError('Failed to compile project', error);
     }
   }
 
@@ -113,39 +117,80 @@ export class PBIToolsService {
   }
 
   /**
-   * Execute pbi-tools command
+   * Cancellation is passed through as is rather than reported as a pbi-tools failure
    */
-  private execute(args: string[]): Promise<string> {
+  private wrapError(message: string, error: unknown) {
+    if (error instanceof CancelledError) return error;
+    return new PBIToolsError(message, error);
+  }
+
+  /**
+   * Execute a long-running pbi-tools command (extract, compile) once fewer than
+   * PBI_TOOLS_CONCURRENCY of them are running; quick `info` calls don't wait for a slot
+   */
+  private executeLimited(args: string[], context: TaskContext): Promise<string> {
+    return this.limiter.run(() => this.execute(args, context), context);
+  }
+
+  /**
+   * Execute pbi-tools command. Output lines are reported as progress; aborting the signal
+   * kills the process
+   */
+  private execute(args: string[], context: TaskContext = {}): Promise<string> {
+    const { signal, onProgress } = context;
+
     return new Promise((resolve, reject) => {
+      throwIfCancelled(signal);
       logger.debug('Executing pbi-tools', { command: this.pbiToolsPath, args });
 
       const child = spawn(this.pbiToolsPath, args, {
         shell: true,
         env: process.env,
+        // Own process group, so the shell and pbi-tools can be killed together
+        detached: process.platform !== 'win32',
       });
 
       let stdout = '';
       let stderr = '';
 
+      const onAbort = () => {
+        logger.info('Cancelling pbi-tools', { args });
+        killProcessTree(child);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const reportLines = (text: string) => {
+        for (const line of text.split(/\r?\n/)) {
+          if (line.trim()) onProgress?.({ message: line.trim() });
+        }
+      };
+
       child.stdout?.on('data', (data) => {
         const text = data.toString();
         stdout += text;
         logger.debug('pbi-tools stdout', { text: text.trim() });
+        reportLines(text);
       });
 
       child.stderr?.on('data', (data) => {
         const text = data.toString();
         stderr += text;
         logger.debug('pbi-tools stderr', { text: text.trim() });
+        reportLines(text);
       });
 
       child.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
         logger.error('pbi-tools process error', { error });
         reject(new PBIToolsError(`Failed to spawn pbi-tools: ${error.message}`));
       });
 
       child.on('close', (code) => {
-        if (code === 0) {
+        signal?.removeEventListener('abort', onAbort);
+
+        if (signal?.aborted) {
+          reject(new CancelledError('pbi-tools was cancelled'));
+        } else if (code === 0) {
           resolve(stdout);
         } else {
           const errorMsg = stderr || stdout || `Process exited with code ${code}`;
@@ -157,4 +202,18 @@ export class PBIToolsService {
   }
 }
 
+function killProcessTree(child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null) return;
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    } else {
+      process.kill(-child.pid, 'SIGTERM');
+    }
+  } catch (error) {
+    logger.warn('Failed to kill pbi-tools', { pid: child.pid, error });
+  }
+}
+
 export const pbiToolsService = new PBIToolsService();
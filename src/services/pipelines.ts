@@ -0,0 +1,192 @@
+import {
+  powerbiClient,
+  type DeployOptions,
+  type PipelineArtifactType,
+  type PipelineOperation,
+  type SelectiveDeployRequest,
+} from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { pollUntil } from '../utils/poll.js';
+import type { TaskContext } from '../utils/task.js';
+
+export interface DeployPipelineOptions {
+  pipelineId: string;
+  sourceStageOrder: number;
+  artifacts?: Partial<Record<PipelineArtifactType, string[]>>;
+  isBackwardDeployment?: boolean;
+  newWorkspace?: { name: string; capacityId?: string };
+  updateAppInTargetWorkspace?: boolean;
+  options?: DeployOptions;
+  note?: string;
+  waitForCompletion?: boolean;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface WaitForDeploymentOptions {
+  pipelineId: string;
+  operationId: string;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface DeploymentArtifactResult {
+  type: string;
+  status: string;
+  sourceId?: string;
+  targetId?: string;
+  displayName?: string;
+  error?: { errorCode?: string; errorDetails?: string };
+}
+
+export interface DeploymentOutcome {
+  operationId: string;
+  status: PipelineOperation['status'];
+  finished: boolean;
+  succeeded: boolean;
+  sourceStageOrder?: number;
+  targetStageOrder?: number;
+  startTime?: string;
+  endTime?: string;
+  artifacts: DeploymentArtifactResult[];
+}
+
+const ARTIFACT_TYPES: PipelineArtifactType[] = [
+  'datasets',
+  'reports',
+  'dashboards',
+  'dataflows',
+  'datamarts',
+];
+
+export class PipelineService {
+  /**
+   * A pipeline with its stages and the artifacts deployed to each stage
+   */
+  async getPipelineWithArtifacts(pipelineId: string) {
+    const pipeline = await powerbiClient.getPipeline(pipelineId);
+    const stages = pipeline.stages || (await powerbiClient.getPipelineStages(pipelineId)).value;
+
+    return {
+      ...pipeline,
+      stages: await Promise.all(
+        stages.map(async (stage) => ({
+          ...stage,
+          // Stages without an assigned workspace have no artifacts
+          artifacts: stage.workspaceId
+            ? await powerbiClient.getPipelineStageArtifacts(pipelineId, stage.order)
+            : {},
+        }))
+      ),
+    };
+  }
+
+  /**
+   * Deploy everything (no artifacts given) or selected artifacts from a stage to the next
+   * (or previous, for backward deployments) stage
+   */
+  async deploy(options: DeployPipelineOptions, context: TaskContext = {}) {
+    const { pipelineId, artifacts, waitForCompletion, pollIntervalSeconds, timeoutSeconds } =
+      options;
+
+    const request = {
+      sourceStageOrder: options.sourceStageOrder,
+      isBackwardDeployment: options.isBackwardDeployment,
+      newWorkspace: options.newWorkspace,
+      updateAppSettings:
+        options.updateAppInTargetWorkspace !== undefined
+          ? { updateAppInTargetWorkspace: options.updateAppInTargetWorkspace }
+          : undefined,
+      options: options.options,
+      note: options.note,
+    };
+
+    const selective = artifacts && ARTIFACT_TYPES.some((type) => artifacts[type]?.length);
+
+    logger.info('Starting pipeline deployment', {
+      pipelineId,
+      sourceStageOrder: options.sourceStageOrder,
+      selective,
+    });
+
+    let operation: PipelineOperation;
+    if (selective) {
+      const selectiveRequest: SelectiveDeployRequest = { ...request };
+      for (const type of ARTIFACT_TYPES) {
+        if (artifacts[type]?.length) {
+          selectiveRequest[type] = artifacts[type]!.map((sourceId) => ({ sourceId }));
+        }
+      }
+      operation = await powerbiClient.selectiveDeploy(pipelineId, selectiveRequest);
+    } else {
+      operation = await powerbiClient.deployAll(pipelineId, request);
+    }
+
+    if (!waitForCompletion) {
+      return this.toOutcome(operation);
+    }
+
+    return this.waitForDeployment(
+      { pipelineId, operationId: operation.id, pollIntervalSeconds, timeoutSeconds },
+      context
+    );
+  }
+
+  /**
+   * Poll a deployment operation until it succeeds or fails
+   */
+  async waitForDeployment(
+    options: WaitForDeploymentOptions,
+    context: TaskContext = {}
+  ): Promise<DeploymentOutcome> {
+    const { pipelineId, operationId, pollIntervalSeconds = 10, timeoutSeconds = 3600 } = options;
+
+    logger.info('Waiting for pipeline deployment', { pipelineId, operationId });
+
+    const outcome = await pollUntil(
+      () => this.getDeploymentStatus(pipelineId, operationId),
+      (status) => status.finished,
+      {
+        intervalMs: pollIntervalSeconds * 1000,
+        timeoutMs: timeoutSeconds * 1000,
+        description: `deployment ${operationId}`,
+        status: (status) => status.status,
+        ...context,
+      }
+    );
+
+    logger.info('Pipeline deployment finished', { operationId, status: outcome.status });
+    return outcome;
+  }
+
+  async getDeploymentStatus(pipelineId: string, operationId: string): Promise<DeploymentOutcome> {
+    return this.toOutcome(await powerbiClient.getPipelineOperation(pipelineId, operationId));
+  }
+
+  private toOutcome(operation: PipelineOperation): DeploymentOutcome {
+    const finished = operation.status === 'Succeeded' || operation.status === 'Failed';
+
+    return {
+      operationId: operation.id,
+      status: operation.status,
+      finished,
+      succeeded: operation.status === 'Succeeded',
+      sourceStageOrder: operation.sourceStageOrder,
+      targetStageOrder: operation.targetStageOrder,
+      startTime: operation.executionStartTime,
+      endTime: operation.executionEndTime,
+      // Each execution plan step deploys one artifact
+      artifacts: (operation.executionPlan?.steps || []).map((step) => ({
+        type: step.type,
+        status: step.status,
+        sourceId: step.sourceAndTarget?.source,
+        targetId: step.sourceAndTarget?.target,
+        displayName:
+          step.sourceAndTarget?.sourceDisplayName ?? step.sourceAndTarget?.targetDisplayName,
+        error: step.error,
+      })),
+    };
+  }
+}
+
+export const pipelineService = new PipelineService();
@@ -1,12 +1,412 @@
-import axios, { type AxiosInstance, type AxiosRequestConfig } from 'axios';
+import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from 'axios';
 import FormData from 'form-data';
+import { Stream, type Readable } from 'stream';
 import { getAccessToken } from '../auth/msal.js';
 import { logger } from '../utils/logger.js';
 import { PowerBIError } from '../utils/errors.js';
+import {
+  collectColumns,
+  toCsv,
+  toMarkdownTable,
+  type TabularFormat,
+  type TabularRow,
+} from '../utils/tabular.js';
 
 const POWERBI_API_BASE = 'https://api.powerbi.com/v1.0/myorg';
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000;
+const DEFAULT_DAX_MAX_ROWS = 1000;
+
+export interface DaxQueryOptions {
+  query: string;
+  impersonatedUserName?: string;
+  maxRows?: number;
+  includeNulls?: boolean;
+  format?: TabularFormat;
+}
+
+export interface DaxQueryResult {
+  columns: string[];
+  rowCount: number;
+  truncated: boolean;
+  format: TabularFormat;
+  rows?: TabularRow[];
+  text?: string;
+}
+
+export type RefreshType =
+  'Full' | 'ClearValues' | 'Calculate' | 'DataOnly' | 'Automatic' | 'Defragment';
+
+export interface RefreshObject {
+  table: string;
+  partition?: string;
+}
+
+export interface RefreshDatasetOptions {
+  notifyOption?: string;
+  type?: RefreshType;
+  commitMode?: 'transactional' | 'partialBatch';
+  maxParallelism?: number;
+  retryCount?: number;
+  objects?: RefreshObject[];
+  applyRefreshPolicy?: boolean;
+  effectiveDate?: string;
+  timeout?: string;
+}
+
+export interface RefreshRequest {
+  requestId: string | null;
+  location: string | null;
+}
+
+export type WeekDay =
+  'Sunday' | 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday';
+
+export interface RefreshSchedule {
+  days?: WeekDay[];
+  times?: string[];
+  enabled?: boolean;
+  localTimeZoneId?: string;
+  notifyOption?: 'MailOnFailure' | 'NoNotification';
+}
+
+export interface DirectQueryRefreshSchedule {
+  // Minutes between cache refreshes; mutually exclusive with days/times
+  frequency?: number;
+  days?: WeekDay[];
+  times?: string[];
+  localTimeZoneId?: string;
+}
+
+export type ImportNameConflict =
+  | 'Abort'
+  | 'Overwrite'
+  | 'GenerateUniqueName'
+  | 'CreateOrOverwrite'
+  | 'Ignore';
+
+export interface PowerBIImport {
+  id: string;
+  name?: string;
+  importState?: 'Publishing' | 'Succeeded' | 'Failed';
+  createdDateTime?: string;
+  updatedDateTime?: string;
+  reports?: Array<{ id: string; name: string; webUrl?: string; embedUrl?: string }>;
+  datasets?: Array<{ id: string; name: string; webUrl?: string }>;
+  error?: { code?: string; details?: unknown; message?: string };
+}
+
+export type ExportFormat = 'PDF' | 'PPTX' | 'PNG';
+
+export interface EffectiveIdentity {
+  username: string;
+  roles?: string[];
+  datasets?: string[];
+  customData?: string;
+}
+
+export interface ExportReportRequest {
+  format: ExportFormat;
+  powerBIReportConfiguration?: {
+    pages?: Array<{
+      pageName: string;
+      visualName?: string;
+      bookmark?: { name?: string; state?: string };
+    }>;
+    defaultBookmark?: { name?: string; state?: string };
+    reportLevelFilters?: Array<{ filter: string }>;
+    identities?: EffectiveIdentity[];
+    settings?: { locale?: string; includeHiddenPages?: boolean };
+  };
+}
+
+export interface Dashboard {
+  id: string;
+  displayName: string;
+  isReadOnly?: boolean;
+  webUrl?: string;
+  embedUrl?: string;
+}
+
+export interface DashboardTile {
+  id: string;
+  title?: string;
+  subTitle?: string;
+  reportId?: string;
+  datasetId?: string;
+  embedUrl?: string;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+export interface CloneTileRequest {
+  targetDashboardId: string;
+  // Defaults to the source workspace
+  targetWorkspaceId?: string;
+  // Rebind report tiles to this report
+  targetReportId?: string;
+  // Rebind dataset tiles (e.g. Q&A, streaming) to this dataset
+  targetModelId?: string;
+  // Tail places the tile after the existing ones when its position is taken
+  positionConflictAction?: 'Tail' | 'Abort';
+}
+
+export interface Dataflow {
+  objectId: string;
+  name: string;
+  description?: string;
+  configuredBy?: string;
+  modifiedDateTime?: string;
+}
+
+export interface DatasetToDataflowLink {
+  datasetObjectId: string;
+  dataflowObjectId: string;
+  workspaceObjectId: string;
+}
+
+export type TokenAccessLevel = 'View' | 'Edit' | 'Create';
+
+export interface EmbedToken {
+  token: string;
+  tokenId: string;
+  expiration: string;
+}
+
+export interface GenerateTokenRequest {
+  accessLevel?: TokenAccessLevel;
+  // Required for Create; for View/Edit only when embedding with a different dataset
+  datasetId?: string;
+  allowSaveAs?: boolean;
+  identities?: EffectiveIdentity[];
+  lifetimeInMinutes?: number;
+}
+
+export interface GenerateTokenV2Request {
+  reports?: Array<{ id: string; allowEdit?: boolean }>;
+  datasets?: Array<{ id: string; xmlaPermissions?: 'Off' | 'ReadOnly' }>;
+  targetWorkspaces?: Array<{ id: string }>;
+  identities?: EffectiveIdentity[];
+  lifetimeInMinutes?: number;
+}
+
+export interface ReportExport {
+  id: string;
+  status: 'NotStarted' | 'Running' | 'Succeeded' | 'Failed' | 'Undefined';
+  percentComplete?: number;
+  reportId?: string;
+  reportName?: string;
+  resourceFileExtension?: string;
+  resourceLocation?: string;
+  expirationTime?: string;
+  lastActionDateTime?: string;
+}
+
+export interface Pipeline {
+  id: string;
+  displayName: string;
+  description?: string;
+  stages?: PipelineStage[];
+}
+
+export interface PipelineStage {
+  order: number;
+  workspaceId?: string;
+  workspaceName?: string;
+}
+
+export type PipelineArtifactType =
+  'datasets' | 'reports' | 'dashboards' | 'dataflows' | 'datamarts';
+
+export interface PipelineStageArtifact {
+  artifactId: string;
+  artifactDisplayName: string;
+  sourceArtifactId?: string;
+  targetArtifactId?: string;
+  lastDeploymentTime?: string;
+}
+
+export type PipelineStageArtifacts = Partial<Record<PipelineArtifactType, PipelineStageArtifact[]>>;
+
+export interface DeployOptions {
+  allowCreateArtifact?: boolean;
+  allowOverwriteArtifact?: boolean;
+  allowOverwriteTargetArtifactLabel?: boolean;
+  allowPurgeData?: boolean;
+  allowSkipTilesWithMissingPrerequisites?: boolean;
+  allowTakeOver?: boolean;
+}
+
+interface DeployRequestBase {
+  sourceStageOrder: number;
+  isBackwardDeployment?: boolean;
+  newWorkspace?: { name: string; capacityId?: string };
+  updateAppSettings?: { updateAppInTargetWorkspace?: boolean };
+  options?: DeployOptions;
+  note?: string;
+}
+
+export type DeployAllRequest = DeployRequestBase;
+
+export type SelectiveDeployRequest = DeployRequestBase &
+  Partial<Record<PipelineArtifactType, Array<{ sourceId: string; options?: DeployOptions }>>>;
+
+export interface PipelineOperation {
+  id: string;
+  type?: string;
+  status: 'NotStarted' | 'Executing' | 'Succeeded' | 'Failed';
+  lastUpdatedTime?: string;
+  executionStartTime?: string;
+  executionEndTime?: string;
+  sourceStageOrder?: number;
+  targetStageOrder?: number;
+  note?: { content?: string };
+  executionPlan?: {
+    steps?: Array<{
+      index: number;
+      type: string;
+      status: 'NotStarted' | 'Executing' | 'Succeeded' | 'Failed';
+      sourceAndTarget?: {
+        source?: string;
+        target?: string;
+        sourceDisplayName?: string;
+        targetDisplayName?: string;
+      };
+      error?: { errorCode?: string; errorDetails?: string };
+    }>;
+  };
+}
+
+export type WorkspaceRole = 'Admin' | 'Member' | 'Contributor' | 'Viewer';
+
+export type PrincipalType = 'User' | 'Group' | 'App';
+
+export type DatasetAccessRight = 'Read' | 'ReadReshare' | 'ReadExplore' | 'ReadReshareExplore';
+
+export interface WorkspaceUser {
+  identifier: string;
+  principalType: PrincipalType;
+  groupUserAccessRight: WorkspaceRole;
+  emailAddress?: string;
+  displayName?: string;
+}
+
+export interface DatasetUser {
+  identifier: string;
+  principalType: PrincipalType;
+  // 'None' in an update removes the permission
+  datasetUserAccessRight: DatasetAccessRight | 'None';
+}
+
+export interface Datasource {
+  datasourceType: string;
+  connectionDetails: Record<string, string>;
+  datasourceId?: string;
+  gatewayId?: string;
+}
+
+export interface Gateway {
+  id: string;
+  name: string;
+  type: string;
+  publicKey?: { exponent: string; modulus: string };
+  gatewayStatus?: string;
+}
+
+export type CredentialType = 'Anonymous' | 'Basic' | 'Key' | 'OAuth2' | 'Windows' | 'SAS';
+
+export type PrivacyLevel = 'None' | 'Public' | 'Organizational' | 'Private';
+
+export interface CredentialDetails {
+  credentialType: CredentialType;
+  credentials: string;
+  encryptedConnection: 'Encrypted' | 'NotEncrypted';
+  encryptionAlgorithm: 'RSA-OAEP' | 'None';
+  privacyLevel: PrivacyLevel;
+  useCallerAADIdentity?: boolean;
+  useEndUserOAuth2Credentials?: boolean;
+}
+
+export interface ModifiedWorkspacesOptions {
+  modifiedSince?: string;
+  excludePersonalWorkspaces?: boolean;
+  excludeInActiveWorkspaces?: boolean;
+}
+
+export interface WorkspaceInfoOptions {
+  lineage?: boolean;
+  datasourceDetails?: boolean;
+  datasetSchema?: boolean;
+  datasetExpressions?: boolean;
+  getArtifactUsers?: boolean;
+}
+
+export interface WorkspaceScan {
+  id: string;
+  createdDateTime?: string;
+  status: 'NotStarted' | 'Running' | 'Succeeded' | 'Failed';
+  error?: { code?: string; message?: string };
+}
+
+export interface ScannedDatasourceInstance {
+  datasourceType: string;
+  connectionDetails?: Record<string, string>;
+  datasourceId: string;
+  gatewayId?: string;
+}
+
+interface DatasourceUsages {
+  datasourceUsages?: Array<{ datasourceInstanceId: string }>;
+  misconfiguredDatasourceUsages?: Array<{ datasourceInstanceId: string }>;
+}
+
+export interface ScannedDataset extends DatasourceUsages {
+  id: string;
+  name: string;
+  configuredBy?: string;
+  targetStorageMode?: string;
+  createdDate?: string;
+  contentProviderType?: string;
+  tables?: Array<{
+    name: string;
+    isHidden?: boolean;
+    columns?: Array<{ name: string; dataType?: string; isHidden?: boolean; expression?: string }>;
+    measures?: Array<{ name: string; expression?: string; isHidden?: boolean }>;
+    source?: Array<{ expression: string }>;
+  }>;
+  upstreamDataflows?: Array<{ targetDataflowId: string; groupId: string }>;
+}
+
+export interface ScannedWorkspace {
+  id: string;
+  name?: string;
+  type?: string;
+  state?: string;
+  isOnDedicatedCapacity?: boolean;
+  capacityId?: string;
+  reports?: Array<{ id: string; name: string; datasetId?: string; reportType?: string }>;
+  dashboards?: Array<{
+    id: string;
+    displayName: string;
+    tiles?: Array<{ id: string; title?: string; reportId?: string; datasetId?: string }>;
+  }>;
+  datasets?: ScannedDataset[];
+  dataflows?: Array<DatasourceUsages & { objectId: string; name: string; configuredBy?: string }>;
+}
+
+export interface ScanResult {
+  workspaces: ScannedWorkspace[];
+  datasourceInstances?: ScannedDatasourceInstance[];
+  misconfiguredDatasourceInstances?: ScannedDatasourceInstance[];
+}
+
+interface ExecuteQueriesResponse {
+  results?: Array<{
+    tables?: Array<{ rows?: TabularRow[] }>;
+    error?: { code?: string; message?: string };
+  }>;
+  error?: { code?: string; message?: string };
+}
 
 export class PowerBIClient {
   private client: AxiosInstance;
@@ -41,7 +441,10 @@ export class PowerBIClient {
           data: response?.data,
         });
 
-        if (response && (response.status === 429 || response.status >= 500)) {
+        // A stream body (multipart uploads) is consumed by the first attempt and can't be replayed
+        const replayable = !(originalRequest?.data instanceof Stream);
+
+        if (replayable && response && (response.status === 429 || response.status >= 500)) {
           const retryCount = originalRequest._retry || 0;
           if (retryCount < MAX_RETRIES) {
             originalRequest._retry = retryCount + 1;
@@ -58,9 +461,16 @@ export class PowerBIClient {
   }
 
   async request<T = unknown>(config: AxiosRequestConfig): Promise<T> {
+    const response = await this.requestRaw<T>(config);
+    return response.data;
+  }
+
+  /**
+   * Like `request`, but resolves with the full response (headers, status)
+   */
+  async requestRaw<T = unknown>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
     try {
-      const response = await this.client.request<T>(config);
-      return response.data;
+      return await this.client.request<T>(config);
     } catch (error: unknown) {
       if (axios.isAxiosError(error) && error.response) {
         throw new PowerBIError(
@@ -86,6 +496,32 @@ export class PowerBIClient {
     return this.request({ method: 'POST', url: '/groups', data: { name } });
   }
 
+  // --- Workspace Access ---
+  async listWorkspaceUsers(workspaceId: string) {
+    return this.request<{ value: WorkspaceUser[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/users`,
+    });
+  }
+
+  async addWorkspaceUser(workspaceId: string, user: WorkspaceUser) {
+    return this.request({ method: 'POST', url: `/groups/${workspaceId}/users`, data: user });
+  }
+
+  async updateWorkspaceUser(workspaceId: string, user: WorkspaceUser) {
+    return this.request({ method: 'PUT', url: `/groups/${workspaceId}/users`, data: user });
+  }
+
+  /**
+   * Remove a user (email address) or a group/app (object ID) from a workspace
+   */
+  async removeWorkspaceUser(workspaceId: string, identifier: string) {
+    return this.request({
+      method: 'DELETE',
+      url: `/groups/${workspaceId}/users/${encodeURIComponent(identifier)}`,
+    });
+  }
+
   // --- Reports ---
   async listReports(workspaceId?: string) {
     const url = workspaceId ? `/groups/${workspaceId}/reports` : '/reports';
@@ -111,6 +547,55 @@ export class PowerBIClient {
     });
   }
 
+  /**
+   * Report permissions are only exposed through the admin API
+   */
+  async listReportUsers(reportId: string) {
+    return this.request({ method: 'GET', url: `/admin/reports/${reportId}/users` });
+  }
+
+  // --- Embedding ---
+  async generateReportToken(workspaceId: string, reportId: string, request: GenerateTokenRequest) {
+    return this.request<EmbedToken>({
+      method: 'POST',
+      url: `/groups/${workspaceId}/reports/${reportId}/GenerateToken`,
+      data: request,
+    });
+  }
+
+  /**
+   * Multi-resource embed token (reports, datasets and workspaces in one token)
+   */
+  async generateToken(request: GenerateTokenV2Request) {
+    return this.request<EmbedToken>({ method: 'POST', url: '/GenerateToken', data: request });
+  }
+
+  // --- Report Export ---
+  async exportReport(workspaceId: string, reportId: string, request: ExportReportRequest) {
+    return this.request<ReportExport>({
+      method: 'POST',
+      url: `/groups/${workspaceId}/reports/${reportId}/ExportTo`,
+      data: request,
+    });
+  }
+
+  async getExportStatus(workspaceId: string, reportId: string, exportId: string) {
+    return this.request<ReportExport>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/reports/${reportId}/exports/${exportId}`,
+    });
+  }
+
+  async getExportFile(workspaceId: string, reportId: string, exportId: string) {
+    const response = await this.requestRaw<Readable>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/reports/${reportId}/exports/${exportId}/file`,
+      responseType: 'stream',
+      timeout: 0,
+    });
+    return response.data;
+  }
+
   // --- Datasets ---
   async listDatasets(workspaceId?: string) {
     const url = workspaceId ? `/groups/${workspaceId}/datasets` : '/datasets';
@@ -121,11 +606,37 @@ export class PowerBIClient {
     return this.request({ method: 'GET', url: `/groups/${workspaceId}/datasets/${datasetId}` });
   }
 
-  async refreshDataset(workspaceId: string, datasetId: string, notifyOption?: string) {
-    return this.request({
+  async refreshDataset(
+    workspaceId: string,
+    datasetId: string,
+    options: RefreshDatasetOptions = {}
+  ): Promise<RefreshRequest> {
+    const response = await this.requestRaw({
       method: 'POST',
       url: `/groups/${workspaceId}/datasets/${datasetId}/refreshes`,
-      data: { notifyOption },
+      data: options,
+    });
+
+    // The refresh id is the RequestId header, and the last segment of
+    // Location: .../datasets/{datasetId}/refreshes/{requestId}
+    const location = (response.headers['location'] as string | undefined) || null;
+    const requestId =
+      (response.headers['requestid'] as string | undefined) || location?.split('/').pop() || null;
+
+    return { requestId, location };
+  }
+
+  async getRefreshExecutionDetails(workspaceId: string, datasetId: string, refreshId: string) {
+    return this.request({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/refreshes/${refreshId}`,
+    });
+  }
+
+  async cancelRefresh(workspaceId: string, datasetId: string, refreshId: string) {
+    return this.request({
+      method: 'DELETE',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/refreshes/${refreshId}`,
     });
   }
 
@@ -150,22 +661,389 @@ export class PowerBIClient {
     });
   }
 
+  async getRefreshSchedule(workspaceId: string, datasetId: string) {
+    return this.request<RefreshSchedule>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/refreshSchedule`,
+    });
+  }
+
+  async updateRefreshSchedule(workspaceId: string, datasetId: string, schedule: RefreshSchedule) {
+    return this.request({
+      method: 'PATCH',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/refreshSchedule`,
+      data: { value: schedule },
+    });
+  }
+
+  async getDirectQueryRefreshSchedule(workspaceId: string, datasetId: string) {
+    return this.request<DirectQueryRefreshSchedule>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/directQueryRefreshSchedule`,
+    });
+  }
+
+  async updateDirectQueryRefreshSchedule(
+    workspaceId: string,
+    datasetId: string,
+    schedule: DirectQueryRefreshSchedule
+  ) {
+    return this.request({
+      method: 'PATCH',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/directQueryRefreshSchedule`,
+      data: { value: schedule },
+    });
+  }
+
+  // --- Dataset Access ---
+  async listDatasetUsers(workspaceId: string, datasetId: string) {
+    return this.request<{ value: DatasetUser[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/users`,
+    });
+  }
+
+  /**
+   * Grant a permission; existing permissions of the principal are kept
+   */
+  async grantDatasetUser(workspaceId: string, datasetId: string, user: DatasetUser) {
+    return this.request({
+      method: 'POST',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/users`,
+      data: user,
+    });
+  }
+
+  /**
+   * Replace the principal's permissions with the given access right
+   */
+  async updateDatasetUser(workspaceId: string, datasetId: string, user: DatasetUser) {
+    return this.request({
+      method: 'PUT',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/users`,
+      data: user,
+    });
+  }
+
+  // --- Dashboards ---
+  async listDashboards(workspaceId?: string) {
+    const url = workspaceId ? `/groups/${workspaceId}/dashboards` : '/dashboards';
+    return this.request<{ value: Dashboard[] }>({ method: 'GET', url });
+  }
+
+  async getDashboard(workspaceId: string, dashboardId: string) {
+    return this.request<Dashboard>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/dashboards/${dashboardId}`,
+    });
+  }
+
+  async createDashboard(workspaceId: string, name: string) {
+    return this.request<Dashboard>({
+      method: 'POST',
+      url: `/groups/${workspaceId}/dashboards`,
+      data: { name },
+    });
+  }
+
+  async listDashboardTiles(workspaceId: string, dashboardId: string) {
+    return this.request<{ value: DashboardTile[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/dashboards/${dashboardId}/tiles`,
+    });
+  }
+
+  async getDashboardTile(workspaceId: string, dashboardId: string, tileId: string) {
+    return this.request<DashboardTile>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/dashboards/${dashboardId}/tiles/${tileId}`,
+    });
+  }
+
+  /**
+   * Copy a tile to another dashboard, optionally rebinding it to a different report or dataset
+   */
+  async cloneDashboardTile(
+    workspaceId: string,
+    dashboardId: string,
+    tileId: string,
+    request: CloneTileRequest
+  ) {
+    return this.request<DashboardTile>({
+      method: 'POST',
+      url: `/groups/${workspaceId}/dashboards/${dashboardId}/tiles/${tileId}/Clone`,
+      data: request,
+    });
+  }
+
+  // --- Dataflows ---
+  async listDataflows(workspaceId: string) {
+    return this.request<{ value: Dataflow[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/dataflows`,
+    });
+  }
+
+  async getDataflowUpstreamDataflows(workspaceId: string, dataflowId: string) {
+    return this.request<{ value: Array<{ targetDataflowId: string; groupId: string }> }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/dataflows/${dataflowId}/upstreamDataflows`,
+    });
+  }
+
+  /**
+   * Dataflows feeding the datasets of a workspace
+   */
+  async getDatasetUpstreamDataflows(workspaceId: string) {
+    return this.request<{ value: DatasetToDataflowLink[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/upstreamDataflows`,
+    });
+  }
+
+  // --- Datasources & Gateways ---
+  async listDatasources(workspaceId: string, datasetId: string) {
+    return this.request<{ value: Datasource[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/datasources`,
+    });
+  }
+
+  async discoverGateways(workspaceId: string, datasetId: string) {
+    return this.request<{ value: Gateway[] }>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/Default.DiscoverGateways`,
+    });
+  }
+
+  async bindToGateway(
+    workspaceId: string,
+    datasetId: string,
+    gatewayObjectId: string,
+    datasourceObjectIds?: string[]
+  ) {
+    return this.request({
+      method: 'POST',
+      url: `/groups/${workspaceId}/datasets/${datasetId}/Default.BindToGateway`,
+      data: { gatewayObjectId, datasourceObjectIds },
+    });
+  }
+
+  async listGateways() {
+    return this.request<{ value: Gateway[] }>({ method: 'GET', url: '/gateways' });
+  }
+
+  async getGateway(gatewayId: string) {
+    return this.request<Gateway>({ method: 'GET', url: `/gateways/${gatewayId}` });
+  }
+
+  async listGatewayDatasources(gatewayId: string) {
+    return this.request({ method: 'GET', url: `/gateways/${gatewayId}/datasources` });
+  }
+
+  async updateDatasourceCredentials(
+    gatewayId: string,
+    datasourceId: string,
+    credentialDetails: CredentialDetails
+  ) {
+    return this.request({
+      method: 'PATCH',
+      url: `/gateways/${gatewayId}/datasources/${datasourceId}`,
+      data: { credentialDetails },
+    });
+  }
+
+  // --- DAX Queries ---
+  async executeDaxQuery(
+    workspaceId: string | undefined,
+    datasetId: string,
+    options: DaxQueryOptions
+  ): Promise<DaxQueryResult> {
+    const {
+      query,
+      impersonatedUserName,
+      maxRows = DEFAULT_DAX_MAX_ROWS,
+      includeNulls = true,
+      format = 'json',
+    } = options;
+
+    const url = workspaceId
+      ? `/groups/${workspaceId}/datasets/${datasetId}/executeQueries`
+      : `/datasets/${datasetId}/executeQueries`;
+
+    const response = await this.request<ExecuteQueriesResponse>({
+      method: 'POST',
+      url,
+      data: {
+        queries: [{ query }],
+        serializerSettings: { includeNulls },
+        ...(impersonatedUserName ? { impersonatedUserName } : {}),
+      },
+    });
+
+    const result = response.results?.[0];
+    const queryError = response.error || result?.error;
+    if (queryError) {
+      throw new PowerBIError(queryError.message || 'DAX query failed', 400, queryError);
+    }
+
+    const allRows = result?.tables?.[0]?.rows || [];
+    const rows = allRows.slice(0, maxRows);
+    const columns = collectColumns(allRows);
+    const base = {
+      columns,
+      rowCount: allRows.length,
+      truncated: allRows.length > rows.length,
+      format,
+    };
+
+    if (format === 'csv') return { ...base, text: toCsv(columns, rows) };
+    if (format === 'markdown') return { ...base, text: toMarkdownTable(columns, rows) };
+    return { ...base, rows };
+  }
+
   // --- Import PBIX / PBIR ---
   async importFile(
     workspaceId: string,
-    file: Buffer,
+    file: Buffer | Readable,
     fileName: string,
-    nameConflict: 'Abort' | 'Overwrite' | 'GenerateUniqueName' = 'GenerateUniqueName'
+    nameConflict: ImportNameConflict = 'GenerateUniqueName',
+    options: { datasetDisplayName?: string; knownLength?: number } = {}
   ) {
     const formData = new FormData();
-    formData.append('file', file, fileName);
+    formData.append('file', file, { filename: fileName, knownLength: options.knownLength });
 
-    return this.request({
+    return this.request<PowerBIImport>({
       method: 'POST',
       url: `/groups/${workspaceId}/imports`,
-      params: { datasetDisplayName: fileName, nameConflict },
+      params: { datasetDisplayName: options.datasetDisplayName || fileName, nameConflict },
       data: formData,
       headers: formData.getHeaders(),
+      timeout: 0,
+      maxBodyLength: Infinity,
+    });
+  }
+
+  /**
+   * Import a file previously uploaded to a temporary upload location
+   */
+  async importFromUrl(
+    workspaceId: string,
+    fileUrl: string,
+    datasetDisplayName: string,
+    nameConflict: ImportNameConflict = 'GenerateUniqueName'
+  ) {
+    return this.request<PowerBIImport>({
+      method: 'POST',
+      url: `/groups/${workspaceId}/imports`,
+      params: { datasetDisplayName, nameConflict },
+      data: { fileUrl },
+    });
+  }
+
+  async createTemporaryUploadLocation(workspaceId: string) {
+    return this.request<{ url: string; expirationTime: string }>({
+      method: 'POST',
+      url: `/groups/${workspaceId}/imports/createTemporaryUploadLocation`,
+    });
+  }
+
+  async getImport(workspaceId: string, importId: string) {
+    return this.request<PowerBIImport>({
+      method: 'GET',
+      url: `/groups/${workspaceId}/imports/${importId}`,
+    });
+  }
+
+  // --- Deployment Pipelines ---
+  async listPipelines() {
+    return this.request<{ value: Pipeline[] }>({ method: 'GET', url: '/pipelines' });
+  }
+
+  async getPipeline(pipelineId: string) {
+    return this.request<Pipeline>({
+      method: 'GET',
+      url: `/pipelines/${pipelineId}`,
+      params: { $expand: 'stages' },
+    });
+  }
+
+  async getPipelineStages(pipelineId: string) {
+    return this.request<{ value: PipelineStage[] }>({
+      method: 'GET',
+      url: `/pipelines/${pipelineId}/stages`,
+    });
+  }
+
+  async getPipelineStageArtifacts(pipelineId: string, stageOrder: number) {
+    return this.request<PipelineStageArtifacts>({
+      method: 'GET',
+      url: `/pipelines/${pipelineId}/stages/${stageOrder}/artifacts`,
+    });
+  }
+
+  async deployAll(pipelineId: string, request: DeployAllRequest) {
+    return this.request<PipelineOperation>({
+      method: 'POST',
+      url: `/pipelines/${pipelineId}/deployAll`,
+      data: request,
+    });
+  }
+
+  async selectiveDeploy(pipelineId: string, request: SelectiveDeployRequest) {
+    return this.request<PipelineOperation>({
+      method: 'POST',
+      url: `/pipelines/${pipelineId}/deploy`,
+      data: request,
+    });
+  }
+
+  async listPipelineOperations(pipelineId: string) {
+    return this.request<{ value: PipelineOperation[] }>({
+      method: 'GET',
+      url: `/pipelines/${pipelineId}/operations`,
+    });
+  }
+
+  async getPipelineOperation(pipelineId: string, operationId: string) {
+    return this.request<PipelineOperation>({
+      method: 'GET',
+      url: `/pipelines/${pipelineId}/operations/${operationId}`,
+    });
+  }
+
+  // --- Admin: Workspace Scanner ---
+  async getModifiedWorkspaces(options: ModifiedWorkspacesOptions = {}) {
+    return this.request<Array<{ id: string }>>({
+      method: 'GET',
+      url: '/admin/workspaces/modified',
+      params: options,
+    });
+  }
+
+  /**
+   * Start a scan of up to 100 workspaces
+   */
+  async postWorkspaceInfo(workspaceIds: string[], options: WorkspaceInfoOptions = {}) {
+    return this.request<WorkspaceScan>({
+      method: 'POST',
+      url: '/admin/workspaces/getInfo',
+      params: options,
+      data: { workspaces: workspaceIds },
+    });
+  }
+
+  async getScanStatus(scanId: string) {
+    return this.request<WorkspaceScan>({
+      method: 'GET',
+      url: `/admin/workspaces/scanStatus/${scanId}`,
+    });
+  }
+
+  async getScanResult(scanId: string) {
+    return this.request<ScanResult>({
+      method: 'GET',
+      url: `/admin/workspaces/scanResult/${scanId}`,
     });
   }
 
@@ -0,0 +1,196 @@
+import { powerbiClient, type RefreshDatasetOptions } from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { PowerBIError } from '../utils/errors.js';
+import { pollUntil } from '../utils/poll.js';
+import type { TaskContext } from '../utils/task.js';
+
+export interface RefreshTarget {
+  workspaceId: string;
+  datasetId: string;
+}
+
+export interface WaitForRefreshOptions extends RefreshTarget {
+  requestId: string;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface StartRefreshOptions extends RefreshTarget, RefreshDatasetOptions {
+  waitForCompletion?: boolean;
+  pollIntervalSeconds?: number;
+  timeoutSeconds?: number;
+}
+
+export interface RefreshHistoryEntry {
+  requestId?: string;
+  id?: number;
+  refreshType?: string;
+  startTime?: string;
+  endTime?: string;
+  status?: string;
+  extendedStatus?: string;
+  serviceExceptionJson?: string;
+}
+
+export interface RefreshOutcome {
+  requestId: string;
+  status: string;
+  finished: boolean;
+  succeeded: boolean;
+  startTime?: string;
+  endTime?: string;
+  error?: unknown;
+  details?: unknown;
+}
+
+// Statuses after which the refresh will not change anymore
+const TERMINAL_STATUSES = new Set(['Completed', 'Failed', 'Cancelled', 'Disabled', 'TimedOut']);
+
+export class RefreshService {
+  /**
+   * Trigger a (standard or enhanced) refresh, optionally waiting for it to finish
+   */
+  async startRefresh(options: StartRefreshOptions, context: TaskContext = {}) {
+    const {
+      workspaceId,
+      datasetId,
+      waitForCompletion,
+      pollIntervalSeconds,
+      timeoutSeconds,
+      ...refreshOptions
+    } = options;
+
+    logger.info('Starting dataset refresh', { workspaceId, datasetId, refreshOptions });
+
+    const { requestId, location } = await powerbiClient.refreshDataset(
+      workspaceId,
+      datasetId,
+      refreshOptions
+    );
+
+    if (!waitForCompletion) {
+      return { requestId, location };
+    }
+
+    if (!requestId) {
+      throw new PowerBIError('Refresh was accepted but no request ID was returned', 502);
+    }
+
+    return this.waitForRefresh(
+      { workspaceId, datasetId, requestId, pollIntervalSeconds, timeoutSeconds },
+      context
+    );
+  }
+
+  /**
+   * Poll the refresh history until the given refresh reaches a terminal state
+   */
+  async waitForRefresh(
+    options: WaitForRefreshOptions,
+    context: TaskContext = {}
+  ): Promise<RefreshOutcome> {
+    const {
+      workspaceId,
+      datasetId,
+      requestId,
+      pollIntervalSeconds = 15,
+      timeoutSeconds = 3600,
+    } = options;
+
+    logger.info('Waiting for dataset refresh', { workspaceId, datasetId, requestId });
+
+    const outcome = await pollUntil(
+      () => this.getRefreshStatus({ workspaceId, datasetId, requestId }),
+      (status) => status.finished,
+      {
+        intervalMs: pollIntervalSeconds * 1000,
+        timeoutMs: timeoutSeconds * 1000,
+        description: `refresh ${requestId}`,
+        status: (outcome) => outcome.status,
+        ...context,
+      }
+    );
+
+    logger.info('Dataset refresh finished', { requestId, status: outcome.status });
+    return outcome;
+  }
+
+  /**
+   * Current status of a single refresh request
+   */
+  async getRefreshStatus(options: RefreshTarget & { requestId: string }): Promise<RefreshOutcome> {
+    const { workspaceId, datasetId, requestId } = options;
+
+    const entry = await this.findHistoryEntry(workspaceId, datasetId, requestId);
+
+    // A freshly queued refresh may not show up in the history yet
+    if (!entry) {
+      return { requestId, status: 'NotStarted', finished: false, succeeded: false };
+    }
+
+    // History reports in-progress refreshes as "Unknown"
+    const status =
+      entry.extendedStatus || (entry.status === 'Unknown' ? 'InProgress' : entry.status);
+    const finished = !!status && TERMINAL_STATUSES.has(status) && !!entry.endTime;
+
+    const outcome: RefreshOutcome = {
+      requestId,
+      status: status || 'Unknown',
+      finished,
+      succeeded: status === 'Completed',
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+    };
+
+    if (entry.serviceExceptionJson) {
+      outcome.error = this.parseServiceException(entry.serviceExceptionJson);
+    }
+
+    // Enhanced refreshes expose per-object progress and error messages
+    if (finished && !outcome.succeeded) {
+      try {
+        outcome.details = await powerbiClient.getRefreshExecutionDetails(
+          workspaceId,
+          datasetId,
+          requestId
+        );
+      } catch (error) {
+        logger.debug('No execution details for refresh', { requestId, error });
+      }
+    }
+
+    return outcome;
+  }
+
+  async getRefreshHistory(options: RefreshTarget & { top?: number }) {
+    return powerbiClient.getRefreshHistory(options.workspaceId, options.datasetId, options.top);
+  }
+
+  async cancelRefresh(options: RefreshTarget & { requestId: string }) {
+    const { workspaceId, datasetId, requestId } = options;
+    logger.info('Cancelling dataset refresh', { workspaceId, datasetId, requestId });
+    await powerbiClient.cancelRefresh(workspaceId, datasetId, requestId);
+    return { success: true, requestId };
+  }
+
+  private async findHistoryEntry(
+    workspaceId: string,
+    datasetId: string,
+    requestId: string
+  ): Promise<RefreshHistoryEntry | undefined> {
+    const history = (await powerbiClient.getRefreshHistory(workspaceId, datasetId, 20)) as {
+      value?: RefreshHistoryEntry[];
+    };
+    return history.value?.find((entry) => entry.requestId === requestId);
+  }
+
+  private parseServiceException(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return json;
+    }
+  }
+}
+
+export const refreshService = new RefreshService();
@@ -0,0 +1,527 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { fileExists, readJsonFile } from '../utils/fsx.js';
+import { asObject, asObjects, asString } from './model.js';
+
+export type ReportFormat = 'legacy' | 'pbir';
+
+/**
+ * A report inside a project: legacy layout (report.json, optionally with the
+ * pbi-tools config.json and sections/ folder next to it) or PBIR (definition/report.json).
+ * rootDir is the folder holding StaticResources.
+ */
+export interface ReportLocation {
+  format: ReportFormat;
+  rootDir: string;
+  reportFile: string;
+}
+
+export type ReportFieldKind = 'column' | 'measure' | 'hierarchyLevel';
+
+/**
+ * A model field a visual is bound to; role is the visual's data role (Values, Category, ...)
+ * or 'Filter' for visual-level filters
+ */
+export interface ReportField {
+  table: string;
+  name: string;
+  kind: ReportFieldKind;
+  role: string;
+  aggregation?: string;
+}
+
+export interface ReportVisual {
+  name: string;
+  page: string;
+  type: string;
+  title?: string;
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  isHidden: boolean;
+  parentGroup?: string;
+  fields: ReportField[];
+}
+
+export interface ReportPage {
+  name: string;
+  displayName: string;
+  ordinal: number;
+  width?: number;
+  height?: number;
+  isHidden: boolean;
+  visuals: ReportVisual[];
+}
+
+export interface ReportQueryOptions {
+  page?: string;
+  field?: string;
+}
+
+export interface ReportLayout {
+  format: ReportFormat;
+  path: string;
+  pages: ReportPage[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Find all report definitions (report.json) in a project
+ */
+export async function findReports(projectDir: string): Promise<ReportLocation[]> {
+  if (!(await fileExists(projectDir))) {
+    throw new ValidationError(`Project directory not found: ${projectDir}`);
+  }
+
+  const reportFiles = await findFilesByName(projectDir, 'report.json');
+
+  const locations: ReportLocation[] = [];
+  for (const reportFile of reportFiles) {
+    if (!reportFile.split(path.sep).includes('StaticResources')) {
+      locations.push(await toReportLocation(reportFile));
+    }
+  }
+  return locations;
+}
+
+export async function toReportLocation(reportFile: string): Promise<ReportLocation> {
+  const dir = path.dirname(reportFile);
+  if (path.basename(dir) === 'definition') {
+    return { format: 'pbir', rootDir: path.dirname(dir), reportFile };
+  }
+
+  // pbi-tools keeps StaticResources next to the Report folder rather than inside it
+  const projectDir = path.dirname(dir);
+  const rootDir = (await fileExists(path.join(projectDir, 'StaticResources'))) ? projectDir : dir;
+  return { format: 'legacy', rootDir, reportFile };
+}
+
+async function findFilesByName(dir: string, fileName: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(currentDir: string) {
+    const entries = await fs.readdir(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentDir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.git')) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile() && entry.name === fileName) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  await walk(dir);
+  return files.sort();
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Follow a path of object keys and array indexes, e.g. dig(config, 'layouts', 0, 'position')
+ */
+function dig(value: unknown, ...keys: Array<string | number>): unknown {
+  return keys.reduce<unknown>(
+    (current, key) =>
+      typeof key === 'number'
+        ? Array.isArray(current)
+          ? current[key]
+          : undefined
+        : asObject(current)[key],
+    value
+  );
+}
+
+/**
+ * Layout configs and filters are stored as JSON strings in report.json but as objects by
+ * pbi-tools
+ */
+function parseJsonValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseConfig(value: unknown): JsonObject {
+  return asObject(parseJsonValue(value));
+}
+
+/**
+ * Read a literal out of a query expression such as { expr: { Literal: { Value: "'Sales'" } } }
+ */
+function readLiteral(property: unknown): string | undefined {
+  const value = asString(dig(property, 'expr', 'Literal', 'Value'));
+  if (value === undefined) return undefined;
+  return value.startsWith("'") && value.endsWith("'")
+    ? value.slice(1, -1).replace(/''/g, "'")
+    : value;
+}
+
+// QueryAggregateFunction enum of the visual query language
+const AGGREGATIONS = [
+  'Sum',
+  'Avg',
+  'Count',
+  'Min',
+  'Max',
+  'CountNonNull',
+  'Median',
+  'StandardDeviation',
+  'Variance',
+];
+
+/**
+ * Resolve a field expression ({ Column | Measure | Aggregation | HierarchyLevel }) to a model
+ * field. Legacy queries reference tables through From aliases, PBIR names the entity directly.
+ */
+function readField(
+  value: unknown,
+  role: string,
+  aliases: Record<string, string> = {}
+): ReportField | undefined {
+  const expression = asObject(value);
+
+  const entityOf = (source: unknown): string | undefined => {
+    const ref = asObject(asObject(source).SourceRef);
+    const alias = asString(ref.Source);
+    return asString(ref.Entity) ?? (alias === undefined ? undefined : aliases[alias]);
+  };
+
+  if (expression.Aggregation) {
+    const aggregation = asObject(expression.Aggregation);
+    const field = readField(aggregation.Expression, role, aliases);
+    const index = asNumber(aggregation.Function);
+    return (
+      field && { ...field, aggregation: index === undefined ? undefined : AGGREGATIONS[index] }
+    );
+  }
+
+  for (const kind of ['Column', 'Measure'] as const) {
+    const node = asObject(expression[kind]);
+    const table = entityOf(node.Expression);
+    const name = asString(node.Property);
+    if (table && name) {
+      return { table, name, kind: kind === 'Column' ? 'column' : 'measure', role };
+    }
+  }
+
+  const level = asObject(expression.HierarchyLevel);
+  const hierarchy = asObject(dig(level, 'Expression', 'Hierarchy'));
+  const table = entityOf(hierarchy.Expression);
+  if (table) {
+    const name = `${asString(hierarchy.Hierarchy)}.${asString(level.Level)}`;
+    return { table, name, kind: 'hierarchyLevel', role };
+  }
+
+  return undefined;
+}
+
+function isField(field: ReportField | undefined): field is ReportField {
+  return field !== undefined;
+}
+
+function readFilterFields(filters: unknown, aliases: Record<string, string> = {}): ReportField[] {
+  return asObjects(parseJsonValue(filters))
+    .map((filter) => readField(filter.field ?? filter.expression, 'Filter', aliases))
+    .filter(isField);
+}
+
+/**
+ * Match a field reference such as "Gross Margin", "[Gross Margin]", "Sales[Amount]" or
+ * "'Sales'[Amount]" (case-insensitive)
+ */
+function matchesField(field: ReportField, reference: string): boolean {
+  const match = reference.trim().match(/^(?:'?(.*?)'?)?\[(.+)\]$/);
+  const table = match?.[1];
+  const name = match ? match[2] : reference.trim();
+
+  return (
+    field.name.toLowerCase() === name.toLowerCase() &&
+    (!table || field.table.toLowerCase() === table.toLowerCase())
+  );
+}
+
+function readTitle(objects: unknown): string | undefined {
+  return readLiteral(dig(objects, 'title', 0, 'properties', 'text'));
+}
+
+export class ReportService {
+  /**
+   * Read pages and visuals of the first report in a project (or a report folder/report.json)
+   */
+  async loadReport(projectPath: string): Promise<ReportLayout> {
+    const location = await this.locateReport(projectPath);
+    logger.debug('Loading report layout', location);
+
+    const pages =
+      location.format === 'pbir'
+        ? await this.readPbirPages(path.dirname(location.reportFile))
+        : await this.readLegacyPages(location.reportFile);
+
+    return {
+      format: location.format,
+      path: location.reportFile,
+      pages: pages.sort((a, b) => a.ordinal - b.ordinal),
+    };
+  }
+
+  /**
+   * Find the report definition inside a project
+   */
+  async locateReport(projectPath: string): Promise<ReportLocation> {
+    if (!(await fileExists(projectPath))) {
+      throw new ValidationError(`Project path not found: ${projectPath}`);
+    }
+
+    if ((await fs.stat(projectPath)).isFile()) {
+      return toReportLocation(projectPath);
+    }
+
+    const reports = await findReports(projectPath);
+    if (reports.length === 0) {
+      throw new ValidationError(
+        `No report found in ${projectPath} (expected report.json or definition/report.json)`
+      );
+    }
+    if (reports.length > 1) {
+      logger.warn('Multiple reports found, using the first', {
+        reports: reports.map((r) => r.reportFile),
+      });
+    }
+    return reports[0];
+  }
+
+  async listPages(projectPath: string) {
+    const report = await this.loadReport(projectPath);
+    return report.pages.map(({ visuals, ...page }) => ({
+      ...page,
+      visualCount: visuals.length,
+    }));
+  }
+
+  /**
+   * List visuals, optionally limited to one page (name or display name) and/or to
+   * visuals bound to a field
+   */
+  async listVisuals(projectPath: string, options: ReportQueryOptions = {}) {
+    const report = await this.loadReport(projectPath);
+
+    let pages = report.pages;
+    if (options.page) {
+      const wanted = options.page.toLowerCase();
+      pages = pages.filter(
+        (page) => page.name.toLowerCase() === wanted || page.displayName.toLowerCase() === wanted
+      );
+      if (pages.length === 0) {
+        throw new ValidationError(`Page not found: ${options.page}`);
+      }
+    }
+
+    const visuals = pages.flatMap((page) => page.visuals);
+    const { field } = options;
+    return field ? visuals.filter((v) => v.fields.some((f) => matchesField(f, field))) : visuals;
+  }
+
+  // --- Legacy layout (report.json sections, or pbi-tools sections/ folder) ---
+
+  private async readLegacyPages(reportFile: string): Promise<ReportPage[]> {
+    const report = await readJsonFile<JsonObject>(reportFile);
+
+    if (Array.isArray(report.sections)) {
+      return asObjects(report.sections).map((section, index) =>
+        this.toLegacyPage(section, asObjects(section.visualContainers), index)
+      );
+    }
+
+    const sectionsDir = path.join(path.dirname(reportFile), 'sections');
+    if (!(await fileExists(sectionsDir))) return [];
+
+    const pages: ReportPage[] = [];
+    for (const [index, dir] of (await this.listDirs(sectionsDir)).entries()) {
+      const section = await this.readJsonIfExists(path.join(dir, 'section.json'));
+      section.config ??= await this.readJsonIfExists(path.join(dir, 'config.json'));
+
+      const containers: JsonObject[] = [];
+      for (const containerDir of await this.listDirs(path.join(dir, 'visualContainers'))) {
+        const container = await this.readJsonIfExists(
+          path.join(containerDir, 'visualContainer.json')
+        );
+        container.config ??= await this.readJsonIfExists(path.join(containerDir, 'config.json'));
+        container.filters ??= await this.readJsonIfExists(path.join(containerDir, 'filters.json'));
+        containers.push(container);
+      }
+
+      pages.push(this.toLegacyPage(section, containers, index));
+    }
+    return pages;
+  }
+
+  private toLegacyPage(section: JsonObject, containers: JsonObject[], index: number): ReportPage {
+    const name = asString(section.name) ?? '';
+    const page: ReportPage = {
+      name,
+      displayName: asString(section.displayName) ?? name,
+      ordinal: asNumber(section.ordinal) ?? index,
+      width: asNumber(section.width),
+      height: asNumber(section.height),
+      // Hidden pages carry "visibility": 1 in the section config
+      isHidden: parseConfig(section.config).visibility === 1,
+      visuals: [],
+    };
+
+    page.visuals = containers.map((container) => this.toLegacyVisual(page.name, container));
+    return page;
+  }
+
+  private toLegacyVisual(pageName: string, container: JsonObject): ReportVisual {
+    const config = parseConfig(container.config);
+    const position = asObject(dig(config, 'layouts', 0, 'position'));
+    const single = asObject(config.singleVisual);
+    const group = asObject(config.singleVisualGroup);
+    // The container carries the current position, the config the one it was saved with
+    const coordinate = (key: string) => asNumber(container[key]) ?? asNumber(position[key]) ?? 0;
+
+    return {
+      name: asString(config.name) ?? '',
+      page: pageName,
+      type: asString(single.visualType) ?? (config.singleVisualGroup ? 'group' : 'unknown'),
+      title: readTitle(single.vcObjects) ?? asString(group.displayName),
+      x: coordinate('x'),
+      y: coordinate('y'),
+      z: coordinate('z'),
+      width: coordinate('width'),
+      height: coordinate('height'),
+      isHidden: dig(single, 'display', 'mode') === 'hidden' || group.isHidden === true,
+      parentGroup: asString(config.parentGroupName),
+      fields: this.readLegacyFields(single, container.filters),
+    };
+  }
+
+  /**
+   * Legacy visuals list queryRefs per role in projections and resolve them in prototypeQuery
+   */
+  private readLegacyFields(single: JsonObject, filters: unknown): ReportField[] {
+    const query = asObject(single.prototypeQuery);
+    const aliases: Record<string, string> = {};
+    for (const from of asObjects(query.From)) {
+      const [name, entity] = [asString(from.Name), asString(from.Entity)];
+      if (name !== undefined && entity !== undefined) aliases[name] = entity;
+    }
+    const selects = new Map<unknown, JsonObject>(
+      asObjects(query.Select).map((select) => [select.Name, select])
+    );
+
+    const fields: ReportField[] = [];
+    for (const [role, projections] of Object.entries(asObject(single.projections))) {
+      for (const projection of asObjects(projections)) {
+        const field = readField(selects.get(projection.queryRef), role, aliases);
+        if (field) fields.push(field);
+      }
+    }
+
+    return [...fields, ...readFilterFields(filters)];
+  }
+
+  // --- PBIR (definition/pages/<page>/visuals/<visual>/visual.json) ---
+
+  private async readPbirPages(definitionDir: string): Promise<ReportPage[]> {
+    const pagesDir = path.join(definitionDir, 'pages');
+    if (!(await fileExists(pagesDir))) return [];
+
+    const pagesMeta = await this.readJsonIfExists(path.join(pagesDir, 'pages.json'));
+    const pageOrder = Array.isArray(pagesMeta.pageOrder)
+      ? pagesMeta.pageOrder.filter((name): name is string => typeof name === 'string')
+      : [];
+
+    const pages: ReportPage[] = [];
+    for (const dir of await this.listDirs(pagesDir)) {
+      const pageFile = path.join(dir, 'page.json');
+      if (!(await fileExists(pageFile))) continue;
+
+      const pageJson = await readJsonFile<JsonObject>(pageFile);
+      const name = asString(pageJson.name) ?? path.basename(dir);
+      const order = pageOrder.indexOf(name);
+
+      const page: ReportPage = {
+        name,
+        displayName: asString(pageJson.displayName) ?? name,
+        ordinal: order === -1 ? pageOrder.length + pages.length : order,
+        width: asNumber(pageJson.width),
+        height: asNumber(pageJson.height),
+        isHidden: pageJson.visibility === 'HiddenInViewMode',
+        visuals: [],
+      };
+
+      for (const visualDir of await this.listDirs(path.join(dir, 'visuals'))) {
+        const visualFile = path.join(visualDir, 'visual.json');
+        if (await fileExists(visualFile)) {
+          page.visuals.push(this.toPbirVisual(name, await readJsonFile<JsonObject>(visualFile)));
+        }
+      }
+
+      pages.push(page);
+    }
+    return pages;
+  }
+
+  private toPbirVisual(pageName: string, visualJson: JsonObject): ReportVisual {
+    const position = asObject(visualJson.position);
+    const visual = asObject(visualJson.visual);
+    const coordinate = (key: string) => asNumber(position[key]) ?? 0;
+
+    return {
+      name: asString(visualJson.name) ?? '',
+      page: pageName,
+      type: asString(visual.visualType) ?? (visualJson.visualGroup ? 'group' : 'unknown'),
+      title:
+        readTitle(visual.visualContainerObjects) ??
+        asString(dig(visualJson, 'visualGroup', 'displayName')),
+      x: coordinate('x'),
+      y: coordinate('y'),
+      z: coordinate('z'),
+      width: coordinate('width'),
+      height: coordinate('height'),
+      isHidden: visualJson.isHidden === true,
+      parentGroup: asString(visualJson.parentGroupName),
+      fields: [
+        ...Object.entries(asObject(dig(visual, 'query', 'queryState'))).flatMap(([role, state]) =>
+          asObjects(asObject(state).projections)
+            .map((projection) => readField(projection.field, role))
+            .filter(isField)
+        ),
+        ...readFilterFields(dig(visualJson, 'filterConfig', 'filters')),
+      ],
+    };
+  }
+
+  // --- Helpers ---
+
+  private async readJsonIfExists(filePath: string): Promise<JsonObject> {
+    return (await fileExists(filePath)) ? readJsonFile<JsonObject>(filePath) : {};
+  }
+
+  private async listDirs(dir: string): Promise<string[]> {
+    if (!(await fileExists(dir))) return [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => path.join(dir, entry.name))
+      .sort();
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import {
+  powerbiClient,
+  type DirectQueryRefreshSchedule,
+  type RefreshSchedule,
+} from './powerbiClient.js';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { isWindowsTimeZone } from '../utils/windowsTimeZones.js';
+
+// Refresh slots per day: shared capacity allows 8, Premium/Fabric capacity 48
+const SHARED_MAX_SLOTS = 8;
+const PREMIUM_MAX_SLOTS = 48;
+
+const weekDaySchema = z.enum([
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+]);
+
+const timeSlotsSchema = z
+  .array(
+    z.string().regex(/^([01]\d|2[0-3]):(00|30)$/, {
+      message: 'Times must be HH:MM on a half-hour boundary, e.g. 07:00 or 18:30',
+    })
+  )
+  .max(PREMIUM_MAX_SLOTS, { message: `At most ${PREMIUM_MAX_SLOTS} refresh times per day` })
+  .refine((times) => new Set(times).size === times.length, { message: 'Times must be unique' });
+
+const timeZoneSchema = z.string().refine(isWindowsTimeZone, {
+  message: 'Expected a Windows time zone ID such as "UTC" or "W. Europe Standard Time"',
+});
+
+export const refreshScheduleSchema = z
+  .object({
+    days: z.array(weekDaySchema).optional(),
+    times: timeSlotsSchema.optional(),
+    enabled: z.boolean().optional(),
+    localTimeZoneId: timeZoneSchema.optional(),
+    notifyOption: z.enum(['MailOnFailure', 'NoNotification']).optional(),
+  })
+  .strict();
+
+export const directQueryRefreshScheduleSchema = z
+  .object({
+    frequency: z
+      .union([z.literal(15), z.literal(30), z.literal(60), z.literal(120), z.literal(180)])
+      .optional(),
+    days: z.array(weekDaySchema).optional(),
+    times: timeSlotsSchema.optional(),
+    localTimeZoneId: timeZoneSchema.optional(),
+  })
+  .strict()
+  .refine((schedule) => !(schedule.frequency && schedule.times?.length), {
+    message: 'Use either frequency or days/times, not both',
+  });
+
+export interface ScheduleTarget {
+  workspaceId: string;
+  datasetId: string;
+}
+
+export interface UpdateRefreshScheduleOptions extends ScheduleTarget {
+  schedule: RefreshSchedule;
+  // Looked up from the workspace when not given
+  premiumCapacity?: boolean;
+}
+
+export interface UpdateDirectQueryScheduleOptions extends ScheduleTarget {
+  schedule: DirectQueryRefreshSchedule;
+  premiumCapacity?: boolean;
+}
+
+function parseSchedule<T>(schema: z.ZodType<T>, schedule: unknown): T {
+  const parsed = schema.safeParse(schedule);
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Invalid refresh schedule: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(schedule)'}: ${issue.message}`)
+        .join('; ')}`,
+      parsed.error.issues
+    );
+  }
+  return parsed.data;
+}
+
+export class ScheduleService {
+  async getRefreshSchedule({ workspaceId, datasetId }: ScheduleTarget) {
+    return powerbiClient.getRefreshSchedule(workspaceId, datasetId);
+  }
+
+  /**
+   * Validate and apply a (partial) refresh schedule; omitted properties keep their value
+   */
+  async updateRefreshSchedule(options: UpdateRefreshScheduleOptions) {
+    const { workspaceId, datasetId } = options;
+    const schedule = parseSchedule(refreshScheduleSchema, options.schedule);
+
+    await this.checkSlotLimit(workspaceId, schedule.times, options.premiumCapacity);
+
+    logger.info('Updating refresh schedule', { workspaceId, datasetId, schedule });
+    await powerbiClient.updateRefreshSchedule(workspaceId, datasetId, schedule);
+
+    return { success: true, schedule: await this.getRefreshSchedule(options) };
+  }
+
+  async getDirectQueryRefreshSchedule({ workspaceId, datasetId }: ScheduleTarget) {
+    return powerbiClient.getDirectQueryRefreshSchedule(workspaceId, datasetId);
+  }
+
+  /**
+   * Validate and apply the cache refresh schedule of a DirectQuery/LiveConnection dataset
+   */
+  async updateDirectQueryRefreshSchedule(options: UpdateDirectQueryScheduleOptions) {
+    const { workspaceId, datasetId } = options;
+    const schedule = parseSchedule(directQueryRefreshScheduleSchema, options.schedule);
+
+    await this.checkSlotLimit(workspaceId, schedule.times, options.premiumCapacity);
+
+    logger.info('Updating DirectQuery refresh schedule', { workspaceId, datasetId, schedule });
+    await powerbiClient.updateDirectQueryRefreshSchedule(workspaceId, datasetId, schedule);
+
+    return { success: true, schedule: await this.getDirectQueryRefreshSchedule(options) };
+  }
+
+  private async checkSlotLimit(
+    workspaceId: string,
+    times: string[] | undefined,
+    premiumCapacity: boolean | undefined
+  ) {
+    if (!times || times.length <= SHARED_MAX_SLOTS) return;
+
+    const premium =
+      premiumCapacity ??
+      ((await powerbiClient.getWorkspace(workspaceId)) as { isOnDedicatedCapacity?: boolean })
+        .isOnDedicatedCapacity === true;
+
+    if (!premium) {
+      throw new ValidationError(
+        `Workspace ${workspaceId} is on shared capacity, which allows at most ${SHARED_MAX_SLOTS} refresh times per day (got ${times.length})`
+      );
+    }
+  }
+}
+
+export const scheduleService = new ScheduleService();
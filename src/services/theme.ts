@@ -3,51 +3,132 @@ import path from 'path';
 import fs from 'fs/promises';
 import { logger } from '../utils/logger.js';
 import { ValidationError } from '../utils/errors.js';
-import { fileExists, readJsonFile, writeJsonFile } from '../utils/fsx.js';
+import { ensureDir, fileExists, readJsonFile, writeJsonFile } from '../utils/fsx.js';
+import { throwIfCancelled, type TaskContext } from '../utils/task.js';
+import {
+  validateReportTheme,
+  type ThemeIssue,
+  type ThemeValidationOptions,
+  type ThemeValidationResult,
+} from './themeValidation.js';
+import { findReports, toReportLocation, type ReportLocation } from './report.js';
 
 export interface ThemeOptions {
   projectDir: string;
   theme: Record<string, unknown> | string;
   strategy?: 'replace' | 'merge';
+  checkContrast?: boolean;
+  contrastLevel?: 'AA' | 'AAA';
 }
 
 export interface ApplyThemeResult {
   ok: boolean;
   filesModified: string[];
+  warnings: ThemeIssue[];
+  themes: AppliedTheme[];
 }
 
+export interface AppliedTheme {
+  reportDir: string;
+  themeFile: string;
+  previousTheme?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface ThemeReference {
+  name?: string;
+  type?: string | number;
+  version?: string;
+  reportVersionAtImport?: string;
+}
+
+interface RegisteredItem {
+  name?: string;
+  path?: string;
+  type?: string | number;
+}
+
+interface LegacyResourcePackage {
+  name: string;
+  type: number;
+  items?: RegisteredItem[];
+  disabled?: boolean;
+}
+
+/**
+ * Entry of report.resourcePackages: flat in PBIR, wrapped in `resourcePackage` in legacy reports
+ */
+interface ResourcePackage {
+  name?: string;
+  type?: string;
+  items?: RegisteredItem[];
+  resourcePackage?: LegacyResourcePackage;
+}
+
+/**
+ * Mutable view on the theme-related parts of a report definition
+ */
+interface ThemeState {
+  report: JsonObject;
+  config: JsonObject;
+  themeCollection: { baseTheme?: ThemeReference; customTheme?: ThemeReference };
+  registeredItems: RegisteredItem[];
+}
+
+// Used when neither the base nor a previous custom theme carries a report version
+const DEFAULT_REPORT_VERSION = '5.55';
+
 export class ThemeService {
   /**
    * Apply theme to a Power BI project
    */
-  async applyTheme(options: ThemeOptions): Promise<ApplyThemeResult> {
-    const { projectDir, theme, strategy = 'merge' } = options;
+  async applyTheme(options: ThemeOptions, context: TaskContext = {}): Promise<ApplyThemeResult> {
+    const { projectDir, theme, strategy = 'merge', checkContrast, contrastLevel } = options;
 
     logger.info('Applying theme to project', { projectDir, strategy });
 
     // Parse theme
     const themeData = await this.parseTheme(theme);
 
-    // Validate theme structure
-    this.validateTheme(themeData);
+    // Validate theme structure; a merged theme may omit the name
+    const validation = this.validateTheme(themeData, {
+      requireName: strategy === 'replace',
+      checkContrast,
+      contrastLevel,
+    });
+    if (!validation.valid) {
+      throw new ValidationError(
+        `Invalid theme: ${validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')}`,
+        validation.errors
+      );
+    }
 
-    // Find report definition files
-    const reportFiles = await this.findReportDefinitions(projectDir);
+    // Find report definitions
+    const reports = await findReports(projectDir);
 
-    if (reportFiles.length === 0) {
+    if (reports.length === 0) {
       throw new ValidationError('No report definition files found in project');
     }
 
     const filesModified: string[] = [];
-
-    // Apply theme to each report file
-    for (const reportFile of reportFiles) {
+    const themes: AppliedTheme[] = [];
+
+    // Register the theme in each report; a cancelled job stops between reports
+    for (const [index, location] of reports.entries()) {
+      throwIfCancelled(context.signal);
+      context.onProgress?.({
+        message: `Applying theme to report ${index + 1} of ${reports.length}`,
+        progress: index,
+        total: reports.length,
+      });
       try {
-        await this.applyThemeToFile(reportFile, themeData, strategy);
-        filesModified.push(reportFile);
-        logger.info('Theme applied to file', { file: reportFile });
+        const applied = await this.applyThemeToReport(location, themeData, strategy);
+        filesModified.push(...applied.filesModified);
+        themes.push(applied.theme);
+        logger.info('Theme applied to report', { report: location.reportFile });
       } catch (error) {
-        logger.error('Failed to apply theme to file', { file: reportFile, error });
+        logger.error('Failed to apply theme to report', { report: location.reportFile, error });
         throw error;
       }
     }
@@ -57,6 +138,8 @@ export class ThemeService {
     return {
       ok: true,
       filesModified,
+      warnings: validation.warnings,
+      themes,
     };
   }
 
@@ -83,105 +166,215 @@ export class ThemeService {
   }
 
   /**
-   * Validate theme structure
+   * Validate a theme (object, JSON string or file path) without applying it
    */
-  private validateTheme(theme: Record<string, unknown>): void {
-    if (Object.keys(theme).length === 0) {
-      throw new ValidationError('Theme is empty');
-    }
-    logger.debug('Theme validation passed', { keys: Object.keys(theme) });
+  async checkTheme(
+    theme: Record<string, unknown> | string,
+    options: ThemeValidationOptions = {}
+  ): Promise<ThemeValidationResult> {
+    return this.validateTheme(await this.parseTheme(theme), options);
   }
 
   /**
-   * Find all report definition files in project
+   * Validate theme structure against the report theme schema
    */
-  private async findReportDefinitions(projectDir: string): Promise<string[]> {
-    const reportFiles: string[] = [];
-
-    const searchPaths = [
-      path.join(projectDir, 'Report', 'definition.pbir'),
-      path.join(projectDir, 'report.json'),
-      path.join(projectDir, '.pbi', 'report.json'),
-    ];
-
-    for (const searchPath of searchPaths) {
-      if (await fileExists(searchPath)) {
-        reportFiles.push(searchPath);
-      }
-    }
+  validateTheme(
+    theme: Record<string, unknown>,
+    options: ThemeValidationOptions = {}
+  ): ThemeValidationResult {
+    const result = validateReportTheme(theme, options);
+    logger.debug('Theme validation finished', {
+      errors: result.errors.length,
+      warnings: result.warnings.length,
+    });
+    return result;
+  }
 
-    try {
-      const pbirs = await this.findFilesByExtension(projectDir, '.pbir');
-      reportFiles.push(...pbirs);
-    } catch (error) {
-      logger.warn('Failed to search for .pbir files', { error });
+  /**
+   * Register the theme as a new custom theme resource of a report.
+   * An existing custom theme file is never overwritten; a new version is added instead.
+   */
+  private async applyThemeToReport(
+    location: ReportLocation,
+    theme: Record<string, unknown>,
+    strategy: 'replace' | 'merge'
+  ): Promise<{ filesModified: string[]; theme: AppliedTheme }> {
+    const state = await this.readThemeState(location);
+    const previous = await this.readCustomTheme(location, state);
+
+    const themeData =
+      strategy === 'merge' && previous ? merge({}, previous.content, theme) : { ...theme };
+    themeData.name ??= previous?.content.name ?? 'Custom Theme';
+
+    const resourcesDir = this.registeredResourcesDir(location);
+    await ensureDir(resourcesDir);
+
+    const fileName = await this.nextThemeFileName(resourcesDir, String(themeData.name));
+    const themeFile = path.join(resourcesDir, fileName);
+    await writeJsonFile(themeFile, themeData);
+
+    // Register the resource and point the theme collection at it
+    if (location.format === 'pbir') {
+      state.registeredItems.push({ name: fileName, path: fileName, type: 'CustomTheme' });
+      state.themeCollection.customTheme = {
+        name: fileName,
+        reportVersionAtImport: this.reportVersion(state),
+        type: 'RegisteredResources',
+      };
+    } else {
+      state.registeredItems.push({ type: 201, path: fileName, name: fileName });
+      state.themeCollection.customTheme = {
+        name: fileName,
+        version: this.reportVersion(state),
+        type: 1,
+      };
     }
 
-    return [...new Set(reportFiles)];
+    const filesModified = await this.writeThemeState(location, state);
+
+    return {
+      filesModified: [themeFile, ...filesModified],
+      theme: { reportDir: location.rootDir, themeFile, previousTheme: previous?.name },
+    };
+  }
+
+  private registeredResourcesDir(location: ReportLocation): string {
+    return path.join(location.rootDir, 'StaticResources', 'RegisteredResources');
   }
 
   /**
-   * Find files by extension recursively
+   * `<name>.json`, or `<name>-v<n>.json` when earlier versions exist
    */
-  private async findFilesByExtension(dir: string, extension: string): Promise<string[]> {
-    const files: string[] = [];
+  private async nextThemeFileName(resourcesDir: string, themeName: string): Promise<string> {
+    const base = themeName.replace(/[^A-Za-z0-9_-]+/g, '') || 'CustomTheme';
+
+    let fileName = `${base}.json`;
+    for (let version = 2; await fileExists(path.join(resourcesDir, fileName)); version++) {
+      fileName = `${base}-v${version}.json`;
+    }
+    return fileName;
+  }
 
-    async function walk(currentDir: string) {
-      const entries = await fs.readdir(currentDir, { withFileTypes: true });
+  private reportVersion(state: ThemeState): string {
+    const { baseTheme, customTheme } = state.themeCollection;
+    return (
+      baseTheme?.reportVersionAtImport ??
+      baseTheme?.version ??
+      customTheme?.reportVersionAtImport ??
+      customTheme?.version ??
+      DEFAULT_REPORT_VERSION
+    );
+  }
+
+  private async readThemeState(location: ReportLocation): Promise<ThemeState> {
+    const report = await readJsonFile<JsonObject>(location.reportFile);
 
-      for (const entry of entries) {
-        const fullPath = path.join(currentDir, entry.name);
+    let config: JsonObject;
+    if (location.format === 'pbir') {
+      config = report;
+    } else if (await fileExists(this.legacyConfigFile(location))) {
+      // pbi-tools splits the report config out into config.json
+      config = await readJsonFile<JsonObject>(this.legacyConfigFile(location));
+    } else {
+      config =
+        typeof report.config === 'string'
+          ? JSON.parse(report.config)
+          : (report.config as JsonObject | undefined) || {};
+    }
 
-        if (entry.isDirectory()) {
-          await walk(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith(extension)) {
-          files.push(fullPath);
-        }
+    const themeCollection = (config.themeCollection ??= {}) as ThemeState['themeCollection'];
+    const packages = (report.resourcePackages ??= []) as ResourcePackage[];
+
+    let registeredItems: RegisteredItem[];
+    if (location.format === 'pbir') {
+      let registered = packages.find((p) => p.type === 'RegisteredResources');
+      if (!registered) {
+        registered = { name: 'RegisteredResources', type: 'RegisteredResources', items: [] };
+        packages.push(registered);
+      }
+      registeredItems = registered.items ??= [];
+    } else {
+      let registered = packages.find((p) => p.resourcePackage?.type === 1)?.resourcePackage;
+      if (!registered) {
+        registered = { name: 'RegisteredResources', type: 1, items: [], disabled: false };
+        packages.push({ resourcePackage: registered });
       }
+      registeredItems = registered.items ??= [];
     }
 
-    await walk(dir);
-    return files;
+    return { report, config, themeCollection, registeredItems };
   }
 
-  /**
-   * Apply theme to a specific report file
-   */
-  private async applyThemeToFile(
-    filePath: string,
-    theme: Record<string, unknown>,
-    strategy: 'replace' | 'merge'
-  ): Promise<void> {
-    const report = await readJsonFile<Record<string, unknown>>(filePath);
+  private async writeThemeState(location: ReportLocation, state: ThemeState): Promise<string[]> {
+    const configFile = this.legacyConfigFile(location);
 
-    let updatedReport: Record<string, unknown>;
-
-    if (strategy === 'replace') {
-      updatedReport = { ...report, theme: theme };
-    } else {
-      const existingTheme = (report.theme as Record<string, unknown>) || {};
-      updatedReport = { ...report, theme: merge({}, existingTheme, theme) };
+    if (location.format === 'legacy') {
+      if (await fileExists(configFile)) {
+        await writeJsonFile(configFile, state.config);
+        await writeJsonFile(location.reportFile, state.report);
+        return [location.reportFile, configFile];
+      }
+      state.report.config = JSON.stringify(state.config);
     }
 
-    await writeJsonFile(filePath, updatedReport);
+    await writeJsonFile(location.reportFile, state.report);
+    return [location.reportFile];
+  }
+
+  private legacyConfigFile(location: ReportLocation): string {
+    return path.join(path.dirname(location.reportFile), 'config.json');
+  }
+
+  /**
+   * Load the custom theme the theme collection currently points at
+   */
+  private async readCustomTheme(
+    location: ReportLocation,
+    state: ThemeState
+  ): Promise<{ name: string; content: Record<string, unknown> } | null> {
+    const name = state.themeCollection.customTheme?.name;
+    if (!name) return null;
+
+    const item = state.registeredItems.find((i) => i.name === name);
+    const themeFile = path.join(this.registeredResourcesDir(location), item?.path ?? name);
+
+    if (!(await fileExists(themeFile))) {
+      logger.warn('Custom theme resource missing', { themeFile });
+      return null;
+    }
+    return { name, content: await readJsonFile<Record<string, unknown>>(themeFile) };
   }
 
   /**
-   * Extract theme from a report file
+   * Extract the active custom theme of a report (project dir, report folder or report.json)
    */
   async extractTheme(reportFilePath: string): Promise<Record<string, unknown>> {
     if (!(await fileExists(reportFilePath))) {
       throw new ValidationError(`Report file not found: ${reportFilePath}`);
     }
 
-    const report = await readJsonFile<Record<string, unknown>>(reportFilePath);
+    const stat = await fs.stat(reportFilePath);
+    const reports = stat.isDirectory()
+      ? await findReports(reportFilePath)
+      : [await toReportLocation(reportFilePath)];
+
+    if (reports.length === 0) {
+      throw new ValidationError(`No report definition found in ${reportFilePath}`);
+    }
+
+    const state = await this.readThemeState(reports[0]);
+    const custom = await this.readCustomTheme(reports[0], state);
+    if (custom) {
+      return custom.content;
+    }
 
-    if (!report.theme) {
-      logger.warn('No theme found in report file', { file: reportFilePath });
-      return {};
+    // Themes written by earlier versions of this server sit in a top-level key
+    if (state.report.theme) {
+      return state.report.theme as Record<string, unknown>;
     }
 
-    return report.theme as Record<string, unknown>;
+    logger.warn('No theme found in report file', { file: reports[0].reportFile });
+    return {};
   }
 }
 
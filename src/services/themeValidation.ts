@@ -0,0 +1,270 @@
+import { z } from 'zod';
+
+export interface ThemeIssue {
+  path: string;
+  message: string;
+}
+
+export interface ThemeValidationOptions {
+  requireName?: boolean;
+  checkContrast?: boolean;
+  contrastLevel?: 'AA' | 'AAA';
+}
+
+export interface ThemeValidationResult {
+  valid: boolean;
+  errors: ThemeIssue[];
+  warnings: ThemeIssue[];
+}
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+const colorSchema = z
+  .string()
+  .regex(HEX_COLOR, { message: 'Expected a hex color such as #118DFF' });
+
+const textClassSchema = z
+  .object({
+    fontFace: z.string().optional(),
+    fontFamily: z.string().optional(),
+    fontSize: z.number().positive().optional(),
+    color: colorSchema.optional(),
+  })
+  .passthrough();
+
+const TEXT_CLASSES = [
+  'callout',
+  'title',
+  'header',
+  'label',
+  'largeTitle',
+  'largeLabel',
+  'semiboldLabel',
+  'smallLabel',
+  'lightLabel',
+  'boldLabel',
+  'largeLightLabel',
+  'smallLightLabel',
+] as const;
+
+const textClassesSchema = z
+  .object(Object.fromEntries(TEXT_CLASSES.map((name) => [name, textClassSchema.optional()])))
+  .passthrough();
+
+// visualStyles: { <visualType|*>: { <styleName|*>: { <card>: [ { <property>: value } ] } } }
+const visualStylesSchema = z.record(
+  z.record(z.record(z.array(z.record(z.unknown()), { message: 'Expected an array of objects' })))
+);
+
+const COLOR_PROPERTIES = [
+  'foreground',
+  'foregroundNeutralSecondary',
+  'foregroundNeutralTertiary',
+  'foregroundNeutralSecondaryAlt',
+  'foregroundNeutralTertiaryAlt',
+  'foregroundNeutralLight',
+  'foregroundNeutralDark',
+  'foregroundSelected',
+  'foregroundLight',
+  'foregroundDark',
+  'foregroundButton',
+  'background',
+  'backgroundLight',
+  'backgroundNeutral',
+  'backgroundDark',
+  'secondaryBackground',
+  'tableAccent',
+  'good',
+  'neutral',
+  'bad',
+  'maximum',
+  'center',
+  'minimum',
+  'null',
+  'hyperlink',
+  'visitedHyperlink',
+  'firstLevelElements',
+  'secondLevelElements',
+  'thirdLevelElements',
+  'fourthLevelElements',
+  'accent',
+  'disabledText',
+  'shapeStroke',
+] as const;
+
+/**
+ * Structural schema of a Power BI report theme (reportThemeSchema). Unknown keys pass, since
+ * older themes carry properties such as sentimentColors; findUnknownKeys reports them.
+ */
+export const reportThemeSchema = z
+  .object({
+    $schema: z.string().optional(),
+    name: z.string().min(1),
+    dataColors: z.array(colorSchema).min(1).optional(),
+    textClasses: textClassesSchema.optional(),
+    visualStyles: visualStylesSchema.optional(),
+    icons: z.record(z.object({ description: z.string().optional(), url: z.string() })).optional(),
+    ...Object.fromEntries(COLOR_PROPERTIES.map((name) => [name, colorSchema.optional()])),
+  })
+  .passthrough();
+
+function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, i) =>
+      typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function findUnknownKeys(theme: Record<string, unknown>): ThemeIssue[] {
+  const unknownKey = (path: string) => ({
+    path,
+    message: 'Not part of the report theme schema; kept as is',
+  });
+
+  const issues = Object.keys(theme)
+    .filter((key) => !(key in reportThemeSchema.shape))
+    .map(unknownKey);
+
+  if (isObject(theme.textClasses)) {
+    for (const [name, textClass] of Object.entries(theme.textClasses)) {
+      if (!(name in textClassesSchema.shape)) {
+        issues.push(unknownKey(`textClasses.${name}`));
+      } else if (isObject(textClass)) {
+        issues.push(
+          ...Object.keys(textClass)
+            .filter((key) => !(key in textClassSchema.shape))
+            .map((key) => unknownKey(`textClasses.${name}.${key}`))
+        );
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Colors nested in visualStyles are written as { solid: { color } }
+ */
+function findNestedColorIssues(value: unknown, path: Array<string | number>): ThemeIssue[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => findNestedColorIssues(item, [...path, i]));
+  }
+  if (!value || typeof value !== 'object') return [];
+
+  const issues: ThemeIssue[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = [...path, key];
+    if (key === 'solid' && child && typeof child === 'object' && 'color' in child) {
+      const color = (child as { color: unknown }).color;
+      if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+        issues.push({
+          path: formatPath([...childPath, 'color']),
+          message: `Invalid hex color ${JSON.stringify(color)}`,
+        });
+      }
+    } else {
+      issues.push(...findNestedColorIssues(child, childPath));
+    }
+  }
+  return issues;
+}
+
+// --- WCAG contrast ---
+
+function parseHex(color: string): [number, number, number] {
+  let hex = color.slice(1);
+  if (hex.length === 3) hex = [...hex].map((c) => c + c).join('');
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function relativeLuminance(color: string): number {
+  const [r, g, b] = parseHex(color).map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort(
+    (a, b) => b - a
+  );
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function checkContrast(theme: Record<string, unknown>, level: 'AA' | 'AAA'): ThemeIssue[] {
+  const isColor = (value: unknown): value is string =>
+    typeof value === 'string' && HEX_COLOR.test(value);
+
+  const background = isColor(theme.background) ? theme.background : '#FFFFFF';
+  const pairs: Array<{ path: string; color: string; largeText: boolean }> = [];
+
+  for (const key of ['foreground', 'firstLevelElements', 'secondLevelElements'] as const) {
+    if (isColor(theme[key])) pairs.push({ path: key, color: theme[key], largeText: false });
+  }
+
+  const textClasses = (theme.textClasses || {}) as Record<string, Record<string, unknown>>;
+  for (const [name, textClass] of Object.entries(textClasses)) {
+    if (isColor(textClass?.color)) {
+      // WCAG "large text" is 18pt and up
+      const fontSize = typeof textClass.fontSize === 'number' ? textClass.fontSize : 0;
+      pairs.push({
+        path: `textClasses.${name}.color`,
+        color: textClass.color,
+        largeText: fontSize >= 18,
+      });
+    }
+  }
+
+  const issues: ThemeIssue[] = [];
+  for (const { path, color, largeText } of pairs) {
+    const required = level === 'AAA' ? (largeText ? 4.5 : 7) : largeText ? 3 : 4.5;
+    const ratio = contrastRatio(color, background);
+    if (ratio < required) {
+      issues.push({
+        path,
+        message: `Contrast ${ratio.toFixed(2)}:1 of ${color} on ${background} is below WCAG ${level} (${required}:1)`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate a theme against the report theme schema and optionally check contrast
+ */
+export function validateReportTheme(
+  theme: Record<string, unknown>,
+  options: ThemeValidationOptions = {}
+): ThemeValidationResult {
+  const { requireName = true, contrastLevel = 'AA' } = options;
+
+  const schema = requireName ? reportThemeSchema : reportThemeSchema.partial({ name: true });
+  const parsed = schema.safeParse(theme);
+
+  const errors: ThemeIssue[] = parsed.success
+    ? []
+    : parsed.error.issues.map((issue) => ({
+        path: formatPath(issue.path) || '(root)',
+        message: issue.message,
+      }));
+
+  if (theme.visualStyles && typeof theme.visualStyles === 'object') {
+    errors.push(...findNestedColorIssues(theme.visualStyles, ['visualStyles']));
+  }
+
+  if (Object.keys(theme).length === 0) {
+    errors.push({ path: '(root)', message: 'Theme is empty' });
+  }
+
+  const warnings = [
+    ...findUnknownKeys(theme),
+    ...(options.checkContrast ? checkContrast(theme, contrastLevel) : []),
+  ];
+
+  return { valid: errors.length === 0, errors, warnings };
+}
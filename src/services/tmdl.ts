@@ -0,0 +1,447 @@
+/**
+ * Minimal TMDL (Tabular Model Definition Language) support.
+ *
+ * Parses the indentation-based TMDL syntax into a generic node tree and converts
+ * that tree into the same TOM-shaped JSON that model.bim and pbi-tools use, so the
+ * model service only needs a single converter. The serializers at the bottom emit
+ * individual objects for in-place edits.
+ */
+
+export interface TmdlNode {
+  type: string;
+  name: string;
+  expression?: string;
+  description?: string;
+  properties: Record<string, string | true>;
+  children: TmdlNode[];
+}
+
+interface Line {
+  indent: number;
+  text: string;
+}
+
+type TomObject = Record<string, unknown>;
+
+export function measureIndent(raw: string): number {
+  let indent = 0;
+  let spaces = 0;
+  for (const ch of raw) {
+    if (ch === '\t') {
+      indent++;
+      spaces = 0;
+    } else if (ch === ' ') {
+      // Tolerate space-indented files (4 spaces per level)
+      if (++spaces === 4) {
+        indent++;
+        spaces = 0;
+      }
+    } else {
+      break;
+    }
+  }
+  return indent;
+}
+
+/**
+ * Read a possibly quoted TMDL name; returns the name and the remaining text
+ */
+export function readName(text: string): { name: string; rest: string } {
+  if (text.startsWith("'")) {
+    let i = 1;
+    let name = '';
+    while (i < text.length) {
+      if (text[i] === "'") {
+        if (text[i + 1] === "'") {
+          name += "'";
+          i += 2;
+          continue;
+        }
+        break;
+      }
+      name += text[i++];
+    }
+    return { name, rest: text.slice(i + 1) };
+  }
+
+  const match = /^([^\s=]+)(.*)$/.exec(text);
+  return match ? { name: match[1], rest: match[2] } : { name: text, rest: '' };
+}
+
+/**
+ * Split `Table.Column` / `'My Table'.'My Column'` references
+ */
+export function splitQualifiedName(text: string): { table: string; column: string } {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("'")) {
+    const { name: table, rest } = readName(trimmed);
+    return { table, column: readName(rest.replace(/^\./, '')).name };
+  }
+  const dot = trimmed.indexOf('.');
+  return dot === -1
+    ? { table: '', column: readName(trimmed).name }
+    : { table: trimmed.slice(0, dot), column: readName(trimmed.slice(dot + 1)).name };
+}
+
+function unquoteValue(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/""/g, '"');
+  }
+  return trimmed;
+}
+
+class TmdlParser {
+  private pos = 0;
+
+  constructor(private lines: Line[]) {}
+
+  parseDocument(): TmdlNode[] {
+    const root: TmdlNode = { type: 'document', name: '', properties: {}, children: [] };
+    this.parseBody(root, 0);
+    return root.children;
+  }
+
+  private parseDeclaration(text: string, level: number): TmdlNode | null {
+    const space = text.search(/\s/);
+    if (space === -1) {
+      return { type: text, name: '', properties: {}, children: [] };
+    }
+
+    const type = text.slice(0, space);
+    // `ref table X` entries in model.tmdl only declare ordering
+    if (type === 'ref') return null;
+
+    const { name, rest } = readName(text.slice(space).trim());
+    const node: TmdlNode = { type, name, properties: {}, children: [] };
+
+    const eq = /^\s*=\s?(.*)$/.exec(rest);
+    if (eq) {
+      node.expression = this.readExpression(eq[1], level + 1);
+    }
+
+    this.parseBody(node, level + 1);
+    return node;
+  }
+
+  private parseBody(node: TmdlNode, level: number): void {
+    let description: string[] = [];
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.text === '') {
+        this.pos++;
+        continue;
+      }
+      if (line.indent < level) break;
+      if (line.indent > level) {
+        // Stray deeper line (e.g. an unsupported construct); skip it
+        this.pos++;
+        continue;
+      }
+
+      const { text } = line;
+
+      if (text.startsWith('///')) {
+        description.push(text.slice(3).trim());
+        this.pos++;
+        continue;
+      }
+
+      const property = /^(\w+)\s*:\s*(.*)$/.exec(text);
+      const expressionProperty = /^(\w+)\s*=\s?(.*)$/.exec(text);
+
+      if (property) {
+        this.pos++;
+        node.properties[property[1]] = unquoteValue(property[2]);
+      } else if (expressionProperty) {
+        this.pos++;
+        node.properties[expressionProperty[1]] = this.readExpression(expressionProperty[2], level);
+      } else if (/^\w+$/.test(text)) {
+        this.pos++;
+        node.properties[text] = true;
+      } else {
+        this.pos++;
+        const child = this.parseDeclaration(text, level);
+        if (child) {
+          if (description.length > 0) child.description = description.join('\n');
+          node.children.push(child);
+        }
+      }
+      description = [];
+    }
+  }
+
+  /**
+   * Read an expression starting on the current line and continuing on lines
+   * indented deeper than `propertyLevel`, or enclosed in ``` fences
+   */
+  private readExpression(first: string, propertyLevel: number): string {
+    const head = first.trim();
+
+    if (head.startsWith('```')) {
+      const body: string[] = [];
+      const inline = head.slice(3);
+      if (inline.endsWith('```')) return inline.slice(0, -3).trim();
+      if (inline) body.push(inline);
+
+      while (this.pos < this.lines.length) {
+        const line = this.lines[this.pos++];
+        if (line.text.trim().endsWith('```')) {
+          const last = line.text.trim().slice(0, -3);
+          if (last) body.push(last);
+          break;
+        }
+        body.push(line.text);
+      }
+      return body.join('\n').trim();
+    }
+
+    const body: Line[] = [];
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.text !== '' && line.indent <= propertyLevel) break;
+      body.push(line);
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the enclosing block
+    while (body.length > 0 && body[body.length - 1].text === '') body.pop();
+
+    const minIndent = Math.min(...body.filter((l) => l.text !== '').map((l) => l.indent));
+    const continuation = body.map((l) =>
+      l.text === '' ? '' : '\t'.repeat(Math.max(0, l.indent - minIndent)) + l.text
+    );
+
+    return [head, ...continuation].filter((part, i) => i > 0 || part !== '').join('\n');
+  }
+}
+
+/**
+ * Parse a TMDL document into its top-level nodes
+ */
+export function parseTmdl(source: string): TmdlNode[] {
+  const lines = source
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((raw) => {
+      const indent = measureIndent(raw);
+      const trimmed = raw.trim();
+      return { indent: trimmed === '' ? 0 : indent, text: trimmed };
+    });
+
+  return new TmdlParser(lines).parseDocument();
+}
+
+function flag(value: string | true | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  return value === true || value === 'true';
+}
+
+function num(value: string | true | undefined): number | undefined {
+  return typeof value === 'string' && value !== '' ? Number(value) : undefined;
+}
+
+function str(value: string | true | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function compact(obj: TomObject): TomObject {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+}
+
+function childrenOf(node: TmdlNode, type: string): TmdlNode[] {
+  return node.children.filter((child) => child.type === type);
+}
+
+function toTomColumn(node: TmdlNode): TomObject {
+  const p = node.properties;
+  return compact({
+    name: node.name,
+    type: node.expression !== undefined ? 'calculated' : undefined,
+    expression: node.expression,
+    dataType: str(p.dataType),
+    sourceColumn: str(p.sourceColumn),
+    formatString: str(p.formatString),
+    displayFolder: str(p.displayFolder),
+    dataCategory: str(p.dataCategory),
+    summarizeBy: str(p.summarizeBy),
+    sortByColumn: str(p.sortByColumn),
+    isHidden: flag(p.isHidden),
+    isKey: flag(p.isKey),
+    description: node.description,
+  });
+}
+
+function toTomMeasure(node: TmdlNode): TomObject {
+  const p = node.properties;
+  return compact({
+    name: node.name,
+    expression: node.expression ?? '',
+    formatString: str(p.formatString),
+    displayFolder: str(p.displayFolder),
+    isHidden: flag(p.isHidden),
+    description: node.description,
+  });
+}
+
+function toTomHierarchy(node: TmdlNode): TomObject {
+  return compact({
+    name: node.name,
+    displayFolder: str(node.properties.displayFolder),
+    isHidden: flag(node.properties.isHidden),
+    description: node.description,
+    levels: childrenOf(node, 'level').map((level, index) =>
+      compact({
+        name: level.name,
+        ordinal: num(level.properties.ordinal) ?? index,
+        column: str(level.properties.column),
+      })
+    ),
+  });
+}
+
+function toTomPartition(node: TmdlNode): TomObject {
+  return compact({
+    name: node.name,
+    mode: str(node.properties.mode),
+    source: compact({
+      type: node.expression?.trim() || undefined,
+      expression: str(node.properties.source),
+    }),
+  });
+}
+
+function toTomTable(node: TmdlNode): TomObject {
+  return compact({
+    name: node.name,
+    description: node.description,
+    isHidden: flag(node.properties.isHidden),
+    columns: childrenOf(node, 'column').map(toTomColumn),
+    measures: childrenOf(node, 'measure').map(toTomMeasure),
+    hierarchies: childrenOf(node, 'hierarchy').map(toTomHierarchy),
+    partitions: childrenOf(node, 'partition').map(toTomPartition),
+  });
+}
+
+function toTomRelationship(node: TmdlNode): TomObject {
+  const p = node.properties;
+  const from = splitQualifiedName(str(p.fromColumn) || '');
+  const to = splitQualifiedName(str(p.toColumn) || '');
+  return compact({
+    name: node.name,
+    fromTable: from.table,
+    fromColumn: from.column,
+    toTable: to.table,
+    toColumn: to.column,
+    fromCardinality: str(p.fromCardinality),
+    toCardinality: str(p.toCardinality),
+    crossFilteringBehavior: str(p.crossFilteringBehavior),
+    isActive: flag(p.isActive),
+  });
+}
+
+function toTomRole(node: TmdlNode): TomObject {
+  return compact({
+    name: node.name,
+    description: node.description,
+    modelPermission: str(node.properties.modelPermission),
+    members: childrenOf(node, 'member').map((member) => ({ memberName: member.name })),
+    tablePermissions: childrenOf(node, 'tablePermission').map((permission) =>
+      compact({ name: permission.name, filterExpression: permission.expression })
+    ),
+  });
+}
+
+function toTomExpression(node: TmdlNode): TomObject {
+  return compact({
+    name: node.name,
+    kind: str(node.properties.kind) || 'm',
+    expression: node.expression ?? '',
+    description: node.description,
+  });
+}
+
+/**
+ * Convert parsed TMDL documents into a TOM database object
+ */
+export function tmdlToTomDatabase(documents: TmdlNode[][]): TomObject {
+  const nodes = documents.flat();
+  const database = nodes.find((node) => node.type === 'database');
+  const model = nodes.find((node) => node.type === 'model');
+
+  return compact({
+    name: database?.name,
+    compatibilityLevel: num(database?.properties.compatibilityLevel),
+    model: compact({
+      culture: str(model?.properties.culture),
+      tables: nodes.filter((node) => node.type === 'table').map(toTomTable),
+      relationships: nodes.filter((node) => node.type === 'relationship').map(toTomRelationship),
+      roles: nodes.filter((node) => node.type === 'role').map(toTomRole),
+      expressions: nodes.filter((node) => node.type === 'expression').map(toTomExpression),
+    }),
+  });
+}
+
+// --- Serialization ---
+
+export interface TmdlMeasure {
+  name: string;
+  expression: string;
+  formatString?: string;
+  displayFolder?: string;
+  description?: string;
+  isHidden?: boolean;
+}
+
+/**
+ * Quote a name when it contains anything but word characters
+ */
+export function quoteTmdlName(name: string): string {
+  return /^[A-Za-z_][\w]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function formatTmdlValue(value: string): string {
+  return /^\s|\s$|"/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize a measure declared at `indent` tabs; `extraLines` are kept verbatim
+ * (lineageTag, annotations, ...) and must already be indented
+ */
+export function serializeTmdlMeasure(
+  measure: TmdlMeasure,
+  indent: number,
+  extraLines: string[] = []
+): string[] {
+  const pad = '\t'.repeat(indent);
+  const lines: string[] = [];
+
+  if (measure.description) {
+    for (const line of measure.description.split(/\r?\n/)) {
+      lines.push(`${pad}/// ${line}`);
+    }
+  }
+
+  const expressionLines = measure.expression.trim().split(/\r?\n/);
+  if (expressionLines.length === 1) {
+    lines.push(`${pad}measure ${quoteTmdlName(measure.name)} = ${expressionLines[0]}`);
+  } else {
+    lines.push(`${pad}measure ${quoteTmdlName(measure.name)} =`);
+    for (const line of expressionLines) {
+      lines.push(line.trim() === '' ? '' : `${pad}\t\t${line}`);
+    }
+  }
+
+  if (measure.formatString) {
+    lines.push(`${pad}\tformatString: ${formatTmdlValue(measure.formatString)}`);
+  }
+  if (measure.displayFolder) {
+    lines.push(`${pad}\tdisplayFolder: ${formatTmdlValue(measure.displayFolder)}`);
+  }
+  if (measure.isHidden) {
+    lines.push(`${pad}\tisHidden`);
+  }
+
+  return [...lines, ...extraLines];
+}
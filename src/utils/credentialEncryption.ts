@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+
+export interface GatewayPublicKey {
+  exponent: string;
+  modulus: string;
+}
+
+// Gateways with 1024-bit keys take the plain text RSA-encrypted in segments
+const RSA_1024_MODULUS_BYTES = 128;
+const RSA_1024_SEGMENT_LENGTH = 85;
+
+// Algorithm identifiers prefixed to the hybrid cipher text: AES-256-CBC/PKCS7, HMAC-SHA256
+const ALGORITHM_CHOICES = Buffer.from([0, 0]);
+// Key length identifier prefixed to the RSA-encrypted keys: 32-byte AES key, 64-byte MAC key
+const KEY_LENGTHS = Buffer.from([0, 1]);
+
+function toPublicKey({ exponent, modulus }: GatewayPublicKey): crypto.KeyObject {
+  const base64url = (value: string) => Buffer.from(value, 'base64').toString('base64url');
+  return crypto.createPublicKey({
+    key: { kty: 'RSA', n: base64url(modulus), e: base64url(exponent) },
+    format: 'jwk',
+  });
+}
+
+function rsaEncrypt(key: crypto.KeyObject, data: Buffer): Buffer {
+  return crypto.publicEncrypt(
+    { key, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha1' },
+    data
+  );
+}
+
+/**
+ * AES-256-CBC encryption authenticated with HMAC-SHA256 over algorithm IDs, IV and cipher text.
+ * Output layout: [algorithm choices][mac][iv][cipher text]
+ */
+function authenticatedEncrypt(encryptionKey: Buffer, macKey: Buffer, plain: Buffer): Buffer {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', encryptionKey, iv);
+  const cipherText = Buffer.concat([cipher.update(plain), cipher.final()]);
+
+  const mac = crypto
+    .createHmac('sha256', macKey)
+    .update(Buffer.concat([ALGORITHM_CHOICES, iv, cipherText]))
+    .digest();
+
+  return Buffer.concat([ALGORITHM_CHOICES, mac, iv, cipherText]);
+}
+
+/**
+ * Encrypt a credentials JSON string with an on-premises gateway's public key, in the format
+ * the Power BI service decrypts (same scheme as the official .NET SDK).
+ */
+export function encryptCredentials(credentials: string, publicKey: GatewayPublicKey): string {
+  const key = toPublicKey(publicKey);
+  const plain = Buffer.from(credentials, 'utf8');
+
+  if (Buffer.from(publicKey.modulus, 'base64').length === RSA_1024_MODULUS_BYTES) {
+    const segments: Buffer[] = [];
+    for (let offset = 0; offset < plain.length; offset += RSA_1024_SEGMENT_LENGTH) {
+      segments.push(rsaEncrypt(key, plain.subarray(offset, offset + RSA_1024_SEGMENT_LENGTH)));
+    }
+    return Buffer.concat(segments).toString('base64');
+  }
+
+  // Larger keys: encrypt with ephemeral AES/HMAC keys and RSA-encrypt those keys
+  const encryptionKey = crypto.randomBytes(32);
+  const macKey = crypto.randomBytes(64);
+  const cipherText = authenticatedEncrypt(encryptionKey, macKey, plain);
+  const encryptedKeys = rsaEncrypt(key, Buffer.concat([KEY_LENGTHS, encryptionKey, macKey]));
+
+  return encryptedKeys.toString('base64') + cipherText.toString('base64');
+}
@@ -13,6 +13,15 @@ export const env = {
   // missing keys added:
   CORS_ORIGINS: process.env.CORS_ORIGINS || '*',
   PBI_TOOLS_PATH: process.env.PBI_TOOLS_PATH || 'pbi-tools',
+  MAX_UPLOAD_SIZE_MB: Number(process.env.MAX_UPLOAD_SIZE_MB) || 10240,
+  INVENTORY_PATH: process.env.INVENTORY_PATH || `${process.env.WORKDIR || 'temp'}/inventory.json`,
+  MCP_SESSION_IDLE_MINUTES: Number(process.env.MCP_SESSION_IDLE_MINUTES) || 30,
+  // pbi-tools processes running at the same time; further extract/compile calls wait
+  PBI_TOOLS_CONCURRENCY: Number(process.env.PBI_TOOLS_CONCURRENCY) || 2,
+  JOBS_DIR: process.env.JOBS_DIR || `${process.env.WORKDIR || 'temp'}/jobs`,
+  // Finished job records are deleted after this many days, and beyond the newest JOBS_MAX_RECORDS
+  JOBS_RETENTION_DAYS: Number(process.env.JOBS_RETENTION_DAYS) || 7,
+  JOBS_MAX_RECORDS: Number(process.env.JOBS_MAX_RECORDS) || 500,
 };
 
 export function validateEnv() {
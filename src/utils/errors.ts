@@ -32,8 +32,30 @@ export class PBIToolsError extends AppError {
 }
 
 export class ValidationError extends AppError {
-  constructor(message: string) {
-    super(message, 400, 'VALIDATION_ERROR');
+  constructor(message: string, details?: unknown) {
+    super(message, 400, 'VALIDATION_ERROR', details);
     this.name = 'ValidationError';
   }
 }
+
+export class TimeoutError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 504, 'TIMEOUT', details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends AppError {
+  constructor(message = 'Operation was cancelled') {
+    // 499: client closed request
+    super(message, 499, 'CANCELLED');
+    this.name = 'CancelledError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, 404, 'NOT_FOUND');
+    this.name = 'NotFoundError';
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -23,6 +24,9 @@ export async function writeJsonFile(filePath: string, data: unknown): Promise<vo
   await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
 }
 
+/**
+ * Unique per call: callers delete their temp dir when done, so two calls must never share one
+ */
 export function getTempDir(prefix: string): string {
-  return path.join(process.cwd(), 'tmp', `${prefix}-${Date.now()}`);
+  return path.join(process.cwd(), 'tmp', `${prefix}-${Date.now()}-${randomUUID()}`);
 }
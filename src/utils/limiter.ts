@@ -0,0 +1,59 @@
+import { CancelledError } from './errors.js';
+import { throwIfCancelled, type TaskContext } from './task.js';
+
+interface Waiter {
+  start(): void;
+  cancel(): void;
+}
+
+/**
+ * Run at most `limit` tasks at a time; the rest wait in FIFO order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Waiter[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>, context: TaskContext = {}): Promise<T> {
+    await this.acquire(context);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire({ signal, onProgress }: TaskContext): Promise<void> {
+    throwIfCancelled(signal);
+
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    onProgress?.({ message: `Waiting for a free slot (${this.queue.length + 1} queued)` });
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => waiter.cancel();
+      const waiter: Waiter = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          resolve();
+        },
+        cancel: () => {
+          this.queue = this.queue.filter((entry) => entry !== waiter);
+          reject(new CancelledError());
+        },
+      };
+      this.queue.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release() {
+    this.active--;
+    this.queue.shift()?.start();
+  }
+}
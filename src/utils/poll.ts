@@ -0,0 +1,63 @@
+import { CancelledError, TimeoutError } from './errors.js';
+import { throwIfCancelled, type TaskContext } from './task.js';
+
+export interface PollOptions<T = unknown> extends TaskContext {
+  intervalMs?: number;
+  timeoutMs?: number;
+  description?: string;
+  /**
+   * Short status of a polled value, reported through `onProgress` after every poll
+   */
+  status?(value: T): string | undefined;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfCancelled(signal);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Call `fn` until `isDone` accepts its result, the timeout elapses or the signal is aborted
+ */
+export async function pollUntil<T>(
+  fn: () => Promise<T>,
+  isDone: (value: T) => boolean,
+  options: PollOptions<T> = {}
+): Promise<T> {
+  const {
+    intervalMs = 5000,
+    timeoutMs = 30 * 60 * 1000,
+    description = 'operation',
+    signal,
+    onProgress,
+    status,
+  } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    throwIfCancelled(signal);
+    const value = await fn();
+    if (isDone(value)) return value;
+
+    const current = status?.(value);
+    onProgress?.({
+      message: current ? `${description}: ${current}` : `Waiting for ${description}`,
+    });
+
+    if (Date.now() + intervalMs > deadline) {
+      throw new TimeoutError(`Timed out waiting for ${description}`, { timeoutMs, last: value });
+    }
+    await sleep(intervalMs, signal);
+  }
+}
@@ -0,0 +1,51 @@
+export type TabularFormat = 'json' | 'csv' | 'markdown';
+
+export type TabularRow = Record<string, unknown>;
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Collect column names in first-seen order across all rows
+ */
+export function collectColumns(rows: TabularRow[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      columns.add(key);
+    }
+  }
+  return [...columns];
+}
+
+/**
+ * Render rows as RFC 4180 CSV
+ */
+export function toCsv(columns: string[], rows: TabularRow[]): string {
+  const escape = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+  const lines = [columns.map(escape).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((col) => escape(cellToString(row[col]))).join(','));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render rows as a GitHub-flavored Markdown table
+ */
+export function toMarkdownTable(columns: string[], rows: TabularRow[]): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+  const lines = [
+    `| ${columns.map(escape).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+  ];
+  for (const row of rows) {
+    lines.push(`| ${columns.map((col) => escape(cellToString(row[col]))).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
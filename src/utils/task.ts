@@ -0,0 +1,22 @@
+import { CancelledError } from './errors.js';
+
+export interface ProgressUpdate {
+  message: string;
+  progress?: number;
+  total?: number;
+}
+
+/**
+ * Handed from the caller (e.g. an MCP tool call) down to long-running service methods:
+ * progress goes up through `onProgress`, cancellation comes down through `signal`
+ */
+export interface TaskContext {
+  signal?: AbortSignal;
+  onProgress?(update: ProgressUpdate): void;
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
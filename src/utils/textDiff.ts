@@ -0,0 +1,61 @@
+/**
+ * Line diff in unified style: unchanged lines prefixed with ' ', removed with '-', added with '+'.
+ * Unchanged runs longer than 2 * context lines are collapsed to '...'.
+ */
+export function diffLines(before: string, after: string, context = 3): string {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`-${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+${b[j]}`);
+      j++;
+    }
+  }
+
+  return collapseContext(lines, context).join('\n');
+}
+
+function collapseContext(lines: string[], context: number): string[] {
+  const changed = lines.map((line) => !line.startsWith(' '));
+  const keep = lines.map((_, index) => {
+    for (
+      let k = Math.max(0, index - context);
+      k <= Math.min(lines.length - 1, index + context);
+      k++
+    ) {
+      if (changed[k]) return true;
+    }
+    return false;
+  });
+
+  const result: string[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    if (keep[index]) {
+      result.push(lines[index]);
+    } else if (result[result.length - 1] !== '...') {
+      result.push('...');
+    }
+  }
+  return result;
+}
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaOptions {
+  /**
+   * Output schemas allow properties they don't list, so response serialization keeps fields
+   * the schema doesn't describe
+   */
+  io?: 'input' | 'output';
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value;
+        break;
+      case 'max':
+        result.maxLength = check.value;
+        break;
+      case 'length':
+        result.minLength = result.maxLength = check.value;
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+      case 'email':
+        result.format = 'email';
+        break;
+      case 'url':
+        result.format = 'uri';
+        break;
+      case 'uuid':
+        result.format = 'uuid';
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+    }
+  }
+  return result;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer';
+        break;
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        result.multipleOf = check.value;
+        break;
+    }
+  }
+  return result;
+}
+
+function objectSchema(schema: z.AnyZodObject, options: JsonSchemaOptions): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+    properties[key] = zodToJsonSchema(value, options);
+    if (!value.isOptional()) required.push(key);
+  }
+
+  const result: JsonSchema = { type: 'object', properties };
+  if (required.length) result.required = required;
+
+  const { catchall, unknownKeys } = schema._def;
+  if (!(catchall instanceof z.ZodNever)) {
+    result.additionalProperties = zodToJsonSchema(catchall, options);
+  } else if (unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  } else if (options.io === 'output') {
+    result.additionalProperties = true;
+  }
+  return result;
+}
+
+/**
+ * Unions of string literals and enums read better as a single enum
+ */
+function unionSchema(options: readonly z.ZodTypeAny[], jsonOptions: JsonSchemaOptions) {
+  const members = options.map((option) => zodToJsonSchema(option, jsonOptions));
+
+  const stringValues = members.every(
+    (member) => member.type === 'string' && ('const' in member || 'enum' in member)
+  );
+  if (stringValues) {
+    return {
+      type: 'string',
+      enum: members.flatMap((member) => ('const' in member ? [member.const] : member.enum)),
+    };
+  }
+  return { anyOf: members };
+}
+
+function convert(schema: z.ZodTypeAny, options: JsonSchemaOptions): JsonSchema {
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodNull) return { type: 'null' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodObject) return objectSchema(schema, options);
+
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    return value === null ? { type: 'null' } : { type: typeof value, const: value };
+  }
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum as Record<string, string | number>);
+    // Numeric enums map names to values and values back to names
+    const numbers = values.filter((value) => typeof value === 'number');
+    return numbers.length ? { type: 'number', enum: numbers } : { type: 'string', enum: values };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element, options) };
+    const { minLength, maxLength, exactLength } = schema._def;
+    if (minLength) result.minItems = minLength.value;
+    if (maxLength) result.maxItems = maxLength.value;
+    if (exactLength) result.minItems = result.maxItems = exactLength.value;
+    return result;
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema, options) };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return unionSchema(schema.options, options);
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return {
+      allOf: [
+        zodToJsonSchema(schema._def.left, options),
+        zodToJsonSchema(schema._def.right, options),
+      ],
+    };
+  }
+
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap(), options);
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap(), options), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema.removeDefault(), options),
+      default: schema._def.defaultValue(),
+    };
+  }
+  // Refinements and transforms can't be expressed; describe what the inner schema accepts
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType(), options);
+  if (schema instanceof z.ZodPipeline) return zodToJsonSchema(schema._def.in, options);
+  if (schema instanceof z.ZodBranded) return zodToJsonSchema(schema.unwrap(), options);
+  if (schema instanceof z.ZodCatch) return zodToJsonSchema(schema.removeCatch(), options);
+  if (schema instanceof z.ZodReadonly) return zodToJsonSchema(schema.unwrap(), options);
+
+  // any, unknown and anything not representable accept every value
+  return {};
+}
+
+/**
+ * JSON Schema (draft 7 / OpenAPI 3.1 subset) describing the values a zod schema accepts
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, options: JsonSchemaOptions = {}): JsonSchema {
+  const result = convert(schema, options);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
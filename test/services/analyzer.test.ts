@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { analyzerService, type AnalysisResult } from '../../src/services/analyzer.js';
+import {
+  modelService,
+  type ModelColumn,
+  type ModelMeasure,
+  type ModelTable,
+  type SemanticModel,
+} from '../../src/services/model.js';
+import { reportService, type ReportLayout, type ReportVisual } from '../../src/services/report.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+function column(table: string, name: string, properties: Partial<ModelColumn> = {}): ModelColumn {
+  return {
+    name,
+    table,
+    type: 'data',
+    dataType: 'string',
+    isHidden: false,
+    isKey: false,
+    ...properties,
+  };
+}
+
+function measure(
+  table: string,
+  name: string,
+  properties: Partial<ModelMeasure> = {}
+): ModelMeasure {
+  return {
+    name,
+    table,
+    expression: '1',
+    formatString: '0',
+    description: 'Documented',
+    isHidden: false,
+    ...properties,
+  };
+}
+
+function table(name: string, columns: ModelColumn[], measures: ModelMeasure[] = []): ModelTable {
+  return {
+    name,
+    isHidden: false,
+    isCalculated: false,
+    columns,
+    measures,
+    hierarchies: [],
+    partitions: [],
+  };
+}
+
+function visual(name: string, type: string, fields: ReportVisual['fields'] = []): ReportVisual {
+  return {
+    name,
+    page: 'p1',
+    type,
+    x: 0,
+    y: 0,
+    z: 0,
+    width: 100,
+    height: 100,
+    isHidden: false,
+    fields,
+  };
+}
+
+const model: SemanticModel = {
+  format: 'bim',
+  path: '/project/Model/database.json',
+  tables: [
+    table(
+      'Sales',
+      [
+        column('Sales', 'DateKey', { dataType: 'double', isHidden: true }),
+        column('Sales', 'ProductKey', { dataType: 'int64' }),
+        column('Sales', 'Amount', { dataType: 'decimal' }),
+        column('Sales', 'LegacyCode', { isHidden: true }),
+        column('Sales', 'Discount', { isHidden: true }),
+        column('Sales', 'OnChart', { isHidden: true }),
+        column('Sales', 'Share', {
+          type: 'calculated',
+          expression: 'DIVIDE(Sales[Amount], CALCULATE(SUM(Sales[Amount]), ALL(Sales)))',
+        }),
+        column('Sales', 'Row', { type: 'calculated', expression: 'Sales[Amount] * 2' }),
+      ],
+      [
+        measure('Sales', 'Net', { expression: 'SUM(Sales[Amount]) - SUM(Sales[Discount])' }),
+        measure('Sales', 'Draft', { formatString: undefined, description: undefined }),
+        measure('Sales', 'Internal', { formatString: undefined, isHidden: true }),
+      ]
+    ),
+    table('Date', [
+      column('Date', 'DateKey', { dataType: 'int64' }),
+      column('Date', 'MonthSort', { isHidden: true, dataType: 'int64' }),
+      column('Date', 'Month', { sortByColumn: 'MonthSort' }),
+    ]),
+    table('Budget', [column('Budget', 'ProductKey', { dataType: 'int64' })]),
+  ],
+  relationships: [
+    {
+      name: 'r1',
+      fromTable: 'Sales',
+      fromColumn: 'DateKey',
+      toTable: 'Date',
+      toColumn: 'DateKey',
+      fromCardinality: 'many',
+      toCardinality: 'one',
+      crossFilteringBehavior: 'bothDirections',
+      isActive: true,
+    },
+    {
+      name: 'r2',
+      fromTable: 'Sales',
+      fromColumn: 'ProductKey',
+      toTable: 'Budget',
+      toColumn: 'ProductKey',
+      fromCardinality: 'many',
+      toCardinality: 'many',
+      crossFilteringBehavior: 'oneDirection',
+      isActive: true,
+    },
+  ],
+  roles: [],
+  expressions: [],
+};
+
+const report: ReportLayout = {
+  format: 'pbir',
+  path: '/project/Report/definition/report.json',
+  pages: [
+    {
+      name: 'p1',
+      displayName: 'Overview',
+      ordinal: 0,
+      isHidden: false,
+      visuals: [
+        visual('v1', 'card', [{ table: 'Sales', name: 'OnChart', kind: 'column', role: 'Values' }]),
+        visual('v2', 'lineChart'),
+        visual('v3', 'slicer'),
+        visual('g1', 'group'),
+      ],
+    },
+  ],
+};
+
+const targets = (result: AnalysisResult) =>
+  result.findings.map((finding) => [finding.ruleId, finding.target.name]);
+
+beforeEach(() => {
+  vi.spyOn(modelService, 'loadModel').mockResolvedValue(model);
+  vi.spyOn(reportService, 'loadReport').mockResolvedValue(report);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AnalyzerService.analyzeProject', () => {
+  it('reports every rule violation with its default severity and file', async () => {
+    const result = await analyzerService.analyzeProject({ projectDir: '/project' });
+
+    expect(targets(result)).toEqual([
+      ['RELATIONSHIP_BIDIRECTIONAL', 'r1'],
+      ['RELATIONSHIP_MANY_TO_MANY', 'r2'],
+      ['FLOATING_POINT_KEY', "'Sales'[DateKey]"],
+      ['MEASURE_NO_FORMAT_STRING', "'Sales'[Draft]"],
+      ['MEASURE_NO_DESCRIPTION', "'Sales'[Draft]"],
+      ['HIDDEN_COLUMN_UNUSED', "'Sales'[LegacyCode]"],
+      ['CALCULATED_COLUMN_AS_MEASURE', "'Sales'[Share]"],
+    ]);
+    expect(result.findings[0]).toMatchObject({
+      severity: 'warning',
+      file: '/project/Model/database.json',
+    });
+    expect(result.summary).toEqual({ error: 0, warning: 5, info: 2 });
+    expect(result.passed).toBe(true);
+  });
+
+  it('applies severities, turns rules off and passes options', async () => {
+    const result = await analyzerService.analyzeProject({
+      projectDir: '/project',
+      rules: {
+        RELATIONSHIP_BIDIRECTIONAL: 'error',
+        MEASURE_NO_DESCRIPTION: 'off',
+        PAGE_TOO_MANY_VISUALS: { options: { maxVisuals: 2 } },
+      },
+    });
+
+    expect(result.rulesApplied).not.toContain('MEASURE_NO_DESCRIPTION');
+    expect(result.findings[0]).toMatchObject({
+      ruleId: 'RELATIONSHIP_BIDIRECTIONAL',
+      severity: 'error',
+    });
+    expect(result.passed).toBe(false);
+    // Groups don't count as visuals
+    expect(result.findings.at(-1)).toEqual({
+      ruleId: 'PAGE_TOO_MANY_VISUALS',
+      severity: 'warning',
+      message: 'Page "Overview" has 3 visuals (maximum 2)',
+      target: { kind: 'page', name: 'p1' },
+      file: '/project/Report/definition/report.json',
+    });
+  });
+
+  it('falls back to the default options with a warning when they are invalid', async () => {
+    const visuals = Array.from({ length: 21 }, (_, i) => visual(`v${i}`, 'card'));
+    vi.spyOn(reportService, 'loadReport').mockResolvedValue({
+      ...report,
+      pages: [{ ...report.pages[0], visuals }],
+    });
+
+    const result = await analyzerService.analyzeProject({
+      projectDir: '/project',
+      rules: { PAGE_TOO_MANY_VISUALS: { options: { maxVisuals: 'two' } } },
+    });
+
+    expect(result.warnings).toEqual([
+      'Invalid options for PAGE_TOO_MANY_VISUALS (maxVisuals: Expected number, received string); using the defaults',
+    ]);
+    expect(result.findings.at(-1)?.message).toBe('Page "Overview" has 21 visuals (maximum 20)');
+  });
+
+  it('rejects unknown rule ids', async () => {
+    await expect(
+      analyzerService.analyzeProject({ projectDir: '/project', rules: { NOT_A_RULE: 'error' } })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('AnalyzerService.toSarif', () => {
+  it('maps findings to SARIF results with project-relative locations', async () => {
+    const result = await analyzerService.analyzeProject({ projectDir: '/project' });
+    const [run] = analyzerService.toSarif(result).runs;
+
+    expect(run.results[0]).toEqual({
+      ruleId: 'RELATIONSHIP_BIDIRECTIONAL',
+      level: 'warning',
+      message: { text: expect.stringContaining('filters in both directions') },
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: 'Model/database.json' } },
+          logicalLocations: [{ fullyQualifiedName: 'r1', kind: 'relationship' }],
+        },
+      ],
+    });
+    expect(run.results.find((r) => r.ruleId === 'MEASURE_NO_DESCRIPTION')?.level).toBe('note');
+  });
+});
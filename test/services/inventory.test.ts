@@ -0,0 +1,212 @@
+import { rm } from 'fs/promises';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ScanResult } from '../../src/services/powerbiClient.js';
+
+// The inventory path is read from the environment when the service module loads
+const { inventoryDir } = await vi.hoisted(async () => {
+  const { mkdtemp } = await import('fs/promises');
+  const os = await import('os');
+  const { join } = await import('path');
+  const dir = await mkdtemp(join(os.tmpdir(), 'inventory-test-'));
+  process.env.INVENTORY_PATH = join(dir, 'inventory.json');
+  return { inventoryDir: dir };
+});
+
+const { inventoryService } = await import('../../src/services/inventory.js');
+const { powerbiClient } = await import('../../src/services/powerbiClient.js');
+
+const sqlServer = {
+  datasourceId: 'src-sql',
+  datasourceType: 'Sql',
+  connectionDetails: { server: 'sql01.contoso.com', database: 'Sales' },
+  gatewayId: 'gw1',
+};
+
+const firstScan: ScanResult = {
+  workspaces: [
+    {
+      id: 'ws1',
+      name: 'Sales',
+      type: 'Workspace',
+      state: 'Active',
+      datasets: [
+        {
+          id: 'd1',
+          name: 'Sales Model',
+          targetStorageMode: 'Import',
+          tables: [
+            {
+              name: 'Orders',
+              columns: [{ name: 'OrderId' }, { name: 'Amount' }],
+              measures: [{ name: 'Revenue', expression: 'SUM(Orders[Amount])', isHidden: false }],
+              source: [{ expression: 'let Source = Sql.Database("sql01.contoso.com", "Sales")' }],
+            },
+          ],
+          datasourceUsages: [{ datasourceInstanceId: 'src-sql' }],
+          misconfiguredDatasourceUsages: [{ datasourceInstanceId: 'src-web' }],
+          upstreamDataflows: [{ targetDataflowId: 'df1', groupId: 'ws1' }],
+        },
+      ],
+      reports: [{ id: 'r1', name: 'Revenue Report', datasetId: 'd1', reportType: 'PowerBIReport' }],
+      dashboards: [
+        {
+          id: 'db1',
+          displayName: 'Revenue',
+          tiles: [{ id: 't1', title: 'Total', reportId: 'r1' }],
+        },
+      ],
+      dataflows: [
+        {
+          objectId: 'df1',
+          name: 'Staging',
+          datasourceUsages: [{ datasourceInstanceId: 'src-sql' }],
+        },
+      ],
+    },
+    { id: 'ws2', name: 'Archive', state: 'Active' },
+  ],
+  datasourceInstances: [sqlServer],
+  misconfiguredDatasourceInstances: [
+    { datasourceId: 'src-web', datasourceType: 'Web', connectionDetails: { url: 'https://x' } },
+  ],
+};
+
+function mockScan(result: ScanResult) {
+  vi.spyOn(powerbiClient, 'postWorkspaceInfo').mockResolvedValue({
+    id: 'scan1',
+    status: 'NotStarted',
+  });
+  vi.spyOn(powerbiClient, 'getScanStatus').mockResolvedValue({ id: 'scan1', status: 'Succeeded' });
+  vi.spyOn(powerbiClient, 'getScanResult').mockResolvedValue(result);
+}
+
+beforeEach(async () => {
+  vi.restoreAllMocks();
+  await rm(path.join(inventoryDir, 'inventory.json'), { force: true });
+});
+
+afterAll(async () => {
+  await rm(inventoryDir, { recursive: true, force: true });
+});
+
+describe('InventoryService.scan', () => {
+  it('normalizes the scan result into the inventory', async () => {
+    mockScan(firstScan);
+
+    const result = await inventoryService.scan({
+      workspaceIds: ['ws1', 'ws2'],
+      pollIntervalSeconds: 0,
+    });
+    expect(result).toMatchObject({
+      incremental: false,
+      scans: 1,
+      lastScanTime: undefined,
+      totals: { workspaces: 2, datasets: 1, reports: 1, dashboards: 1, dataflows: 1 },
+    });
+
+    const inventory = await inventoryService.load();
+    expect(inventory.datasets).toEqual([
+      {
+        id: 'd1',
+        name: 'Sales Model',
+        workspaceId: 'ws1',
+        storageMode: 'Import',
+        tables: [
+          {
+            name: 'Orders',
+            columns: ['OrderId', 'Amount'],
+            measures: [{ name: 'Revenue', expression: 'SUM(Orders[Amount])' }],
+            sources: ['let Source = Sql.Database("sql01.contoso.com", "Sales")'],
+          },
+        ],
+        // Misconfigured datasources are resolved too
+        datasources: [
+          sqlServer,
+          {
+            datasourceId: 'src-web',
+            datasourceType: 'Web',
+            connectionDetails: { url: 'https://x' },
+          },
+        ],
+        upstreamDataflowIds: ['df1'],
+      },
+    ]);
+    expect(inventory.dashboards).toEqual([
+      {
+        id: 'db1',
+        name: 'Revenue',
+        workspaceId: 'ws1',
+        tiles: [{ id: 't1', title: 'Total', reportId: 'r1' }],
+      },
+    ]);
+    expect(inventory.dataflows).toEqual([
+      { id: 'df1', name: 'Staging', workspaceId: 'ws1', datasources: [sqlServer] },
+    ]);
+  });
+
+  it('replaces rescanned workspaces and drops deleted ones', async () => {
+    mockScan(firstScan);
+    await inventoryService.scan({ workspaceIds: ['ws1', 'ws2'], pollIntervalSeconds: 0 });
+
+    mockScan({
+      workspaces: [
+        { id: 'ws1', name: 'Sales', reports: [{ id: 'r2', name: 'New Report' }] },
+        { id: 'ws2', state: 'Deleted' },
+      ],
+    });
+    await inventoryService.scan({ workspaceIds: ['ws1', 'ws2'], pollIntervalSeconds: 0 });
+
+    const inventory = await inventoryService.load();
+    expect(inventory.workspaces.map((ws) => ws.id)).toEqual(['ws1']);
+    expect(inventory.reports.map((report) => report.id)).toEqual(['r2']);
+    expect(inventory.datasets).toEqual([]);
+  });
+});
+
+describe('InventoryService queries', () => {
+  beforeEach(async () => {
+    mockScan(firstScan);
+    await inventoryService.scan({ workspaceIds: ['ws1', 'ws2'], pollIntervalSeconds: 0 });
+  });
+
+  it('finds datasource usage by connection details and M expressions', async () => {
+    const usage = await inventoryService.findDatasourceUsage({ server: 'sql01' });
+
+    expect(usage.matches).toEqual([
+      {
+        kind: 'dataset',
+        id: 'd1',
+        name: 'Sales Model',
+        workspaceId: 'ws1',
+        workspaceName: 'Sales',
+        datasources: [sqlServer],
+        tables: ['Orders'],
+      },
+      {
+        kind: 'dataflow',
+        id: 'df1',
+        name: 'Staging',
+        workspaceId: 'ws1',
+        workspaceName: 'Sales',
+        datasources: [sqlServer],
+        tables: [],
+      },
+    ]);
+  });
+
+  it('searches names across item types', async () => {
+    const { hits } = await inventoryService.search({ query: 'revenue' });
+
+    expect(hits.map((hit) => [hit.type, hit.name])).toEqual([
+      ['measure', 'Orders[Revenue]'],
+      ['report', 'Revenue Report'],
+      ['dashboard', 'Revenue'],
+    ]);
+    expect(hits[0]).toMatchObject({ datasetName: 'Sales Model', workspaceName: 'Sales' });
+
+    const reports = await inventoryService.search({ query: 'revenue', types: ['report'] });
+    expect(reports.total).toBe(1);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { lineageService } from '../../src/services/lineage.js';
+import { powerbiClient } from '../../src/services/powerbiClient.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+const list = <T>(value: T[]) => ({ value });
+
+beforeEach(() => {
+  const workspaceNames: Record<string, string> = { ws1: 'Sales', ws2: 'Finance' };
+  vi.spyOn(powerbiClient, 'getWorkspace').mockImplementation(async (id) => ({
+    name: workspaceNames[id],
+  }));
+
+  vi.spyOn(powerbiClient, 'listDatasets').mockImplementation(async (workspaceId) =>
+    workspaceId === 'ws1'
+      ? list([{ id: 'd1', name: 'Sales Model' }])
+      : list([{ id: 'd2', name: 'Finance Model' }])
+  );
+
+  vi.spyOn(powerbiClient, 'listDatasources').mockResolvedValue(
+    list([{ datasourceType: 'Sql', connectionDetails: { server: 'sql01', database: 'dw' } }])
+  );
+
+  vi.spyOn(powerbiClient, 'listReports').mockImplementation(async (workspaceId) =>
+    workspaceId === 'ws1'
+      ? list([
+          { id: 'r1', name: 'Sales Overview', datasetId: 'd1' },
+          // Bound to a dataset of a workspace that is read later
+          { id: 'r2', name: 'Budget vs Actual', datasetId: 'd2', datasetWorkspaceId: 'ws2' },
+          // Bound to datasets of workspaces that are not requested
+          { id: 'r3', name: 'Shared', datasetId: 'd3', datasetWorkspaceId: 'ws3' },
+          { id: 'r4', name: 'Locked', datasetId: 'd4', datasetWorkspaceId: 'ws4' },
+        ])
+      : list([])
+  );
+
+  vi.spyOn(powerbiClient, 'getDataset').mockImplementation(async (workspaceId) => {
+    if (workspaceId === 'ws4') throw new Error('Forbidden');
+    return { name: 'Company Model' };
+  });
+
+  vi.spyOn(powerbiClient, 'listDataflows').mockImplementation(async (workspaceId) =>
+    list([{ objectId: `df-${workspaceId}`, name: `Staging ${workspaceId}` }])
+  );
+  vi.spyOn(powerbiClient, 'getDataflowUpstreamDataflows').mockImplementation(async (workspaceId) =>
+    workspaceId === 'ws1' ? list([{ targetDataflowId: 'df-ws2', groupId: 'ws2' }]) : list([])
+  );
+  vi.spyOn(powerbiClient, 'getDatasetUpstreamDataflows').mockImplementation(async (workspaceId) =>
+    workspaceId === 'ws1'
+      ? list([{ datasetObjectId: 'd1', dataflowObjectId: 'df-ws1', workspaceObjectId: 'ws1' }])
+      : list([])
+  );
+
+  vi.spyOn(powerbiClient, 'listDashboards').mockImplementation(async (workspaceId) => {
+    if (workspaceId === 'ws2') throw new Error('Unauthorized');
+    return list([{ id: 'db1', displayName: 'Executive' }]);
+  });
+  vi.spyOn(powerbiClient, 'listDashboardTiles').mockResolvedValue(
+    list([
+      { id: 't1', reportId: 'r1' },
+      { id: 't2', reportId: 'r1' },
+      { id: 't3', datasetId: 'd1' },
+    ])
+  );
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('LineageService.buildGraph', () => {
+  it('links items across workspaces and marks unrequested ones as external', async () => {
+    const graph = await lineageService.buildGraph({
+      workspaceIds: ['ws1', 'ws2'],
+      includeDatasources: true,
+    });
+
+    expect(graph.workspaces).toEqual([
+      { id: 'ws1', name: 'Sales' },
+      { id: 'ws2', name: 'Finance' },
+    ]);
+
+    const nodes = Object.fromEntries(graph.nodes.map((node) => [node.key, node]));
+    // Referenced from ws1 first, then listed in ws2: no longer external
+    expect(nodes['dataset:d2']).toEqual({
+      key: 'dataset:d2',
+      type: 'dataset',
+      id: 'd2',
+      name: 'Finance Model',
+      workspaceId: 'ws2',
+    });
+    expect(nodes['dataflow:df-ws2']).not.toHaveProperty('external');
+    // Outside the requested workspaces: named through getDataset where accessible
+    expect(nodes['dataset:d3']).toMatchObject({ name: 'Company Model', external: true });
+    expect(nodes['dataset:d4']).toMatchObject({ name: 'd4', external: true });
+    // The same datasource behind both datasets is one node
+    expect(nodes['datasource:Sql: sql01/dw']).toEqual({
+      key: 'datasource:Sql: sql01/dw',
+      type: 'datasource',
+      id: 'Sql: sql01/dw',
+      name: 'Sql: sql01/dw',
+    });
+
+    expect(graph.warnings).toEqual([
+      'Dashboards of workspace ws2: Unauthorized',
+      'Dataset d4 in workspace ws4 is not accessible',
+    ]);
+  });
+
+  it('keeps each edge once', async () => {
+    const graph = await lineageService.buildGraph({
+      workspaceIds: ['ws1', 'ws2'],
+      includeDatasources: true,
+    });
+
+    expect(graph.edges.map(({ from, to }) => `${from} -> ${to}`)).toEqual([
+      'datasource:Sql: sql01/dw -> dataset:d1',
+      'dataset:d1 -> report:r1',
+      'dataset:d2 -> report:r2',
+      'dataset:d3 -> report:r3',
+      'dataset:d4 -> report:r4',
+      'dataflow:df-ws2 -> dataflow:df-ws1',
+      'dataflow:df-ws1 -> dataset:d1',
+      'report:r1 -> dashboard:db1',
+      'dataset:d1 -> dashboard:db1',
+      'datasource:Sql: sql01/dw -> dataset:d2',
+    ]);
+  });
+
+  it('only lists datasources when asked to', async () => {
+    const graph = await lineageService.buildGraph({ workspaceIds: ['ws1'] });
+
+    expect(powerbiClient.listDatasources).not.toHaveBeenCalled();
+    expect(graph.nodes.some((node) => node.type === 'datasource')).toBe(false);
+  });
+
+  it('requires a workspace', async () => {
+    await expect(lineageService.buildGraph({ workspaceIds: [] })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
+
+describe('LineageService.getImpact', () => {
+  it('walks downstream with the path to each item', async () => {
+    const impact = await lineageService.getImpact({
+      workspaceIds: ['ws1', 'ws2'],
+      itemType: 'dataflow',
+      itemId: 'df-ws2',
+    });
+
+    expect(impact.affected.map((item) => [item.key, item.depth, item.path.join(' > ')])).toEqual([
+      ['dataflow:df-ws1', 1, 'Staging ws2 > Staging ws1'],
+      ['dataset:d1', 2, 'Staging ws2 > Staging ws1 > Sales Model'],
+      ['report:r1', 3, 'Staging ws2 > Staging ws1 > Sales Model > Sales Overview'],
+      ['dashboard:db1', 3, 'Staging ws2 > Staging ws1 > Sales Model > Executive'],
+    ]);
+    expect(impact.summary).toEqual({ dataflow: 1, dataset: 1, report: 1, dashboard: 1 });
+    expect(impact.crossWorkspace).toBe(4);
+  });
+});
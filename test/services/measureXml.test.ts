@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseMeasureXml, serializeMeasureXml } from '../../src/services/measureXml.js';
+
+const source = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<Measure Name="Sales &amp; Returns">',
+  '  <FormatString>"$"#,0.00;("$"#,0.00)</FormatString>',
+  '  <DisplayFolder>Finance</DisplayFolder>',
+  '  <IsHidden>true</IsHidden>',
+  '  <Description><![CDATA[Sales <net> of returns]]></Description>',
+  '  <ChangedProperties>[{"property":"FormatString"}]</ChangedProperties>',
+  '  <Annotation Name="Format"><Format Format="Currency"><Currency /></Format></Annotation>',
+  '  <Annotation Name="PBI_FormatHint">{"currencyCulture":"en-US"}</Annotation>',
+  '</Measure>',
+  '',
+].join('\r\n');
+
+describe('parseMeasureXml', () => {
+  it('reads properties, JSON values, CDATA and embedded annotation markup', () => {
+    expect(parseMeasureXml(source)).toEqual({
+      name: 'Sales & Returns',
+      formatString: '"$"#,0.00;("$"#,0.00)',
+      displayFolder: 'Finance',
+      isHidden: true,
+      description: 'Sales <net> of returns',
+      changedProperties: [{ property: 'FormatString' }],
+      annotations: [
+        { name: 'Format', value: '<Format Format="Currency"><Currency /></Format>' },
+        { name: 'PBI_FormatHint', value: '{"currencyCulture":"en-US"}' },
+      ],
+    });
+  });
+
+  it('reads self-closing and nested elements of the same name', () => {
+    const measure = parseMeasureXml(
+      '<Measure Name="X"><Description /><Annotation Name="A"><Annotation>inner</Annotation></Annotation></Measure>'
+    );
+
+    expect(measure).toEqual({
+      name: 'X',
+      description: '',
+      annotations: [{ name: 'A', value: '<Annotation>inner</Annotation>' }],
+    });
+  });
+});
+
+describe('serializeMeasureXml', () => {
+  it('writes back what it read', () => {
+    const declaration = '<?xml version="1.0" encoding="utf-8"?>';
+    const written = serializeMeasureXml(parseMeasureXml(source), { eol: '\r\n', declaration });
+
+    expect(parseMeasureXml(written)).toEqual(parseMeasureXml(source));
+    expect(written.startsWith(`${declaration}\r\n<Measure Name="Sales &amp; Returns">\r\n`)).toBe(
+      true
+    );
+    expect(written).toContain(
+      '  <Annotation Name="Format"><Format Format="Currency"><Currency /></Format></Annotation>'
+    );
+    expect(written).toContain('  <Description>Sales &lt;net&gt; of returns</Description>');
+  });
+
+  it('leaves the expression to the .dax file', () => {
+    expect(
+      serializeMeasureXml({ name: 'Count', expression: 'COUNTROWS(Sales)', lineageTag: 'abc' })
+    ).toBe('<Measure Name="Count">\n  <LineageTag>abc</LineageTag>\n</Measure>\n');
+  });
+});
@@ -0,0 +1,220 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { modelEditorService } from '../../src/services/modelEditor.js';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(os.tmpdir(), 'model-editor-test-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+async function writeFiles(files: Record<string, string | Buffer>) {
+  for (const [name, content] of Object.entries(files)) {
+    const file = path.join(root, name);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content);
+  }
+}
+
+const read = (name: string) => readFile(path.join(root, name), 'utf8');
+
+describe('TMDL', () => {
+  const definition = 'Sales.SemanticModel/definition';
+  const salesFile = `${definition}/tables/Sales.tmdl`;
+
+  const revenue = [
+    '\t/// Total revenue',
+    '\tmeasure Revenue = SUM(Sales[Amount])',
+    '\t\tformatString: #,0',
+    '\t\tlineageTag: m1',
+    '',
+    '\t\tannotation PBI_FormatHint = {"isGeneralNumber":true}',
+  ];
+  const orderCount = ["\tmeasure 'Order Count' = COUNTROWS(Sales)", '\t\tlineageTag: m2'];
+  const rest = [
+    '\tcolumn Amount',
+    '\t\tdataType: decimal',
+    '\t\tlineageTag: c1',
+    '\t\tsummarizeBy: sum',
+    '\t\tsourceColumn: Amount',
+    '',
+    '\tpartition Sales = m',
+    '\t\tmode: import',
+    '\t\tsource =',
+    '\t\t\t\tlet',
+    '\t\t\t\t\tSource = Sql.Database("sql01", "dw")',
+    '\t\t\t\tin',
+    '\t\t\t\t\tSource',
+    '',
+  ];
+  const sales = (...measures: string[][]) =>
+    ['table Sales', '\tlineageTag: t1', '', ...measures.flatMap((m) => [...m, '']), ...rest].join(
+      '\r\n'
+    );
+
+  const model = ['model Model', '\tculture: en-US', '', 'ref table Sales', 'ref table Date', ''];
+  const date = [
+    'table Date',
+    '\tlineageTag: t2',
+    '',
+    '\tcolumn Date',
+    '\t\tdataType: dateTime',
+    '',
+  ];
+
+  beforeEach(async () => {
+    await writeFiles({
+      [`${definition}/model.tmdl`]: model.join('\n'),
+      [`${definition}/tables/Date.tmdl`]: date.join('\n'),
+      [salesFile]: sales(revenue, orderCount),
+    });
+  });
+
+  it('rewrites only the lines of the updated measure', async () => {
+    const result = await modelEditorService.updateMeasure({
+      projectDir: root,
+      name: 'Revenue',
+      expression: 'SUMX(Sales, Sales[Qty] * Sales[Price])',
+      formatString: '#,0.00',
+    });
+
+    expect(result.filesModified).toEqual([path.join(root, salesFile)]);
+    const updated = [...revenue];
+    updated[1] = '\tmeasure Revenue = SUMX(Sales, Sales[Qty] * Sales[Price])';
+    updated[2] = '\t\tformatString: #,0.00';
+    expect(await read(salesFile)).toBe(sales(updated, orderCount));
+
+    expect(await read(`${definition}/model.tmdl`)).toBe(model.join('\n'));
+    expect(await read(`${definition}/tables/Date.tmdl`)).toBe(date.join('\n'));
+  });
+
+  it('renames and deletes measures without touching the rest of the table', async () => {
+    await modelEditorService.renameMeasure({ projectDir: root, name: 'Revenue', newName: 'Sales' });
+    const renamed = [...revenue];
+    renamed[1] = '\tmeasure Sales = SUM(Sales[Amount])';
+    expect(await read(salesFile)).toBe(sales(renamed, orderCount));
+
+    await modelEditorService.deleteMeasure({ projectDir: root, name: 'Order Count' });
+    expect(await read(salesFile)).toBe(sales(renamed));
+  });
+
+  it('adds a measure after the last one', async () => {
+    await modelEditorService.addMeasure({
+      projectDir: root,
+      table: 'Sales',
+      name: 'Margin %',
+      expression: 'DIVIDE([Margin], [Revenue])',
+      formatString: '0.0%',
+    });
+
+    const content = await read(salesFile);
+    const lineageTag = /measure 'Margin %'[^]*?lineageTag: ([\w-]+)/.exec(content)?.[1];
+    const added = [
+      "\tmeasure 'Margin %' = DIVIDE([Margin], [Revenue])",
+      '\t\tformatString: 0.0%',
+      `\t\tlineageTag: ${lineageTag}`,
+    ];
+    expect(content).toBe(sales(revenue, orderCount, added));
+  });
+});
+
+describe('.bim', () => {
+  const database = () => ({
+    name: 'Sales',
+    compatibilityLevel: 1567,
+    model: {
+      culture: 'en-US',
+      tables: [
+        {
+          name: 'Sales',
+          lineageTag: 't1',
+          columns: [{ name: 'Amount', dataType: 'decimal', sourceColumn: 'Amount' }],
+          measures: [
+            {
+              name: 'Revenue',
+              expression: 'SUM(Sales[Amount])',
+              formatString: '#,0',
+              lineageTag: 'm1',
+              annotations: [{ name: 'PBI_FormatHint', value: '{"isGeneralNumber":true}' }],
+            },
+            { name: 'Orders', expression: 'COUNTROWS(Sales)', lineageTag: 'm2' },
+          ],
+          partitions: [{ name: 'Sales', source: { type: 'm', expression: ['let', 'in'] } }],
+        },
+      ],
+      annotations: [{ name: 'PBIDesktopVersion', value: '2.128' }],
+    },
+  });
+
+  it('updates the measure in place and writes everything else back unchanged', async () => {
+    await writeFiles({ 'model.bim': JSON.stringify(database(), null, 2) });
+
+    await modelEditorService.updateMeasure({
+      projectDir: root,
+      name: 'Revenue',
+      expression: 'SUMX(Sales,\n  Sales[Qty] * Sales[Price])',
+      formatString: '',
+      displayFolder: 'KPIs',
+    });
+
+    const expected = database();
+    const [revenue] = expected.model.tables[0].measures;
+    Object.assign(revenue, {
+      expression: ['SUMX(Sales,', '  Sales[Qty] * Sales[Price])'],
+      // An empty format string removes the property
+      formatString: undefined,
+      displayFolder: 'KPIs',
+    });
+    expect(await read('model.bim')).toBe(JSON.stringify(expected, null, 2));
+  });
+
+  it('keeps UTF-16 model files (DataModelSchema) in UTF-16 with a BOM', async () => {
+    const text = JSON.stringify(database(), null, 2);
+    await writeFiles({ DataModelSchema: Buffer.from(`﻿${text}`, 'utf16le') });
+
+    await modelEditorService.deleteMeasure({ projectDir: root, name: 'Orders' });
+
+    const expected = database();
+    expected.model.tables[0].measures.pop();
+    const written = await readFile(path.join(root, 'DataModelSchema'));
+    expect([...written.subarray(0, 2)]).toEqual([0xff, 0xfe]);
+    expect(written.toString('utf16le')).toBe(`﻿${JSON.stringify(expected, null, 2)}`);
+  });
+});
+
+describe('pbi-tools', () => {
+  it('writes measure metadata back to the .xml file it came from', async () => {
+    const xml = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<Measure Name="Revenue">',
+      '  <FormatString>#,0</FormatString>',
+      '  <LineageTag>m1</LineageTag>',
+      '</Measure>',
+      '',
+    ].join('\r\n');
+    await writeFiles({
+      'Model/database.json': JSON.stringify({ name: 'Sales', model: { culture: 'en-US' } }),
+      'Model/tables/Sales/table.json': JSON.stringify({ name: 'Sales' }),
+      'Model/tables/Sales/measures/Revenue.dax': 'SUM(Sales[Amount])',
+      'Model/tables/Sales/measures/Revenue.xml': xml,
+    });
+
+    await modelEditorService.updateMeasure({
+      projectDir: root,
+      name: 'Revenue',
+      formatString: '#,0.00',
+    });
+
+    expect(await read('Model/tables/Sales/measures/Revenue.xml')).toBe(
+      xml.replace('#,0<', '#,0.00<')
+    );
+    expect(await read('Model/tables/Sales/measures/Revenue.dax')).toBe('SUM(Sales[Amount])');
+  });
+});
@@ -0,0 +1,242 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { reportService } from '../../src/services/report.js';
+
+let root: string;
+
+async function writeJson(file: string, value: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(value));
+}
+
+const column = (source: string, property: string) => ({
+  Column: { Expression: { SourceRef: { Source: source } }, Property: property },
+});
+
+const entityColumn = (entity: string, property: string) => ({
+  Column: { Expression: { SourceRef: { Entity: entity } }, Property: property },
+});
+
+const title = (text: string) => ({
+  title: [{ properties: { text: { expr: { Literal: { Value: `'${text}'` } } } } }],
+});
+
+beforeAll(async () => {
+  root = await mkdtemp(path.join(os.tmpdir(), 'report-test-'));
+
+  // Legacy report.json: configs and filters are JSON strings, tables go through From aliases
+  const chart = {
+    name: 'chart1',
+    layouts: [{ position: { x: 1, y: 2, z: 3, width: 400, height: 300 } }],
+    singleVisual: {
+      visualType: 'clusteredColumnChart',
+      projections: { Category: [{ queryRef: 'd.Year' }], Y: [{ queryRef: 'Sum(s.Amount)' }] },
+      prototypeQuery: {
+        From: [
+          { Name: 's', Entity: 'Sales' },
+          { Name: 'd', Entity: 'Date' },
+        ],
+        Select: [
+          { ...column('d', 'Year'), Name: 'd.Year' },
+          {
+            Aggregation: { Expression: column('s', 'Amount'), Function: 0 },
+            Name: 'Sum(s.Amount)',
+          },
+        ],
+      },
+      vcObjects: title("Sales by Year's end"),
+    },
+  };
+  const group = { name: 'group1', singleVisualGroup: { displayName: 'Header', isHidden: true } };
+
+  await writeJson(path.join(root, 'legacy', 'Report', 'report.json'), {
+    sections: [
+      {
+        name: 'ReportSection2',
+        displayName: 'Details',
+        ordinal: 1,
+        config: JSON.stringify({ visibility: 1 }),
+        visualContainers: [],
+      },
+      {
+        name: 'ReportSection1',
+        displayName: 'Overview',
+        ordinal: 0,
+        width: 1280,
+        height: 720,
+        visualContainers: [
+          {
+            x: 10,
+            config: JSON.stringify(chart),
+            filters: JSON.stringify([{ expression: entityColumn('Product', 'Color') }]),
+          },
+          { config: JSON.stringify(group) },
+          { config: 'not json' },
+        ],
+      },
+    ],
+  });
+
+  // PBIR: one folder per page and visual, entities named directly
+  const definition = path.join(root, 'pbir', 'Sales.Report', 'definition');
+  await writeJson(path.join(definition, 'report.json'), {});
+  await writeJson(path.join(definition, 'pages', 'pages.json'), { pageOrder: ['p2', 'p1'] });
+  await writeJson(path.join(definition, 'pages', 'p1', 'page.json'), {
+    name: 'p1',
+    displayName: 'Trend',
+    visibility: 'HiddenInViewMode',
+  });
+  await writeJson(path.join(definition, 'pages', 'p2', 'page.json'), {
+    name: 'p2',
+    displayName: 'Summary',
+    width: 1280,
+    height: 720,
+  });
+  await writeJson(path.join(definition, 'pages', 'p2', 'visuals', 'v1', 'visual.json'), {
+    name: 'v1',
+    position: { x: 5, y: 6, z: 1000, width: 200, height: 100 },
+    visual: {
+      visualType: 'lineChart',
+      query: {
+        queryState: {
+          Category: {
+            projections: [
+              {
+                field: {
+                  HierarchyLevel: {
+                    Expression: {
+                      Hierarchy: {
+                        Expression: { SourceRef: { Entity: 'Date' } },
+                        Hierarchy: 'Calendar',
+                      },
+                    },
+                    Level: 'Month',
+                  },
+                },
+              },
+            ],
+          },
+          Y: {
+            projections: [
+              {
+                field: {
+                  Measure: { Expression: { SourceRef: { Entity: 'Sales' } }, Property: 'Margin' },
+                },
+              },
+            ],
+          },
+        },
+      },
+      visualContainerObjects: title('Margin trend'),
+    },
+    filterConfig: { filters: [{ field: entityColumn('Product', 'Category') }] },
+  });
+  await writeJson(path.join(definition, 'pages', 'p2', 'visuals', 'g1', 'visual.json'), {
+    name: 'g1',
+    visualGroup: { displayName: 'Filters' },
+    isHidden: true,
+  });
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('ReportService.loadReport', () => {
+  it('reads legacy report.json sections with string configs and From aliases', async () => {
+    const report = await reportService.loadReport(path.join(root, 'legacy'));
+
+    expect(report.format).toBe('legacy');
+    expect(report.pages.map(({ visuals, ...page }) => page)).toEqual([
+      {
+        name: 'ReportSection1',
+        displayName: 'Overview',
+        ordinal: 0,
+        width: 1280,
+        height: 720,
+        isHidden: false,
+      },
+      {
+        name: 'ReportSection2',
+        displayName: 'Details',
+        ordinal: 1,
+        width: undefined,
+        height: undefined,
+        isHidden: true,
+      },
+    ]);
+
+    const [chart, group, broken] = report.pages[0].visuals;
+    expect(chart).toEqual({
+      name: 'chart1',
+      page: 'ReportSection1',
+      type: 'clusteredColumnChart',
+      title: "Sales by Year's end",
+      // The container position wins over the one saved in the config
+      x: 10,
+      y: 2,
+      z: 3,
+      width: 400,
+      height: 300,
+      isHidden: false,
+      parentGroup: undefined,
+      fields: [
+        { table: 'Date', name: 'Year', kind: 'column', role: 'Category' },
+        { table: 'Sales', name: 'Amount', kind: 'column', role: 'Y', aggregation: 'Sum' },
+        { table: 'Product', name: 'Color', kind: 'column', role: 'Filter' },
+      ],
+    });
+    expect(group).toMatchObject({ name: 'group1', type: 'group', title: 'Header', isHidden: true });
+    expect(broken).toMatchObject({ type: 'unknown', x: 0, fields: [] });
+  });
+
+  it('reads PBIR pages in pageOrder with their visuals', async () => {
+    const report = await reportService.loadReport(path.join(root, 'pbir'));
+
+    expect(report.format).toBe('pbir');
+    expect(report.pages.map((page) => [page.name, page.displayName, page.isHidden])).toEqual([
+      ['p2', 'Summary', false],
+      ['p1', 'Trend', true],
+    ]);
+
+    const [group, line] = report.pages[0].visuals;
+    expect(line).toEqual({
+      name: 'v1',
+      page: 'p2',
+      type: 'lineChart',
+      title: 'Margin trend',
+      x: 5,
+      y: 6,
+      z: 1000,
+      width: 200,
+      height: 100,
+      isHidden: false,
+      parentGroup: undefined,
+      fields: [
+        { table: 'Date', name: 'Calendar.Month', kind: 'hierarchyLevel', role: 'Category' },
+        { table: 'Sales', name: 'Margin', kind: 'measure', role: 'Y' },
+        { table: 'Product', name: 'Category', kind: 'column', role: 'Filter' },
+      ],
+    });
+    expect(group).toMatchObject({ name: 'g1', type: 'group', title: 'Filters', isHidden: true });
+  });
+});
+
+describe('ReportService.listVisuals', () => {
+  it('filters by page display name and by bound field', async () => {
+    const project = path.join(root, 'legacy');
+
+    const onPage = await reportService.listVisuals(project, { page: 'overview' });
+    expect(onPage.map((visual) => visual.name)).toEqual(['chart1', 'group1', '']);
+
+    const bound = await reportService.listVisuals(project, { field: "'sales'[amount]" });
+    expect(bound.map((visual) => visual.name)).toEqual(['chart1']);
+
+    await expect(reportService.listVisuals(project, { page: 'Missing' })).rejects.toThrow(
+      'Page not found: Missing'
+    );
+  });
+});
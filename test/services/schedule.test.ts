@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { powerbiClient } from '../../src/services/powerbiClient.js';
+import {
+  directQueryRefreshScheduleSchema,
+  refreshScheduleSchema,
+  scheduleService,
+} from '../../src/services/schedule.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function halfHours(count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const hour = String(Math.floor(i / 2)).padStart(2, '0');
+    return `${hour}:${i % 2 ? '30' : '00'}`;
+  });
+}
+
+describe('refreshScheduleSchema', () => {
+  it('accepts a partial schedule', () => {
+    const schedule = {
+      days: ['Monday', 'Friday'],
+      times: ['07:00', '18:30'],
+      localTimeZoneId: 'W. Europe Standard Time',
+    };
+
+    expect(refreshScheduleSchema.parse(schedule)).toEqual(schedule);
+    expect(refreshScheduleSchema.parse({})).toEqual({});
+  });
+
+  it.each([['7:00'], ['07:15'], ['24:00']])('rejects the time %s', (time) => {
+    expect(refreshScheduleSchema.safeParse({ times: [time] }).success).toBe(false);
+  });
+
+  it('accepts every half hour of the day but rejects duplicate times', () => {
+    expect(refreshScheduleSchema.safeParse({ times: halfHours(48) }).success).toBe(true);
+    expect(refreshScheduleSchema.safeParse({ times: ['07:00', '07:00'] }).success).toBe(false);
+  });
+
+  it('rejects unknown days, time zones and properties', () => {
+    expect(refreshScheduleSchema.safeParse({ days: ['Mon'] }).success).toBe(false);
+    expect(refreshScheduleSchema.safeParse({ localTimeZoneId: 'Europe/Berlin' }).success).toBe(
+      false
+    );
+    expect(refreshScheduleSchema.safeParse({ frequency: 30 }).success).toBe(false);
+  });
+});
+
+describe('directQueryRefreshScheduleSchema', () => {
+  it('accepts either a frequency or days and times', () => {
+    expect(directQueryRefreshScheduleSchema.safeParse({ frequency: 15 }).success).toBe(true);
+    expect(
+      directQueryRefreshScheduleSchema.safeParse({ days: ['Sunday'], times: ['02:00'] }).success
+    ).toBe(true);
+  });
+
+  it('rejects unsupported frequencies and mixing frequency with times', () => {
+    expect(directQueryRefreshScheduleSchema.safeParse({ frequency: 45 }).success).toBe(false);
+    expect(
+      directQueryRefreshScheduleSchema.safeParse({ frequency: 60, times: ['02:00'] }).success
+    ).toBe(false);
+  });
+});
+
+describe('ScheduleService.updateRefreshSchedule', () => {
+  const target = { workspaceId: 'ws', datasetId: 'ds' };
+
+  it('rejects an invalid schedule without calling the API', async () => {
+    const update = vi.spyOn(powerbiClient, 'updateRefreshSchedule');
+
+    await expect(
+      scheduleService.updateRefreshSchedule({ ...target, schedule: { times: ['07:10'] } })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('limits workspaces on shared capacity to 8 refresh times', async () => {
+    vi.spyOn(powerbiClient, 'getWorkspace').mockResolvedValue({ isOnDedicatedCapacity: false });
+    const update = vi.spyOn(powerbiClient, 'updateRefreshSchedule');
+
+    await expect(
+      scheduleService.updateRefreshSchedule({ ...target, schedule: { times: halfHours(9) } })
+    ).rejects.toThrow('at most 8 refresh times per day (got 9)');
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('allows more refresh times on Premium capacity', async () => {
+    const schedule = { times: halfHours(9) };
+    const update = vi.spyOn(powerbiClient, 'updateRefreshSchedule').mockResolvedValue(undefined);
+    vi.spyOn(powerbiClient, 'getRefreshSchedule').mockResolvedValue(schedule);
+
+    await expect(
+      scheduleService.updateRefreshSchedule({ ...target, schedule, premiumCapacity: true })
+    ).resolves.toEqual({ success: true, schedule });
+    expect(update).toHaveBeenCalledWith('ws', 'ds', schedule);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+
+import { contrastRatio, validateReportTheme } from '../../src/services/themeValidation.js';
+
+describe('validateReportTheme', () => {
+  it('accepts a complete theme', () => {
+    const result = validateReportTheme({
+      name: 'Corporate',
+      dataColors: ['#118DFF', '#12239E', '#E66C37'],
+      background: '#FFFFFF',
+      foreground: '#252423',
+      textClasses: { title: { fontFace: 'Segoe UI', fontSize: 14, color: '#252423' } },
+      visualStyles: { '*': { '*': { background: [{ color: { solid: { color: '#F3F2F1' } } }] } } },
+    });
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports schema errors with their path', () => {
+    const result = validateReportTheme({
+      dataColors: ['#118DFF', 'blue'],
+      textClasses: { label: { fontSize: -1 } },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual([
+      'name',
+      'dataColors[1]',
+      'textClasses.label.fontSize',
+    ]);
+  });
+
+  it('allows a missing name when it is not required', () => {
+    expect(validateReportTheme({ dataColors: ['#fff'] }, { requireName: false }).valid).toBe(true);
+  });
+
+  it('checks colors nested in visualStyles', () => {
+    const result = validateReportTheme({
+      name: 'Nested',
+      visualStyles: { card: { '*': { labels: [{ color: { solid: { color: 'red' } } }] } } },
+    });
+
+    expect(result.errors).toEqual([
+      {
+        path: 'visualStyles.card.*.labels[0].color.solid.color',
+        message: 'Invalid hex color "red"',
+      },
+    ]);
+  });
+
+  it('rejects an empty theme', () => {
+    expect(validateReportTheme({}, { requireName: false }).errors).toEqual([
+      { path: '(root)', message: 'Theme is empty' },
+    ]);
+  });
+
+  it('keeps unknown keys valid and reports them as warnings', () => {
+    const result = validateReportTheme({
+      name: 'Legacy',
+      sentimentColors: ['#1AAB40', '#D64554'],
+      textClasses: {
+        callout: { fontSize: 45, fontWeight: 'bold' },
+        customClass: { color: '#000000' },
+      },
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((warning) => warning.path)).toEqual([
+      'sentimentColors',
+      'textClasses.callout.fontWeight',
+      'textClasses.customClass',
+    ]);
+  });
+});
+
+describe('contrast', () => {
+  it('computes WCAG contrast ratios', () => {
+    expect(contrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21);
+    expect(contrastRatio('#FFF', '#FFFFFF')).toBeCloseTo(1);
+    expect(contrastRatio('#767676', '#FFFFFF')).toBeCloseTo(4.54, 2);
+  });
+
+  it('warns about low contrast text against the background', () => {
+    const result = validateReportTheme(
+      { name: 'Low', foreground: '#999999', background: '#FFFFFF' },
+      { checkContrast: true }
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      {
+        path: 'foreground',
+        message: 'Contrast 2.85:1 of #999999 on #FFFFFF is below WCAG AA (4.5:1)',
+      },
+    ]);
+  });
+
+  it('applies the lower large-text threshold from 18pt', () => {
+    // #949494 on white is about 3.03:1: enough for large text at AA, not for normal text
+    const theme = {
+      name: 'Sizes',
+      textClasses: {
+        title: { fontSize: 18, color: '#949494' },
+        label: { fontSize: 12, color: '#949494' },
+      },
+    };
+
+    const aa = validateReportTheme(theme, { checkContrast: true });
+    expect(aa.warnings.map((warning) => warning.path)).toEqual(['textClasses.label.color']);
+
+    const aaa = validateReportTheme(theme, { checkContrast: true, contrastLevel: 'AAA' });
+    expect(aaa.warnings.map((warning) => warning.path)).toEqual([
+      'textClasses.title.color',
+      'textClasses.label.color',
+    ]);
+  });
+});
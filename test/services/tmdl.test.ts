@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  parseTmdl,
+  quoteTmdlName,
+  serializeTmdlMeasure,
+  splitQualifiedName,
+  tmdlToTomDatabase,
+  type TmdlMeasure,
+} from '../../src/services/tmdl.js';
+
+const salesTable = [
+  "table 'Sales Data'",
+  '\tlineageTag: 1b2c',
+  '',
+  '\t/// Net revenue after discounts',
+  "\tmeasure 'Net Revenue' = SUM('Sales Data'[Amount]) - SUM('Sales Data'[Discount])",
+  '\t\tformatString: #,0.00',
+  '\t\tdisplayFolder: Revenue',
+  '\t\tlineageTag: 3d4e',
+  '',
+  '\tmeasure Margin =',
+  '\t\t\tVAR revenue = [Net Revenue]',
+  '\t\t\tRETURN',
+  '\t\t\t\tDIVIDE(revenue - [Cost], revenue)',
+  '\t\tformatString: 0.0%',
+  '\t\tisHidden',
+  '',
+  '\tcolumn Amount',
+  '\t\tdataType: decimal',
+  '\t\tsourceColumn: Amount',
+  '\t\tsummarizeBy: sum',
+  '',
+  '\tcolumn Year = YEAR([Date])',
+  '\t\tdataType: int64',
+  '',
+  '\tpartition Sales = m',
+  '\t\tmode: import',
+  '\t\tsource =',
+  '\t\t\t\tlet',
+  '\t\t\t\t\tSource = Sql.Database("server", "db")',
+  '\t\t\t\tin',
+  '\t\t\t\t\tSource',
+  '',
+].join('\n');
+
+const modelFile = [
+  'model Model',
+  '\tculture: en-US',
+  '',
+  'relationship 5f6a',
+  "\tfromColumn: 'Sales Data'.DateKey",
+  '\ttoColumn: Date.DateKey',
+  '\tisActive: false',
+  '',
+  'role Readers',
+  '\tmodelPermission: read',
+  '',
+  '\tmember user@contoso.com',
+  '',
+  '\ttablePermission \'Sales Data\' = [Region] = "West"',
+  '',
+  'ref table Date',
+].join('\r\n');
+
+interface TomDatabase {
+  model: {
+    culture?: string;
+    tables: Array<{ name: string; measures: unknown[]; columns: unknown[]; partitions: unknown[] }>;
+    relationships: unknown[];
+    roles: unknown[];
+  };
+}
+
+function roundTrip(measure: TmdlMeasure) {
+  const source = ['table Sales', ...serializeTmdlMeasure(measure, 1), ''].join('\n');
+  const database = tmdlToTomDatabase([parseTmdl(source)]) as unknown as TomDatabase;
+  return database.model.tables[0].measures[0];
+}
+
+describe('parseTmdl / tmdlToTomDatabase', () => {
+  const database = tmdlToTomDatabase([
+    parseTmdl(salesTable),
+    parseTmdl(modelFile),
+  ]) as unknown as TomDatabase;
+  const [table] = database.model.tables;
+
+  it('reads tables, measures with descriptions and multi-line expressions', () => {
+    expect(table.name).toBe('Sales Data');
+    expect(table.measures).toEqual([
+      {
+        name: 'Net Revenue',
+        expression: "SUM('Sales Data'[Amount]) - SUM('Sales Data'[Discount])",
+        formatString: '#,0.00',
+        displayFolder: 'Revenue',
+        description: 'Net revenue after discounts',
+      },
+      {
+        name: 'Margin',
+        expression: 'VAR revenue = [Net Revenue]\nRETURN\n\tDIVIDE(revenue - [Cost], revenue)',
+        formatString: '0.0%',
+        isHidden: true,
+      },
+    ]);
+  });
+
+  it('reads data and calculated columns and partitions', () => {
+    expect(table.columns).toEqual([
+      { name: 'Amount', dataType: 'decimal', sourceColumn: 'Amount', summarizeBy: 'sum' },
+      { name: 'Year', type: 'calculated', expression: 'YEAR([Date])', dataType: 'int64' },
+    ]);
+    expect(table.partitions).toEqual([
+      {
+        name: 'Sales',
+        mode: 'import',
+        source: {
+          type: 'm',
+          expression: 'let\n\tSource = Sql.Database("server", "db")\nin\n\tSource',
+        },
+      },
+    ]);
+  });
+
+  it('reads model properties, relationships and roles from CRLF files', () => {
+    expect(database.model.culture).toBe('en-US');
+    expect(database.model.relationships).toEqual([
+      {
+        name: '5f6a',
+        fromTable: 'Sales Data',
+        fromColumn: 'DateKey',
+        toTable: 'Date',
+        toColumn: 'DateKey',
+        isActive: false,
+      },
+    ]);
+    expect(database.model.roles).toEqual([
+      {
+        name: 'Readers',
+        modelPermission: 'read',
+        members: [{ memberName: 'user@contoso.com' }],
+        tablePermissions: [{ name: 'Sales Data', filterExpression: '[Region] = "West"' }],
+      },
+    ]);
+  });
+});
+
+describe('serializeTmdlMeasure', () => {
+  it('round-trips a single-line measure with properties', () => {
+    const measure = {
+      name: 'Total Sales',
+      expression: 'SUM(Sales[Amount])',
+      formatString: '"$"#,0',
+      displayFolder: ' Padded ',
+      description: 'First line\nSecond line',
+      isHidden: true,
+    };
+
+    expect(roundTrip(measure)).toEqual(measure);
+  });
+
+  it('round-trips a multi-line expression', () => {
+    const measure = {
+      name: "Customer's Share",
+      expression: 'DIVIDE(\n\t[Sales],\n\tCALCULATE([Sales], ALL(Customer))\n)',
+    };
+
+    expect(roundTrip(measure)).toEqual(measure);
+  });
+
+  it('keeps extra lines verbatim after the managed properties', () => {
+    const lines = serializeTmdlMeasure(
+      { name: 'Count', expression: 'COUNTROWS(Sales)', formatString: '0' },
+      1,
+      ['\t\tlineageTag: abc']
+    );
+
+    expect(lines).toEqual([
+      '\tmeasure Count = COUNTROWS(Sales)',
+      '\t\tformatString: 0',
+      '\t\tlineageTag: abc',
+    ]);
+  });
+});
+
+describe('names', () => {
+  it('quotes names that are not plain identifiers', () => {
+    expect(quoteTmdlName('Sales')).toBe('Sales');
+    expect(quoteTmdlName('Sales Data')).toBe("'Sales Data'");
+    expect(quoteTmdlName("Customer's")).toBe("'Customer''s'");
+  });
+
+  it('splits qualified column references', () => {
+    expect(splitQualifiedName("'Sales Data'.'Order Date'")).toEqual({
+      table: 'Sales Data',
+      column: 'Order Date',
+    });
+    expect(splitQualifiedName('Date.DateKey')).toEqual({ table: 'Date', column: 'DateKey' });
+  });
+});
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+
+import { encryptCredentials, type GatewayPublicKey } from '../../src/utils/credentialEncryption.js';
+
+const credentials = JSON.stringify({
+  credentialData: [
+    { name: 'username', value: 'svc-powerbi' },
+    { name: 'password', value: 'p'.repeat(200) },
+  ],
+});
+
+function generateGatewayKey(modulusLength: number) {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const base64 = (value?: string) => Buffer.from(value!, 'base64url').toString('base64');
+  const gatewayKey: GatewayPublicKey = { modulus: base64(jwk.n), exponent: base64(jwk.e) };
+  return { gatewayKey, privateKey };
+}
+
+function rsaDecrypt(privateKey: crypto.KeyObject, data: Buffer) {
+  return crypto.privateDecrypt(
+    { key: privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha1' },
+    data
+  );
+}
+
+describe('encryptCredentials', () => {
+  it('encrypts in RSA segments for 1024-bit keys', () => {
+    const { gatewayKey, privateKey } = generateGatewayKey(1024);
+    const encrypted = Buffer.from(encryptCredentials(credentials, gatewayKey), 'base64');
+
+    expect(encrypted.length % 128).toBe(0);
+    const segments: Buffer[] = [];
+    for (let offset = 0; offset < encrypted.length; offset += 128) {
+      segments.push(rsaDecrypt(privateKey, encrypted.subarray(offset, offset + 128)));
+    }
+    expect(Buffer.concat(segments).toString('utf8')).toBe(credentials);
+  });
+
+  it('encrypts with RSA-wrapped AES and HMAC keys for 2048-bit keys', () => {
+    const { gatewayKey, privateKey } = generateGatewayKey(2048);
+    const encrypted = encryptCredentials(credentials, gatewayKey);
+
+    // 256 bytes of RSA output are 344 base64 characters, followed by the hybrid cipher text
+    const keys = rsaDecrypt(privateKey, Buffer.from(encrypted.slice(0, 344), 'base64'));
+    const payload = Buffer.from(encrypted.slice(344), 'base64');
+
+    expect([...keys.subarray(0, 2)]).toEqual([0, 1]);
+    expect(keys.length).toBe(2 + 32 + 64);
+    const encryptionKey = keys.subarray(2, 34);
+    const macKey = keys.subarray(34);
+
+    const algorithms = payload.subarray(0, 2);
+    const mac = payload.subarray(2, 34);
+    const iv = payload.subarray(34, 50);
+    const cipherText = payload.subarray(50);
+    expect([...algorithms]).toEqual([0, 0]);
+
+    const expectedMac = crypto
+      .createHmac('sha256', macKey)
+      .update(Buffer.concat([algorithms, iv, cipherText]))
+      .digest();
+    expect(mac.equals(expectedMac)).toBe(true);
+
+    const decipher = crypto.createDecipheriv('aes-256-cbc', encryptionKey, iv);
+    const plain = Buffer.concat([decipher.update(cipherText), decipher.final()]);
+    expect(plain.toString('utf8')).toBe(credentials);
+  });
+});
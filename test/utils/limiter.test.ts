@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { CancelledError } from '../../src/utils/errors.js';
+import { ConcurrencyLimiter } from '../../src/utils/limiter.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('runs at most `limit` tasks at a time and starts waiting tasks in FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+
+    const runs = gates.map((gate, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      })
+    );
+
+    await tick();
+    expect(started).toEqual([0, 1]);
+
+    gates[1].resolve();
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[0].resolve();
+    await tick();
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    gates[2].resolve();
+    gates[3].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('reports queued tasks as progress', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const gate = deferred();
+    const messages: string[] = [];
+
+    const first = limiter.run(() => gate.promise);
+    const second = limiter.run(async () => undefined, {
+      onProgress: (update) => messages.push(update.message),
+    });
+
+    expect(messages).toEqual(['Waiting for a free slot (1 queued)']);
+    gate.resolve();
+    await Promise.all([first, second]);
+  });
+
+  it('removes an aborted task from the queue without running it', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const gate = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    const first = limiter.run(() => gate.promise);
+    const aborted = limiter.run(
+      async () => {
+        ran = true;
+      },
+      { signal: controller.signal }
+    );
+    const third = limiter.run(async () => 'third');
+
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(CancelledError);
+
+    gate.resolve();
+    await first;
+    await expect(third).resolves.toBe('third');
+    expect(ran).toBe(false);
+  });
+
+  it('rejects right away when the signal is already aborted', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      limiter.run(async () => 'never', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(CancelledError);
+    await expect(limiter.run(async () => 'free')).resolves.toBe('free');
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { CancelledError, TimeoutError } from '../../src/utils/errors.js';
+import { pollUntil, sleep } from '../../src/utils/poll.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('sleep', () => {
+  it('resolves after the delay', async () => {
+    vi.useFakeTimers();
+    let done = false;
+    const sleeping = sleep(1000).then(() => (done = true));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await sleeping;
+    expect(done).toBe(true);
+  });
+
+  it('rejects with CancelledError when aborted', async () => {
+    const controller = new AbortController();
+    const sleeping = sleep(60_000, controller.signal);
+
+    controller.abort();
+    await expect(sleeping).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('pollUntil', () => {
+  it('polls until the value is accepted and reports each status', async () => {
+    const values = ['Queued', 'Running', 'Succeeded'];
+    const messages: string[] = [];
+
+    const result = await pollUntil(
+      async () => values.shift()!,
+      (value) => value === 'Succeeded',
+      {
+        intervalMs: 1,
+        description: 'refresh',
+        status: (value) => value,
+        onProgress: (update) => messages.push(update.message),
+      }
+    );
+
+    expect(result).toBe('Succeeded');
+    expect(messages).toEqual(['refresh: Queued', 'refresh: Running']);
+  });
+
+  it('reports a generic message when there is no status', async () => {
+    const messages: string[] = [];
+    let calls = 0;
+
+    await pollUntil(
+      async () => ++calls,
+      (value) => value === 2,
+      {
+        intervalMs: 1,
+        description: 'import',
+        onProgress: (update) => messages.push(update.message),
+      }
+    );
+
+    expect(messages).toEqual(['Waiting for import']);
+  });
+
+  it('times out with the last polled value', async () => {
+    const polling = pollUntil(
+      async () => 'Running',
+      () => false,
+      { intervalMs: 10, timeoutMs: 25, description: 'export' }
+    );
+
+    await expect(polling).rejects.toBeInstanceOf(TimeoutError);
+    await expect(polling).rejects.toMatchObject({
+      message: 'Timed out waiting for export',
+      details: { timeoutMs: 25, last: 'Running' },
+    });
+  });
+
+  it('stops when the signal is aborted between polls', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+
+    const polling = pollUntil(
+      async () => {
+        if (++calls === 2) controller.abort();
+        return calls;
+      },
+      () => false,
+      { intervalMs: 1, signal: controller.signal }
+    );
+
+    await expect(polling).rejects.toBeInstanceOf(CancelledError);
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffLines } from '../../src/utils/textDiff.js';
+
+describe('diffLines', () => {
+  it('marks unchanged, removed and added lines', () => {
+    const before = ['CALCULATE(', '  SUM(Sales[Amount]),', '  Sales[Year] = 2023', ')'].join('\n');
+    const after = ['CALCULATE(', '  SUM(Sales[Net]),', '  Sales[Year] = 2023', ')'].join('\n');
+
+    expect(diffLines(before, after).split('\n')).toEqual([
+      ' CALCULATE(',
+      '-  SUM(Sales[Amount]),',
+      '+  SUM(Sales[Net]),',
+      '   Sales[Year] = 2023',
+      ' )',
+    ]);
+  });
+
+  it('treats CRLF and LF line endings alike, collapsing text without changes', () => {
+    expect(diffLines('a\r\nb', 'a\nb')).toBe('...');
+  });
+
+  it('collapses unchanged runs outside the context window', () => {
+    const before = Array.from({ length: 10 }, (_, i) => `line ${i}`);
+    const after = [...before];
+    after[5] = 'changed';
+
+    expect(diffLines(before.join('\n'), after.join('\n'), 1).split('\n')).toEqual([
+      '...',
+      ' line 4',
+      '-line 5',
+      '+changed',
+      ' line 6',
+      '...',
+    ]);
+  });
+
+  it('handles added and removed lines at the ends', () => {
+    expect(diffLines('b', 'a\nb\nc').split('\n')).toEqual(['+a', ' b', '+c']);
+    expect(diffLines('a\nb', '').split('\n')).toEqual(['-a', '-b', '+']);
+  });
+});
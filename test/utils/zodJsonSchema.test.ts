@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { zodToJsonSchema } from '../../src/utils/zodJsonSchema.js';
+
+describe('zodToJsonSchema', () => {
+  it('maps string and number checks', () => {
+    expect(zodToJsonSchema(z.string().min(1).max(10).regex(/^a/))).toEqual({
+      type: 'string',
+      minLength: 1,
+      maxLength: 10,
+      pattern: '^a',
+    });
+    expect(zodToJsonSchema(z.string().uuid())).toEqual({ type: 'string', format: 'uuid' });
+    expect(zodToJsonSchema(z.number().int().positive().max(100))).toEqual({
+      type: 'integer',
+      exclusiveMinimum: 0,
+      maximum: 100,
+    });
+  });
+
+  it('lists required properties and describes fields', () => {
+    const schema = z.object({
+      id: z.string().describe('Dataset ID'),
+      top: z.number().optional(),
+      mode: z.enum(['a', 'b']).default('a'),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Dataset ID' },
+        top: { type: 'number' },
+        mode: { type: 'string', enum: ['a', 'b'], default: 'a' },
+      },
+      required: ['id'],
+    });
+  });
+
+  it('closes strict objects and opens output objects', () => {
+    const shape = { name: z.string() };
+
+    expect(zodToJsonSchema(z.object(shape).strict())).toMatchObject({
+      additionalProperties: false,
+    });
+    expect(zodToJsonSchema(z.object(shape), { io: 'output' })).toMatchObject({
+      additionalProperties: true,
+    });
+    expect(zodToJsonSchema(z.object(shape).catchall(z.number()))).toMatchObject({
+      additionalProperties: { type: 'number' },
+    });
+    expect(zodToJsonSchema(z.object(shape))).not.toHaveProperty('additionalProperties');
+  });
+
+  it('collapses string literal unions into an enum', () => {
+    expect(zodToJsonSchema(z.union([z.literal('PDF'), z.enum(['PNG', 'PPTX'])]))).toEqual({
+      type: 'string',
+      enum: ['PDF', 'PNG', 'PPTX'],
+    });
+    expect(zodToJsonSchema(z.union([z.literal(15), z.literal(30)]))).toEqual({
+      anyOf: [
+        { type: 'number', const: 15 },
+        { type: 'number', const: 30 },
+      ],
+    });
+  });
+
+  it('maps arrays, records, nullable and numeric native enums', () => {
+    enum Level {
+      Low = 1,
+      High = 2,
+    }
+
+    expect(zodToJsonSchema(z.array(z.boolean()).min(1).max(3))).toEqual({
+      type: 'array',
+      items: { type: 'boolean' },
+      minItems: 1,
+      maxItems: 3,
+    });
+    expect(zodToJsonSchema(z.record(z.string()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    });
+    expect(zodToJsonSchema(z.nativeEnum(Level))).toEqual({ type: 'number', enum: [1, 2] });
+  });
+
+  it('describes the input of refinements and transforms, and accepts anything for any', () => {
+    expect(zodToJsonSchema(z.string().refine((value) => value.length % 2 === 0))).toEqual({
+      type: 'string',
+    });
+    expect(zodToJsonSchema(z.string().transform(Number))).toEqual({ type: 'string' });
+    expect(zodToJsonSchema(z.unknown())).toEqual({});
+  });
+});